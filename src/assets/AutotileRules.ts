@@ -0,0 +1,203 @@
+/**
+ * Autotile rule sets for terrain transitions
+ */
+
+import { z } from 'zod';
+import { GridCoord, TileData, TileId, createTileData } from '../core/types';
+import { parseWithSchema, schemas } from '../level/validation';
+import shallowWaterRules from './autotile/shallow-water.json';
+import deepWaterRules from './autotile/deep-water.json';
+
+/** Neighbour directions a rule can require; north is y - 1 */
+export type AutotileDirection = 'N' | 'E' | 'S' | 'W' | 'NE' | 'SE' | 'SW' | 'NW';
+
+/** Whether diagonal neighbours are part of the mask */
+export type AutotileNeighborhood = 4 | 8;
+
+interface AutotileDirectionInfo {
+  readonly direction: AutotileDirection;
+  readonly offset: GridCoord;
+  readonly bit: number;
+  /** Edges that must both match for a diagonal to count */
+  readonly requires?: readonly [AutotileDirection, AutotileDirection];
+}
+
+/**
+ * Mask bit for each direction
+ * Edge bits come first, so a 4-way mask is the low four bits of an 8-way one.
+ */
+export const AUTOTILE_DIRECTIONS: readonly AutotileDirectionInfo[] = [
+  { direction: 'N', offset: { x: 0, y: -1 }, bit: 1 },
+  { direction: 'E', offset: { x: 1, y: 0 }, bit: 2 },
+  { direction: 'S', offset: { x: 0, y: 1 }, bit: 4 },
+  { direction: 'W', offset: { x: -1, y: 0 }, bit: 8 },
+  { direction: 'NE', offset: { x: 1, y: -1 }, bit: 16, requires: ['N', 'E'] },
+  { direction: 'SE', offset: { x: 1, y: 1 }, bit: 32, requires: ['S', 'E'] },
+  { direction: 'SW', offset: { x: -1, y: 1 }, bit: 64, requires: ['S', 'W'] },
+  { direction: 'NW', offset: { x: -1, y: -1 }, bit: 128, requires: ['N', 'W'] },
+];
+
+const EDGE_MASK = 0b1111;
+
+const DIRECTION_BITS = new Map(AUTOTILE_DIRECTIONS.map((info) => [info.direction, info.bit]));
+
+/** A compiled rule set, ready for lookups */
+export interface AutotileRuleSet {
+  readonly id: string;
+  readonly name: string;
+  readonly description: string;
+  readonly neighborhood: AutotileNeighborhood;
+  /** Tiles the rules place; only these are swapped when neighbours change */
+  readonly tileIds: ReadonlySet<TileId>;
+  /** Tiles that count as this terrain when neighbours are checked */
+  readonly members: ReadonlySet<TileId>;
+  /** Tile for a cell with no matching neighbours, or a mask without a rule */
+  readonly defaultTile: TileData;
+  /** Tile for each neighbour mask that has a rule */
+  readonly variants: ReadonlyMap<number, TileData>;
+}
+
+// ============================================================================
+// Rule file format
+// ============================================================================
+
+const AutotileRuleSchema = z.object({
+  /** Neighbours that must be the same terrain; all others must not be */
+  neighbors: z.array(z.enum(['N', 'E', 'S', 'W', 'NE', 'SE', 'SW', 'NW'])),
+  tileId: schemas.TileId,
+  rotation: z.union([z.literal(0), z.literal(90), z.literal(180), z.literal(270)]).optional(),
+  flipX: z.boolean().optional(),
+  flipY: z.boolean().optional(),
+});
+
+const AutotileRuleSetSchema = z
+  .object({
+    id: z.string().min(1),
+    name: z.string().min(1),
+    description: z.string().default(''),
+    neighborhood: z.union([z.literal(4), z.literal(8)]),
+    /** Extra tiles that count as this terrain but are never swapped */
+    members: z.array(schemas.TileId).default([]),
+    defaultTileId: schemas.TileId,
+    rules: z.array(AutotileRuleSchema),
+  })
+  .superRefine((ruleSet, ctx) => {
+    const seen = new Map<number, number>();
+    ruleSet.rules.forEach((rule, index) => {
+      for (const info of AUTOTILE_DIRECTIONS) {
+        if (!info.requires || !rule.neighbors.includes(info.direction)) continue;
+
+        const [a, b] = info.requires;
+        const message =
+          ruleSet.neighborhood === 4
+            ? `${info.direction} is a diagonal, which a 4-way rule set does not check`
+            : !rule.neighbors.includes(a) || !rule.neighbors.includes(b)
+              ? `${info.direction} only counts when ${a} and ${b} match too`
+              : null;
+        if (message) {
+          ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['rules', index, 'neighbors'], message });
+          return;
+        }
+      }
+
+      const mask = getRuleMask(rule.neighbors);
+      const previous = seen.get(mask);
+      if (previous !== undefined) {
+        ctx.addIssue({
+          code: z.ZodIssueCode.custom,
+          path: ['rules', index, 'neighbors'],
+          message: `Same neighbours as rules[${previous}]`,
+        });
+      } else {
+        seen.set(mask, index);
+      }
+    });
+  });
+
+/** Rule set as written in a JSON rule file */
+export type AutotileRuleSetData = z.input<typeof AutotileRuleSetSchema>;
+
+function getRuleMask(neighbors: readonly AutotileDirection[]): number {
+  return neighbors.reduce((mask, direction) => mask | (DIRECTION_BITS.get(direction) ?? 0), 0);
+}
+
+/**
+ * Compile a rule file for lookups
+ * @throws Error if the file is invalid
+ */
+export function parseAutotileRuleSet(data: unknown): AutotileRuleSet {
+  const { rules, defaultTileId, ...ruleSet } = parseWithSchema(
+    AutotileRuleSetSchema,
+    data,
+    'autotile rule set'
+  );
+  const tileIds = new Set<TileId>([defaultTileId]);
+  const variants = new Map<number, TileData>();
+  for (const { neighbors, tileId, ...orientation } of rules) {
+    tileIds.add(tileId);
+    variants.set(getRuleMask(neighbors), createTileData(tileId, orientation));
+  }
+
+  return {
+    ...ruleSet,
+    tileIds,
+    members: new Set([...tileIds, ...ruleSet.members]),
+    defaultTile: createTileData(defaultTileId),
+    variants,
+  };
+}
+
+// ============================================================================
+// Lookups
+// ============================================================================
+
+/**
+ * Neighbour mask of a cell
+ * A diagonal only counts when both edges next to it match, so one rule covers
+ * every "outer corner" variation.
+ */
+export function getAutotileMask(
+  ruleSet: AutotileRuleSet,
+  coord: GridCoord,
+  matches: (neighbor: GridCoord) => boolean
+): number {
+  let mask = 0;
+  for (const { offset, bit, requires } of AUTOTILE_DIRECTIONS) {
+    if (requires) {
+      if (ruleSet.neighborhood === 4) break;
+      const [a, b] = requires;
+      const required = (DIRECTION_BITS.get(a) ?? 0) | (DIRECTION_BITS.get(b) ?? 0);
+      if ((mask & required) !== required) continue;
+    }
+    if (matches({ x: coord.x + offset.x, y: coord.y + offset.y })) {
+      mask |= bit;
+    }
+  }
+  return mask;
+}
+
+/**
+ * Tile for a neighbour mask
+ * 8-way masks without a rule fall back to the rule for their edges alone.
+ */
+export function resolveAutotileTile(ruleSet: AutotileRuleSet, mask: number): TileData {
+  return (
+    ruleSet.variants.get(mask) ?? ruleSet.variants.get(mask & EDGE_MASK) ?? ruleSet.defaultTile
+  );
+}
+
+/**
+ * Built-in rule sets, one per terrain family
+ * Deep Water is the 8-way example: its diagonals pick the deepest tile.
+ */
+export const AUTOTILE_RULE_SETS: readonly AutotileRuleSet[] = [
+  shallowWaterRules,
+  deepWaterRules,
+].map(parseAutotileRuleSet);
+
+/**
+ * Find a built-in rule set by id
+ */
+export function getAutotileRuleSet(id: string): AutotileRuleSet | undefined {
+  return AUTOTILE_RULE_SETS.find((ruleSet) => ruleSet.id === id);
+}
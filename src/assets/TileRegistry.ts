@@ -2,12 +2,28 @@
  * Tile registry for managing tile definitions and spritesheet UV coordinates
  */
 
-import { TileId, TileUV } from '../core/types';
-import { TILE_WIDTH, TILE_HEIGHT, TOTAL_TILES, SPRITESHEET_PATH } from '../core/constants';
+import { TileId, TileUV, TileOrientation, TileRotation } from '../core/types';
+import {
+  TILE_WIDTH,
+  TILE_HEIGHT,
+  ISO_TILE_HEIGHT,
+  TOTAL_TILES,
+  SPRITESHEET_PATH,
+  SPRITESHEET_COLUMNS,
+} from '../core/constants';
 import { loadSpritesheet } from './AssetLoader';
+import { TilesetMetadata, TILESET_METADATA } from './TilesetMetadata';
 
-/** Spritesheet configuration */
-const SPRITESHEET_COLUMNS = 11;
+/**
+ * Screen-space transforms (a, b, c, d) for each clockwise quarter turn of the grid
+ * A turn maps the diamond onto itself instead of standing it on a tip.
+ */
+const ROTATION_TRANSFORMS: Record<TileRotation, readonly [number, number, number, number]> = {
+  0: [1, 0, 0, 1],
+  90: [0, 0.5, -2, 0],
+  180: [-1, 0, 0, -1],
+  270: [0, -0.5, 2, 0],
+};
 
 /** Tile category for organization */
 export interface TileCategory {
@@ -39,6 +55,8 @@ export class TileRegistry {
   private uvCache = new Map<TileId, TileUV>();
   private _isReady = false;
 
+  constructor(private metadata: TilesetMetadata = TILESET_METADATA) {}
+
   /**
    * Load the spritesheet and initialize UV coordinates
    */
@@ -121,6 +139,42 @@ export class TileRegistry {
     );
   }
 
+  /**
+   * Get the tags a tile carries in the tileset metadata
+   */
+  getTileTags(tileId: TileId): readonly string[] {
+    return this.metadata.tags.get(tileId) ?? [];
+  }
+
+  /**
+   * Find the tiles matching a search query
+   * Every word must match the tile's id (optionally written as #id), one of
+   * its tags, or its category id or name. An empty query matches every tile.
+   */
+  searchTiles(query: string): TileId[] {
+    const terms = query.toLowerCase().split(/\s+/).filter(Boolean);
+    return this.getAllTileIds().filter((tileId) =>
+      terms.every((term) => this.matchesSearchTerm(tileId, term))
+    );
+  }
+
+  private matchesSearchTerm(tileId: TileId, term: string): boolean {
+    const idTerm = term.startsWith('#') ? term.slice(1) : term;
+    if (/^\d+$/.test(idTerm)) {
+      return Number(idTerm) === tileId;
+    }
+
+    if (this.getTileTags(tileId).some((tag) => tag.startsWith(term))) {
+      return true;
+    }
+
+    const category = this.getCategoryForTile(tileId);
+    return (
+      category !== undefined &&
+      (category.id.includes(term) || category.name.toLowerCase().includes(term))
+    );
+  }
+
   /**
    * Build the UV coordinate cache for all tiles
    */
@@ -140,13 +194,16 @@ export class TileRegistry {
 
   /**
    * Draw a tile to a canvas context
+   * Rotation turns the sprite's top face around the center of its diamond, and
+   * flips mirror the sprite through that center. Art above the top face is slanted.
    */
   drawTile(
     ctx: CanvasRenderingContext2D,
     tileId: TileId,
     destX: number,
     destY: number,
-    scale: number = 1
+    scale: number = 1,
+    orientation: TileOrientation = {}
   ): void {
     if (!this.spritesheet) {
       throw new Error('TileRegistry not initialized');
@@ -155,24 +212,56 @@ export class TileRegistry {
     const uv = this.getTileUV(tileId);
     const destWidth = TILE_WIDTH * scale;
     const destHeight = TILE_HEIGHT * scale;
+    const rotation = orientation.rotation ?? 0;
+    const flipX = orientation.flipX ?? false;
+    const flipY = orientation.flipY ?? false;
+
+    // Fast path for unrotated, unflipped tiles
+    if (rotation === 0 && !flipX && !flipY) {
+      ctx.drawImage(
+        this.spritesheet,
+        uv.x,
+        uv.y,
+        uv.width,
+        uv.height,
+        destX,
+        destY,
+        destWidth,
+        destHeight
+      );
+      return;
+    }
 
+    // The diamond fills the bottom of the sprite, so its center sits half a diamond up
+    const centerX = destWidth / 2;
+    const centerY = destHeight - (ISO_TILE_HEIGHT / 2) * scale;
+
+    ctx.save();
+    ctx.translate(destX + centerX, destY + centerY);
+    ctx.transform(...ROTATION_TRANSFORMS[rotation], 0, 0);
+    ctx.scale(flipX ? -1 : 1, flipY ? -1 : 1);
     ctx.drawImage(
       this.spritesheet,
       uv.x,
       uv.y,
       uv.width,
       uv.height,
-      destX,
-      destY,
+      -centerX,
+      -centerY,
       destWidth,
       destHeight
     );
+    ctx.restore();
   }
 
   /**
    * Create an offscreen canvas with a single tile (for UI previews)
    */
-  createTilePreview(tileId: TileId, scale: number = 1): HTMLCanvasElement {
+  createTilePreview(
+    tileId: TileId,
+    scale: number = 1,
+    orientation: TileOrientation = {}
+  ): HTMLCanvasElement {
     const canvas = document.createElement('canvas');
     canvas.width = TILE_WIDTH * scale;
     canvas.height = TILE_HEIGHT * scale;
@@ -180,7 +269,7 @@ export class TileRegistry {
     const ctx = canvas.getContext('2d');
     if (ctx) {
       ctx.imageSmoothingEnabled = false;
-      this.drawTile(ctx, tileId, 0, 0, scale);
+      this.drawTile(ctx, tileId, 0, 0, scale, orientation);
     }
 
     return canvas;
@@ -0,0 +1,69 @@
+/**
+ * Tileset metadata: search tags for each tile
+ */
+
+import { z } from 'zod';
+import { TileId } from '../core/types';
+import { parseWithSchema, schemas } from '../level/validation';
+import tilesetMetadata from './tileset.json';
+
+/** Compiled tileset metadata, ready for lookups */
+export interface TilesetMetadata {
+  readonly name: string;
+  readonly description: string;
+  /** Tags of each tile that has any, sorted */
+  readonly tags: ReadonlyMap<TileId, readonly string[]>;
+}
+
+// ============================================================================
+// Metadata file format
+// ============================================================================
+
+const TileTagEntrySchema = z
+  .object({
+    from: schemas.TileId,
+    /** Last tile of the range (defaults to `from`) */
+    to: schemas.TileId.optional(),
+    tags: z
+      .array(z.string().regex(/^[a-z0-9-]+$/, 'Tags are lowercase words joined by hyphens'))
+      .min(1),
+  })
+  .refine((entry) => entry.to === undefined || entry.to >= entry.from, {
+    message: '`to` must not be below `from`',
+    path: ['to'],
+  });
+
+const TilesetMetadataSchema = z.object({
+  name: z.string().min(1),
+  description: z.string().default(''),
+  tiles: z.array(TileTagEntrySchema),
+});
+
+/** Metadata as written in a tileset metadata file */
+export type TilesetMetadataData = z.input<typeof TilesetMetadataSchema>;
+
+/**
+ * Compile a tileset metadata file into tags per tile
+ * A tile gets the tags of every entry whose range includes it.
+ * @throws Error if the file is invalid
+ */
+export function parseTilesetMetadata(data: unknown): TilesetMetadata {
+  const metadata = parseWithSchema(TilesetMetadataSchema, data, 'tileset metadata');
+
+  const tagSets = new Map<TileId, Set<string>>();
+  for (const { from, to = from, tags } of metadata.tiles) {
+    for (let tileId = from; tileId <= to; tileId++) {
+      const tileTags = tagSets.get(tileId) ?? new Set<string>();
+      tags.forEach((tag) => tileTags.add(tag));
+      tagSets.set(tileId, tileTags);
+    }
+  }
+
+  const tags = new Map<TileId, readonly string[]>();
+  tagSets.forEach((tileTags, tileId) => tags.set(tileId, [...tileTags].sort()));
+
+  return { name: metadata.name, description: metadata.description, tags };
+}
+
+/** Metadata for the bundled spritesheet */
+export const TILESET_METADATA: TilesetMetadata = parseTilesetMetadata(tilesetMetadata);
@@ -4,5 +4,7 @@
 
 export * from './AssetLoader';
 export * from './TileRegistry';
+export * from './AutotileRules';
+export * from './TilesetMetadata';
 export * from './pixel/PixelAssetGeneratorClient';
 export * from './pixel/PixelAssetRequirements';
@@ -4,29 +4,22 @@ import {
   GridCoord,
   TileBehavior,
   TileBehaviorPlacement,
-  TileBehaviorType,
 } from '../core/types';
-import { ISO_TILE_HEIGHT, ISO_TILE_WIDTH } from '../core/constants';
+import {
+  BEHAVIOR_OVERLAY_COLORS,
+  ISO_TILE_HEIGHT,
+  ISO_TILE_WIDTH,
+  OPEN_DOOR_OVERLAY_COLOR,
+} from '../core/constants';
 import { Canvas } from '../engine/Canvas';
 import { Camera } from '../engine/Camera';
 import { Renderer } from '../engine/Renderer';
 import { TileRegistry } from '../assets/TileRegistry';
 import { Level } from '../level/Level';
 import { deserializeLevel, loadLevelFromFile, serializeLevel } from '../level/LevelSerializer';
+import { LevelChange, applyLevelChanges } from '../level/LevelDiff';
 import { ClopPersonality, ClopPersonalityConfig, ClopSnapshot, SimulationSpeed } from './types';
 
-const OVERLAY_COLORS: Record<TileBehaviorType, string> = {
-  floor: 'rgba(74, 158, 255, 0.08)',
-  blocker: 'rgba(255, 74, 74, 0.45)',
-  slow: 'rgba(255, 199, 94, 0.35)',
-  hole: 'rgba(20, 20, 20, 0.6)',
-  conveyor: 'rgba(74, 158, 255, 0.22)',
-  'hazard-burn': 'rgba(255, 132, 74, 0.38)',
-  door: 'rgba(156, 132, 255, 0.4)',
-  exit: 'rgba(74, 255, 198, 0.35)',
-  spawn: 'rgba(138, 255, 74, 0.32)',
-};
-
 const CLOP_COLORS: Record<ClopPersonality, string> = {
   curious: '#4aff9e',
   coward: '#ffd75e',
@@ -60,6 +53,8 @@ export interface ClopPersonalityTesterOptions {
 
 interface ClopTesterEventMap {
   'level:changed': { level: Level };
+  // Part of the level sync contract; this tester never edits its level
+  'level:edited': { level: Level };
   'clops:updated': { clops: ClopSnapshot[] };
   'log:message': { text: string };
 }
@@ -191,6 +186,13 @@ export class ClopPersonalityTester {
     this.setLevel(clone);
   }
 
+  applyLevelChanges(changes: readonly LevelChange[]): void {
+    // Edits synced from the editor can move the exit; the clops stay where they are
+    if (changes.length === 0) return;
+    applyLevelChanges(this.level, changes);
+    this.exitTile = this.findExitTile();
+  }
+
   resetClops(): void {
     const spawns = this.collectSpawnPoints();
     const assignments: ClopPersonality[] = ['curious', 'coward', 'hyperactive'];
@@ -536,7 +538,7 @@ export class ClopPersonalityTester {
       { x: coord.x, y: coord.y + 1 },
       { x: coord.x, y: coord.y - 1 },
     ];
-    return neighbors.filter((n) => this.level.isInBounds(n));
+    return neighbors.filter((n) => this.level.isInBounds(n) && this.level.canStep(coord, n));
   }
 
   private isBlocked(coord: GridCoord): boolean {
@@ -548,6 +550,15 @@ export class ClopPersonalityTester {
     return this.getTileBehavior(coord).type === 'hole';
   }
 
+  // Elevation under a (possibly mid-step) position, interpolated along the step
+  private getElevationAt(position: GridCoord): number {
+    const from = { x: Math.floor(position.x), y: Math.floor(position.y) };
+    const to = { x: Math.ceil(position.x), y: Math.ceil(position.y) };
+    const t = Math.max(position.x - from.x, position.y - from.y);
+    const start = this.level.getElevation(from);
+    return start + (this.level.getElevation(to) - start) * t;
+  }
+
   private isOccupied(coord: GridCoord, clopId: number): boolean {
     return this.clops.some((c) => c.id !== clopId && !c.stuck && !c.finished && this.sameCoord(this.roundCoord(c.position), coord));
   }
@@ -560,6 +571,7 @@ export class ClopPersonalityTester {
       { x: coord.x + 1, y: coord.y };
 
     if (!this.level.isInBounds(target)) return null;
+    if (!this.level.canStep(coord, target)) return null;
     if (this.isBlocked(target)) return null;
     if (this.isOccupied(target, -1)) return null;
     return target;
@@ -708,7 +720,13 @@ export class ClopPersonalityTester {
 
   private renderClops(ctx: CanvasRenderingContext2D, offsetX: number, offsetY: number): void {
     for (const clop of this.clops) {
-      const pos = gridToScreen(clop.position.x, clop.position.y, offsetX, offsetY);
+      const pos = gridToScreen(
+        clop.position.x,
+        clop.position.y,
+        offsetX,
+        offsetY,
+        this.getElevationAt(clop.position)
+      );
       const color = CLOP_COLORS[clop.personality];
       ctx.fillStyle = clop.finished ? 'rgba(74, 255, 158, 0.9)' : color;
       ctx.beginPath();
@@ -738,7 +756,7 @@ export class ClopPersonalityTester {
     offsetY: number,
     color: string
   ): void {
-    const center = gridToScreen(coord.x, coord.y, offsetX, offsetY);
+    const center = gridToScreen(coord.x, coord.y, offsetX, offsetY, this.getElevationAt(coord));
     ctx.fillStyle = color;
     ctx.beginPath();
     ctx.moveTo(center.x, center.y);
@@ -756,7 +774,7 @@ export class ClopPersonalityTester {
     offsetX: number,
     offsetY: number
   ): void {
-    const center = gridToScreen(coord.x, coord.y, offsetX, offsetY);
+    const center = gridToScreen(coord.x, coord.y, offsetX, offsetY, this.getElevationAt(coord));
     const cx = center.x;
     const cy = center.y + ISO_TILE_HEIGHT / 2;
 
@@ -864,9 +882,9 @@ export class ClopPersonalityTester {
 
   private getOverlayColor(behavior: TileBehavior): string {
     if (behavior.type === 'door' && behavior.open) {
-      return 'rgba(138, 255, 200, 0.3)';
+      return OPEN_DOOR_OVERLAY_COLOR;
     }
-    return OVERLAY_COLORS[behavior.type] ?? OVERLAY_COLORS.floor;
+    return BEHAVIOR_OVERLAY_COLORS[behavior.type] ?? BEHAVIOR_OVERLAY_COLORS.floor;
   }
 
   private drawRoundedRect(
@@ -14,19 +14,70 @@ export const ISO_TILE_HEIGHT = 16;
 // Grid configuration
 export const GRID_WIDTH = 8;
 export const GRID_HEIGHT = 8;
+export const MAX_GRID_SIZE = 256;
+
+// Level file format version written by Level.toData
+// Older files are upgraded step by step by the migrations in level/migrations.ts
+export const CURRENT_LEVEL_VERSION = 2;
 
 // Spritesheet configuration
 export const SPRITESHEET_PATH = 'isometric tileset/spritesheet.png';
 export const TOTAL_TILES = 115;
+export const SPRITESHEET_COLUMNS = 11;
 
 // Default layer configuration
+// heightOffset lifts a layer's tiles on screen (in pixels) so props sit on the terrain
 export const DEFAULT_LAYERS = [
-  { id: 'terrain', name: 'Terrain', zIndex: 0 },
-  { id: 'props', name: 'Props', zIndex: 10 },
-  { id: 'decorations', name: 'Decorations', zIndex: 20 },
+  { id: 'terrain', name: 'Terrain', zIndex: 0, heightOffset: 0 },
+  { id: 'props', name: 'Props', zIndex: 10, heightOffset: ISO_TILE_HEIGHT / 2 },
+  { id: 'decorations', name: 'Decorations', zIndex: 20, heightOffset: ISO_TILE_HEIGHT / 2 },
 ] as const;
 
+// Z-index spacing between layers when they are reordered
+export const LAYER_Z_STEP = 10;
+
+// Cell elevation: pixels per unit, highest allowed value and the largest
+// height difference that can be walked without a ramp
+export const ELEVATION_STEP = ISO_TILE_HEIGHT / 2;
+export const MAX_ELEVATION = 16;
+export const MAX_CLIMB_HEIGHT = 1;
+export const DEFAULT_CLIFF_TILE_ID = 0;
+
+// Largest allowed layer height offset (pixels, either direction)
+export const MAX_LAYER_HEIGHT_OFFSET = 256;
+
+// Tile behavior defaults (shared with the movement tester)
+export const DEFAULT_CONVEYOR_DIRECTION = 'east';
+export const DEFAULT_HAZARD_DAMAGE = 1;
+
+// Scatter tool defaults and the largest radius (cells)
+export const DEFAULT_SCATTER_DENSITY = 0.15;
+export const DEFAULT_SCATTER_RADIUS = 3;
+export const MAX_SCATTER_RADIUS = 16;
+
+// Largest brush and eraser footprint (cells across)
+export const MAX_BRUSH_SIZE = 9;
+
+// Palette favorites (one per number key 1–9) and recently used tiles kept
+export const MAX_FAVORITE_TILES = 9;
+export const MAX_RECENT_TILES = 12;
+
 // Editor colors
 export const GRID_COLOR = 'rgba(255, 255, 255, 0.1)';
 export const SELECTION_COLOR = 'rgba(74, 255, 158, 0.5)';
 export const HOVER_COLOR = 'rgba(74, 158, 255, 0.3)';
+
+// Behavior overlay colors, keyed by tile behavior type
+export const BEHAVIOR_OVERLAY_COLORS = {
+  floor: 'rgba(74, 158, 255, 0.08)',
+  blocker: 'rgba(255, 74, 74, 0.45)',
+  slow: 'rgba(255, 199, 94, 0.35)',
+  hole: 'rgba(20, 20, 20, 0.6)',
+  conveyor: 'rgba(74, 158, 255, 0.22)',
+  'hazard-burn': 'rgba(255, 132, 74, 0.38)',
+  door: 'rgba(156, 132, 255, 0.4)',
+  exit: 'rgba(74, 255, 198, 0.35)',
+  spawn: 'rgba(138, 255, 74, 0.32)',
+  ramp: 'rgba(214, 178, 112, 0.35)',
+} as const;
+export const OPEN_DOOR_OVERLAY_COLOR = 'rgba(138, 255, 200, 0.3)';
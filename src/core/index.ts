@@ -5,3 +5,5 @@
 export * from './types';
 export * from './constants';
 export * from './isometric';
+export * from './shapes';
+export * from './random';
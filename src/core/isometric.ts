@@ -10,17 +10,29 @@
  * - Grid Y increases to the left and down on screen
  */
 
-import { GridCoord, ScreenCoord, GridBounds } from './types';
-import { ISO_TILE_WIDTH, ISO_TILE_HEIGHT, TILE_WIDTH, TILE_HEIGHT } from './constants';
+import { GridCoord, ScreenCoord, GridBounds, Viewport } from './types';
+import {
+  ISO_TILE_WIDTH,
+  ISO_TILE_HEIGHT,
+  TILE_WIDTH,
+  TILE_HEIGHT,
+  ELEVATION_STEP,
+} from './constants';
 
 /**
  * Convert grid coordinates to screen (pixel) coordinates
- * Returns the top-center of the isometric tile diamond
+ * Returns the top-center of the isometric tile diamond, raised by the cell elevation
  */
-export function gridToScreen(gridX: number, gridY: number, offsetX = 0, offsetY = 0): ScreenCoord {
+export function gridToScreen(
+  gridX: number,
+  gridY: number,
+  offsetX = 0,
+  offsetY = 0,
+  elevation = 0
+): ScreenCoord {
   return {
     x: (gridX - gridY) * (ISO_TILE_WIDTH / 2) + offsetX,
-    y: (gridX + gridY) * (ISO_TILE_HEIGHT / 2) + offsetY,
+    y: (gridX + gridY) * (ISO_TILE_HEIGHT / 2) + offsetY - elevation * ELEVATION_STEP,
   };
 }
 
@@ -52,11 +64,18 @@ export function isInBounds(coord: GridCoord, width: number, height: number): boo
  * Calculate the depth key for isometric rendering
  * Higher values should be rendered later (on top)
  */
-export function getDepthKey(gridX: number, gridY: number, layerZ: number = 0): number {
-  // Primary sort: layer z-index (higher layers render on top)
-  // Secondary sort: diagonal depth within a layer (x + y)
-  const layerDepthScale = 10000;
-  return layerZ * layerDepthScale + (gridX + gridY);
+export function getDepthKey(
+  gridX: number,
+  gridY: number,
+  layerZ: number = 0,
+  elevation: number = 0
+): number {
+  // Primary sort: diagonal depth (x + y), so nearer cells cover farther ones
+  // Secondary sort: elevation within a cell (cliff faces below the raised top)
+  // Tertiary sort: layer z-index within an elevation (higher layers render on top)
+  const diagonalDepthScale = 100000000;
+  const elevationDepthScale = 100000;
+  return (gridX + gridY) * diagonalDepthScale + elevation * elevationDepthScale + layerZ;
 }
 
 /**
@@ -68,9 +87,10 @@ export function getTileRenderPosition(
   gridX: number,
   gridY: number,
   offsetX: number,
-  offsetY: number
+  offsetY: number,
+  elevation = 0
 ): ScreenCoord {
-  const center = gridToScreen(gridX, gridY, offsetX, offsetY);
+  const center = gridToScreen(gridX, gridY, offsetX, offsetY, elevation);
   const spriteTopOffset = TILE_HEIGHT - ISO_TILE_HEIGHT;
   return {
     x: center.x - TILE_WIDTH / 2,
@@ -129,6 +149,17 @@ export function calculateCenterOffset(
   };
 }
 
+/**
+ * Calculate the screen-space size of a grid (unscaled pixels)
+ * Includes the sprite overhang above the top row of diamonds
+ */
+export function getGridScreenSize(gridWidth: number, gridHeight: number): Viewport {
+  return {
+    width: (gridWidth + gridHeight) * (ISO_TILE_WIDTH / 2),
+    height: (gridWidth + gridHeight) * (ISO_TILE_HEIGHT / 2) + (TILE_HEIGHT - ISO_TILE_HEIGHT),
+  };
+}
+
 /**
  * Iterate over grid coordinates in render order (back to front)
  * Callback receives coordinates sorted by depth
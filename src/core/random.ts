@@ -0,0 +1,91 @@
+/**
+ * Seedable random numbers for reproducible painting
+ */
+
+import { GridCoord } from './types';
+
+/**
+ * SeededRandom is a small deterministic generator (mulberry32)
+ *
+ * The same seed always yields the same sequence, so random placements can be
+ * reproduced by reusing a seed.
+ */
+export class SeededRandom {
+  private state: number;
+
+  constructor(readonly seed: number) {
+    this.state = seed >>> 0;
+  }
+
+  /**
+   * Generator for one cell, independent of the order cells are visited in
+   * (repainting a cell with the same seed gives the same result)
+   */
+  static forCell(seed: number, coord: GridCoord): SeededRandom {
+    let hash = seed >>> 0;
+    hash = Math.imul(hash ^ (coord.x + 0x9e3779b9), 0x85ebca6b);
+    hash = Math.imul(hash ^ (hash >>> 13) ^ (coord.y + 0x7f4a7c15), 0xc2b2ae35);
+    return new SeededRandom((hash ^ (hash >>> 16)) >>> 0);
+  }
+
+  /**
+   * Next number in [0, 1)
+   */
+  next(): number {
+    this.state = (this.state + 0x6d2b79f5) >>> 0;
+    let t = this.state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 0x100000000;
+  }
+
+  /**
+   * Next integer in [0, max)
+   */
+  nextInt(max: number): number {
+    return Math.floor(this.next() * max);
+  }
+
+  /**
+   * True with the given probability (0–1)
+   */
+  chance(probability: number): boolean {
+    return this.next() < probability;
+  }
+
+  /**
+   * Pick an entry in proportion to its weight
+   * Entries with no positive weight are never picked; returns null if none can be.
+   */
+  pickWeighted<T extends { readonly weight: number }>(entries: readonly T[]): T | null {
+    const total = entries.reduce((sum, entry) => sum + Math.max(0, entry.weight), 0);
+    if (total <= 0) return null;
+
+    let roll = this.next() * total;
+    for (const entry of entries) {
+      if (entry.weight <= 0) continue;
+      roll -= entry.weight;
+      if (roll < 0) return entry;
+    }
+    return entries.filter((entry) => entry.weight > 0).pop() ?? null;
+  }
+}
+
+/**
+ * Create a fresh 32-bit seed
+ */
+export function createRandomSeed(): number {
+  return Math.floor(Math.random() * 0x100000000) >>> 0;
+}
+
+/**
+ * Create a unique id for a level, stamp or other saved object
+ * `crypto.randomUUID` only exists on secure origins (https or localhost), so
+ * elsewhere the id falls back to the time plus random digits.
+ */
+export function createId(prefix: string): string {
+  if (typeof crypto !== 'undefined' && typeof crypto.randomUUID === 'function') {
+    return crypto.randomUUID();
+  }
+  return `${prefix}-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 10)}`;
+}
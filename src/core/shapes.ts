@@ -0,0 +1,178 @@
+/**
+ * Grid shape rasterization utilities
+ *
+ * All shapes are computed in grid space and return the list of
+ * covered cells. Callers are responsible for bounds checking.
+ */
+
+import { GridCoord, GridBounds, BrushShape } from './types';
+
+/**
+ * Get the normalized bounds spanned by two corner coordinates
+ */
+export function getBoundsFromCorners(a: GridCoord, b: GridCoord): GridBounds {
+  return {
+    minX: Math.min(a.x, b.x),
+    minY: Math.min(a.y, b.y),
+    maxX: Math.max(a.x, b.x),
+    maxY: Math.max(a.y, b.y),
+  };
+}
+
+/**
+ * Rasterize a line between two cells using Bresenham's algorithm
+ */
+export function getLineCoords(start: GridCoord, end: GridCoord): GridCoord[] {
+  const coords: GridCoord[] = [];
+
+  const dx = Math.abs(end.x - start.x);
+  const dy = -Math.abs(end.y - start.y);
+  const stepX = start.x < end.x ? 1 : -1;
+  const stepY = start.y < end.y ? 1 : -1;
+
+  let x = start.x;
+  let y = start.y;
+  let error = dx + dy;
+
+  for (;;) {
+    coords.push({ x, y });
+    if (x === end.x && y === end.y) break;
+
+    const doubled = 2 * error;
+    if (doubled >= dy) {
+      error += dy;
+      x += stepX;
+    }
+    if (doubled <= dx) {
+      error += dx;
+      y += stepY;
+    }
+  }
+
+  return coords;
+}
+
+/**
+ * Get the cells covered by a brush footprint of size × size cells
+ * Even sizes extend one cell further right and down than left and up.
+ */
+export function getBrushCoords(center: GridCoord, size: number, shape: BrushShape): GridCoord[] {
+  const start = -Math.floor((size - 1) / 2);
+  const middle = (size - 1) / 2;
+  const coords: GridCoord[] = [];
+
+  for (let dy = 0; dy < size; dy++) {
+    for (let dx = 0; dx < size; dx++) {
+      if (shape === 'diamond' && Math.abs(dx - middle) + Math.abs(dy - middle) > size / 2) {
+        continue;
+      }
+      coords.push({ x: center.x + start + dx, y: center.y + start + dy });
+    }
+  }
+
+  return coords;
+}
+
+/**
+ * Get the cells a brush footprint covers while moving from one cell to another
+ * The footprint is stamped on every cell of the line between them, so fast
+ * drags leave no gaps. Each cell is listed once.
+ */
+export function getBrushStrokeCoords(
+  from: GridCoord,
+  to: GridCoord,
+  size: number,
+  shape: BrushShape
+): GridCoord[] {
+  const seen = new Set<string>();
+  const coords: GridCoord[] = [];
+
+  for (const center of getLineCoords(from, to)) {
+    for (const coord of getBrushCoords(center, size, shape)) {
+      const key = `${coord.x},${coord.y}`;
+      if (seen.has(key)) continue;
+      seen.add(key);
+      coords.push(coord);
+    }
+  }
+
+  return coords;
+}
+
+/**
+ * Rasterize a rectangle spanned by two corner cells
+ */
+export function getRectangleCoords(a: GridCoord, b: GridCoord, filled: boolean): GridCoord[] {
+  const { minX, minY, maxX, maxY } = getBoundsFromCorners(a, b);
+  const coords: GridCoord[] = [];
+
+  for (let y = minY; y <= maxY; y++) {
+    for (let x = minX; x <= maxX; x++) {
+      const isEdge = x === minX || x === maxX || y === minY || y === maxY;
+      if (filled || isEdge) {
+        coords.push({ x, y });
+      }
+    }
+  }
+
+  return coords;
+}
+
+/**
+ * Rasterize an ellipse inscribed in the rectangle spanned by two corner cells
+ * A cell is inside when its center lies within the ellipse
+ */
+export function getEllipseCoords(a: GridCoord, b: GridCoord, filled: boolean): GridCoord[] {
+  const { minX, minY, maxX, maxY } = getBoundsFromCorners(a, b);
+  const centerX = (minX + maxX) / 2;
+  const centerY = (minY + maxY) / 2;
+  const radiusX = (maxX - minX + 1) / 2;
+  const radiusY = (maxY - minY + 1) / 2;
+
+  const isInside = (x: number, y: number): boolean => {
+    const nx = (x - centerX) / radiusX;
+    const ny = (y - centerY) / radiusY;
+    return nx * nx + ny * ny <= 1;
+  };
+
+  const coords: GridCoord[] = [];
+
+  for (let y = minY; y <= maxY; y++) {
+    for (let x = minX; x <= maxX; x++) {
+      if (!isInside(x, y)) continue;
+
+      // Outline cells have at least one 4-way neighbour outside the ellipse
+      const isEdge =
+        !isInside(x + 1, y) ||
+        !isInside(x - 1, y) ||
+        !isInside(x, y + 1) ||
+        !isInside(x, y - 1);
+
+      if (filled || isEdge) {
+        coords.push({ x, y });
+      }
+    }
+  }
+
+  return coords;
+}
+
+/**
+ * Rasterize a filled circle around a cell
+ * A cell is inside when its center lies within half a cell of the radius;
+ * radius 0 covers only the center cell.
+ */
+export function getCircleCoords(center: GridCoord, radius: number): GridCoord[] {
+  const limit = (radius + 0.5) * (radius + 0.5);
+  const coords: GridCoord[] = [];
+
+  for (let dy = -radius; dy <= radius; dy++) {
+    for (let dx = -radius; dx <= radius; dx++) {
+      if (dx * dx + dy * dy <= limit) {
+        coords.push({ x: center.x + dx, y: center.y + dy });
+      }
+    }
+  }
+
+  return coords;
+}
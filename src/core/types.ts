@@ -2,6 +2,8 @@
  * Core type definitions for the isometric engine
  */
 
+import { DEFAULT_CONVEYOR_DIRECTION, DEFAULT_HAZARD_DAMAGE } from './constants';
+
 // ============================================================================
 // Coordinates
 // ============================================================================
@@ -33,14 +35,21 @@ export interface GridBounds {
 /** Tile ID (index into the tileset, 0-114) */
 export type TileId = number;
 
-/** Data for a placed tile */
-export interface TileData {
-  readonly tileId: TileId;
-  readonly rotation?: 0 | 90 | 180 | 270;
+/** Tile rotation in degrees (clockwise) */
+export type TileRotation = 0 | 90 | 180 | 270;
+
+/** Orientation applied when drawing a tile */
+export interface TileOrientation {
+  readonly rotation?: TileRotation;
   readonly flipX?: boolean;
   readonly flipY?: boolean;
 }
 
+/** Data for a placed tile */
+export interface TileData extends TileOrientation {
+  readonly tileId: TileId;
+}
+
 /** Cardinal direction helper */
 export type CardinalDirection = 'north' | 'east' | 'south' | 'west';
 
@@ -54,7 +63,8 @@ export type TileBehaviorType =
   | 'hazard-burn'
   | 'door'
   | 'exit'
-  | 'spawn';
+  | 'spawn'
+  | 'ramp';
 
 /** Tile behavior metadata stored alongside the map */
 export interface TileBehavior {
@@ -70,6 +80,12 @@ export interface TileBehaviorPlacement extends TileBehavior {
   readonly position: GridCoord;
 }
 
+/** Serialized cell elevation (cells without an entry are at height 0) */
+export interface ElevationPlacement {
+  readonly position: GridCoord;
+  readonly height: number;
+}
+
 /** UV coordinates for extracting a tile from the spritesheet */
 export interface TileUV {
   readonly x: number;
@@ -88,20 +104,26 @@ export type LayerType = 'terrain' | 'props' | 'decorations' | 'custom';
 /** Layer configuration */
 export interface LayerConfig {
   readonly id: string;
-  readonly name: string;
+  name: string;
   readonly type?: LayerType;
-  readonly zIndex: number;
+  zIndex: number;
   visible: boolean;
   locked: boolean;
   opacity: number;
+  /** Vertical screen offset in pixels (positive raises the layer) */
+  heightOffset: number;
 }
 
 /** Serialized layer data (for JSON) */
 export interface LayerData {
   readonly id: string;
   readonly name: string;
+  readonly type?: LayerType;
   readonly zIndex: number;
   readonly visible: boolean;
+  readonly locked?: boolean;
+  readonly opacity?: number;
+  readonly heightOffset?: number;
   readonly tiles: TilePlacement[];
 }
 
@@ -109,7 +131,9 @@ export interface LayerData {
 export interface TilePlacement {
   readonly tileId: TileId;
   readonly position: GridCoord;
-  readonly rotation?: 0 | 90 | 180 | 270;
+  readonly rotation?: TileRotation;
+  readonly flipX?: boolean;
+  readonly flipY?: boolean;
 }
 
 // ============================================================================
@@ -141,6 +165,8 @@ export interface LevelData {
   readonly grid: GridConfig;
   readonly layers: LayerData[];
   readonly tileBehaviors?: TileBehaviorPlacement[];
+  readonly elevations?: ElevationPlacement[];
+  readonly cliffTileId?: TileId;
 }
 
 // ============================================================================
@@ -165,13 +191,115 @@ export interface Viewport {
 // ============================================================================
 
 /** Available editor tools */
-export type ToolType = 'brush' | 'eraser' | 'select' | 'pan';
+export type ToolType =
+  | 'brush'
+  | 'eraser'
+  | 'fill'
+  | 'rectangle'
+  | 'line'
+  | 'ellipse'
+  | 'select'
+  | 'pan'
+  | 'picker'
+  | 'elevation'
+  | 'behavior'
+  | 'autotile'
+  | 'scatter'
+  | 'stamp';
+
+/** Fill mode for shape tools */
+export type ShapeFillMode = 'outline' | 'filled';
+
+/** Whether the elevation tool raises or lowers cells */
+export type ElevationMode = 'raise' | 'lower';
+
+/**
+ * Footprint of the brush and eraser: a square block of cells, or a diamond of
+ * cells within reach of the center, which reads as an upright square on screen
+ */
+export type BrushShape = 'square' | 'diamond';
+
+/** Whether the brush places the selected tile or one from the weighted set */
+export type BrushMode = 'single' | 'random';
+
+/** Entry of the random tile set, picked in proportion to its weight */
+export interface WeightedTile {
+  readonly tileId: TileId;
+  readonly weight: number;
+}
+
+/** Where the scatter tool places tiles */
+export type ScatterArea = 'radius' | 'selection';
+
+/** Scatter tool options */
+export interface ScatterOptions {
+  /** Share of the empty cells in the area that get a tile (0–1) */
+  density: number;
+  /** Radius in cells around the cursor (radius area) */
+  radius: number;
+  area: ScatterArea;
+  /** Give each scattered tile a random 90° rotation */
+  randomRotation: boolean;
+}
+
+/**
+ * How the stamp brush turns a stamp: mirrored first, then rotated clockwise
+ * (as seen on screen)
+ */
+export interface StampTransform {
+  readonly rotation: TileRotation;
+  /** Mirror left-right on screen (swaps the grid axes) */
+  readonly mirrored: boolean;
+}
+
+/** Whether the autotile brush paints or erases terrain */
+export type AutotileMode = 'paint' | 'erase';
+
+/** Which layers a selection operates on */
+export type SelectionScope = 'layer' | 'all';
+
+/** Tile picker (eyedropper) options */
+export interface PickerOptions {
+  /** Sample the topmost visible tile or only the active layer */
+  source: 'top' | 'active';
+  /** Make the layer the tile came from the active layer */
+  switchLayer: boolean;
+}
 
 /** Editor state */
 export interface EditorStateData {
   activeTool: ToolType;
   activeLayerId: string | null;
   selectedTileId: TileId | null;
+  /** Palette favorites; number keys 1–9 select them in order */
+  favoriteTiles: TileId[];
+  /** Recently selected tiles, most recent first */
+  recentTiles: TileId[];
+  tileOrientation: TileOrientation;
+  shapeFillMode: ShapeFillMode;
+  selectionScope: SelectionScope;
+  pickerOptions: PickerOptions;
+  elevationMode: ElevationMode;
+  brushMode: BrushMode;
+  /** Brush and eraser footprint, in cells across (1–9) */
+  brushSize: number;
+  brushShape: BrushShape;
+  /** Tiles the random brush and the scatter tool pick from */
+  weightedTiles: WeightedTile[];
+  /** Seed for random placement; the same seed gives the same tiles per cell */
+  randomSeed: number;
+  scatterOptions: ScatterOptions;
+  /** Terrain rule set used by the autotile brush */
+  autotileRuleSetId: string;
+  autotileMode: AutotileMode;
+  /** Stamp placed by the stamp brush */
+  activeStampId: string | null;
+  stampTransform: StampTransform;
+  /** Behavior painted by the behavior tool (floor clears) */
+  behaviorBrush: TileBehavior;
+  /** Cell whose behavior the properties panel edits */
+  inspectedCoord: GridCoord | null;
+  showBehaviors: boolean;
   hoveredCoord: GridCoord | null;
   isDirty: boolean;
 }
@@ -203,6 +331,14 @@ export interface Command {
   readonly description: string;
   execute(): void;
   undo(): void;
+  /** Plain-object form used to persist history (see CommandRegistry) */
+  toJSON?(): SerializedCommand;
+}
+
+/** JSON form of a command, tagged with its registered type */
+export interface SerializedCommand {
+  type: string;
+  data: unknown;
 }
 
 // ============================================================================
@@ -222,6 +358,67 @@ export function toPositionKey(coord: GridCoord): PositionKey {
   return `${coord.x},${coord.y}`;
 }
 
+/** Check if two tiles have the same ID and orientation */
+export function isSameTile(a: TileData | null, b: TileData | null): boolean {
+  if (!a || !b) return a === b;
+  return (
+    a.tileId === b.tileId &&
+    (a.rotation ?? 0) === (b.rotation ?? 0) &&
+    (a.flipX ?? false) === (b.flipX ?? false) &&
+    (a.flipY ?? false) === (b.flipY ?? false)
+  );
+}
+
+/** Create tile data, omitting default orientation fields */
+export function createTileData(tileId: TileId, orientation: TileOrientation = {}): TileData {
+  return {
+    tileId,
+    ...(orientation.rotation ? { rotation: orientation.rotation } : {}),
+    ...(orientation.flipX ? { flipX: true } : {}),
+    ...(orientation.flipY ? { flipY: true } : {}),
+  };
+}
+
+/**
+ * Create a behavior of the given type, keeping only the fields that type uses
+ * Returns null for floor, which is stored as no behavior
+ */
+export function createTileBehavior(
+  type: TileBehaviorType,
+  options: Omit<TileBehavior, 'type'> = {}
+): TileBehavior | null {
+  switch (type) {
+    case 'floor':
+      return null;
+    case 'conveyor':
+      return { type, direction: options.direction ?? DEFAULT_CONVEYOR_DIRECTION };
+    case 'door':
+      return {
+        type,
+        ...(options.doorId ? { doorId: options.doorId } : {}),
+        open: options.open ?? false,
+      };
+    case 'hazard-burn':
+      return { type, damage: options.damage ?? DEFAULT_HAZARD_DAMAGE };
+    default:
+      return { type };
+  }
+}
+
+/** Check if two behaviors are equal (null and floor both mean no behavior) */
+export function isSameBehavior(a: TileBehavior | null, b: TileBehavior | null): boolean {
+  const left = a && a.type !== 'floor' ? a : null;
+  const right = b && b.type !== 'floor' ? b : null;
+  if (!left || !right) return left === right;
+  return (
+    left.type === right.type &&
+    left.direction === right.direction &&
+    (left.doorId ?? '') === (right.doorId ?? '') &&
+    (left.open ?? false) === (right.open ?? false) &&
+    left.damage === right.damage
+  );
+}
+
 /** Parse PositionKey back to GridCoord */
 export function fromPositionKey(key: PositionKey): GridCoord {
   const [x, y] = key.split(',').map(Number);
@@ -0,0 +1,232 @@
+/**
+ * Clipboard data and region helpers for selection editing
+ */
+
+import {
+  GridBounds,
+  GridCoord,
+  TileData,
+  TileBehavior,
+  SelectionScope,
+  Command,
+} from '../core/types';
+import { Level } from '../level/Level';
+import {
+  PlaceTileCommand,
+  RemoveTileCommand,
+  SetTileBehaviorCommand,
+} from './history/Command';
+
+/** A tile stored relative to the top-left of the copied region */
+export interface ClipboardTile {
+  readonly offset: GridCoord;
+  readonly tile: TileData;
+}
+
+/** Tiles copied from a single layer */
+export interface ClipboardLayer {
+  readonly layerId: string;
+  readonly tiles: ClipboardTile[];
+}
+
+/** A behavior stored relative to the top-left of the copied region */
+export interface ClipboardBehavior {
+  readonly offset: GridCoord;
+  readonly behavior: TileBehavior;
+}
+
+/** Contents of a copied region */
+export interface ClipboardData {
+  readonly width: number;
+  readonly height: number;
+  readonly scope: SelectionScope;
+  readonly layers: ClipboardLayer[];
+  readonly behaviors: ClipboardBehavior[];
+}
+
+/**
+ * Check if a coordinate lies inside bounds
+ */
+export function isInsideBounds(bounds: GridBounds, coord: GridCoord): boolean {
+  return (
+    coord.x >= bounds.minX &&
+    coord.x <= bounds.maxX &&
+    coord.y >= bounds.minY &&
+    coord.y <= bounds.maxY
+  );
+}
+
+/**
+ * Get every cell inside bounds
+ */
+export function getBoundsCoords(bounds: GridBounds): GridCoord[] {
+  const coords: GridCoord[] = [];
+  for (let y = bounds.minY; y <= bounds.maxY; y++) {
+    for (let x = bounds.minX; x <= bounds.maxX; x++) {
+      coords.push({ x, y });
+    }
+  }
+  return coords;
+}
+
+/**
+ * Get the layer IDs a selection scope applies to
+ */
+export function getScopeLayerIds(
+  level: Level,
+  scope: SelectionScope,
+  activeLayerId: string | null
+): string[] {
+  if (scope === 'all') {
+    return level.getLayers().map((layer) => layer.config.id);
+  }
+  return activeLayerId && level.getLayer(activeLayerId) ? [activeLayerId] : [];
+}
+
+/**
+ * Copy the tiles (and behaviors for the 'all' scope) inside bounds
+ */
+export function copyRegion(
+  level: Level,
+  bounds: GridBounds,
+  scope: SelectionScope,
+  layerIds: string[]
+): ClipboardData {
+  const coords = getBoundsCoords(bounds).filter((coord) => level.isInBounds(coord));
+  const toOffset = (coord: GridCoord): GridCoord => ({
+    x: coord.x - bounds.minX,
+    y: coord.y - bounds.minY,
+  });
+
+  const layers: ClipboardLayer[] = [];
+  for (const layerId of layerIds) {
+    const layer = level.getLayer(layerId);
+    if (!layer) continue;
+
+    const tiles: ClipboardTile[] = [];
+    for (const coord of coords) {
+      const tile = layer.getTile(coord);
+      if (tile) {
+        tiles.push({ offset: toOffset(coord), tile: { ...tile } });
+      }
+    }
+    layers.push({ layerId, tiles });
+  }
+
+  const behaviors: ClipboardBehavior[] = [];
+  if (scope === 'all') {
+    for (const coord of coords) {
+      const behavior = level.getTileBehavior(coord);
+      if (behavior) {
+        behaviors.push({ offset: toOffset(coord), behavior: { ...behavior } });
+      }
+    }
+  }
+
+  return {
+    width: bounds.maxX - bounds.minX + 1,
+    height: bounds.maxY - bounds.minY + 1,
+    scope,
+    layers,
+    behaviors,
+  };
+}
+
+/**
+ * Count the tiles and behaviors held by clipboard data
+ */
+export function getClipboardSize(data: ClipboardData): number {
+  const tileCount = data.layers.reduce((sum, layer) => sum + layer.tiles.length, 0);
+  return tileCount + data.behaviors.length;
+}
+
+/**
+ * Create commands that remove everything a clipboard copy of bounds would contain
+ * Locked layers are left untouched
+ */
+export function createClearRegionCommands(
+  level: Level,
+  bounds: GridBounds,
+  scope: SelectionScope,
+  layerIds: string[]
+): Command[] {
+  const coords = getBoundsCoords(bounds).filter((coord) => level.isInBounds(coord));
+  const commands: Command[] = [];
+
+  for (const layerId of layerIds) {
+    const layer = level.getLayer(layerId);
+    if (!layer || layer.config.locked) continue;
+
+    for (const coord of coords) {
+      const tile = layer.getTile(coord);
+      if (tile) {
+        commands.push(new RemoveTileCommand(level, layerId, coord, tile));
+      }
+    }
+  }
+
+  if (scope === 'all') {
+    for (const coord of coords) {
+      const behavior = level.getTileBehavior(coord);
+      if (behavior) {
+        commands.push(new SetTileBehaviorCommand(level, coord, null, behavior));
+      }
+    }
+  }
+
+  return commands;
+}
+
+/**
+ * Resolve which layer a clipboard layer pastes into
+ * Single-layer copies paste into the active layer so content can move between layers
+ */
+export function resolvePasteLayerId(
+  data: ClipboardData,
+  clipboardLayer: ClipboardLayer,
+  activeLayerId: string | null
+): string {
+  if (data.scope === 'layer' && activeLayerId) {
+    return activeLayerId;
+  }
+  return clipboardLayer.layerId;
+}
+
+/**
+ * Create commands that paste clipboard data with its top-left at origin
+ * Cells outside the level, missing layers and locked layers are skipped
+ */
+export function createPasteCommands(
+  level: Level,
+  data: ClipboardData,
+  origin: GridCoord,
+  activeLayerId: string | null
+): Command[] {
+  const commands: Command[] = [];
+  const toCoord = (offset: GridCoord): GridCoord => ({
+    x: origin.x + offset.x,
+    y: origin.y + offset.y,
+  });
+
+  for (const clipboardLayer of data.layers) {
+    const layerId = resolvePasteLayerId(data, clipboardLayer, activeLayerId);
+    const layer = level.getLayer(layerId);
+    if (!layer || layer.config.locked) continue;
+
+    for (const { offset, tile } of clipboardLayer.tiles) {
+      const coord = toCoord(offset);
+      if (!level.isInBounds(coord)) continue;
+      commands.push(new PlaceTileCommand(level, layerId, coord, { ...tile }, layer.getTile(coord)));
+    }
+  }
+
+  for (const { offset, behavior } of data.behaviors) {
+    const coord = toCoord(offset);
+    if (!level.isInBounds(coord)) continue;
+    commands.push(
+      new SetTileBehaviorCommand(level, coord, { ...behavior }, level.getTileBehavior(coord))
+    );
+  }
+
+  return commands;
+}
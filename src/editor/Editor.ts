@@ -6,27 +6,82 @@ import { ToolType, GridCoord, GridConfig } from '../core/types';
 import { Level } from '../level/Level';
 import { Canvas } from '../engine/Canvas';
 import { Camera } from '../engine/Camera';
-import { Renderer } from '../engine/Renderer';
+import { Renderer, LevelImageOptions } from '../engine/Renderer';
 import { TileRegistry } from '../assets/TileRegistry';
 import { EditorState } from './EditorState';
 import { HistoryManager } from './history/HistoryManager';
+import { commandRegistry } from './history/CommandRegistry';
+import { HistoryStorage, StoredHistory } from './history/HistoryStorage';
 import { Tool, ToolContext } from './tools/Tool';
 import { BrushTool } from './tools/BrushTool';
 import { EraserTool } from './tools/EraserTool';
+import { FillTool } from './tools/FillTool';
+import { RectangleTool } from './tools/RectangleTool';
+import { LineTool } from './tools/LineTool';
+import { EllipseTool } from './tools/EllipseTool';
+import { SelectTool } from './tools/SelectTool';
+import { PanTool } from './tools/PanTool';
+import { PickerTool } from './tools/PickerTool';
+import { ElevationTool } from './tools/ElevationTool';
+import { AutotileTool } from './tools/AutotileTool';
+import { ScatterTool } from './tools/ScatterTool';
+import { StampTool } from './tools/StampTool';
+import { BehaviorTool } from './tools/BehaviorTool';
+import { getGridScreenSize } from '../core/isometric';
+import { copyRegion, getScopeLayerIds } from './Clipboard';
+import { Stamp } from './Stamps';
+import { StampLibrary } from './StampLibrary';
 import {
   serializeLevel,
   deserializeLevel,
+  hashLevel,
+  canHashLevel,
   downloadLevel,
   saveToLocalStorage,
   loadFromLocalStorage,
   loadLevelFromFile as importLevelFromFile,
+  DeserializeOptions,
+  LevelValidationError,
 } from '../level/LevelSerializer';
+import { TiledFormat, downloadTiledMap, loadTiledMapFromFile } from '../level/TiledConverter';
+
+/** Screen pixels moved per keyboard pan step */
+const KEYBOARD_PAN_STEP = 64;
+
+/** Delay before history changes are written to IndexedDB (ms) */
+const HISTORY_PERSIST_DELAY = 500;
+
+/** Keys that pan the view, mapped to the direction the view moves */
+const PAN_KEYS: Record<string, { x: number; y: number }> = {
+  arrowleft: { x: -1, y: 0 },
+  arrowright: { x: 1, y: 0 },
+  arrowup: { x: 0, y: -1 },
+  arrowdown: { x: 0, y: 1 },
+  a: { x: -1, y: 0 },
+  d: { x: 1, y: 0 },
+  w: { x: 0, y: -1 },
+  s: { x: 0, y: 1 },
+};
 
 export interface EditorOptions {
   canvas: HTMLCanvasElement | string;
   container?: HTMLElement | string;
 }
 
+/**
+ * Check if a key event targets a form control or editable text, which use
+ * keys such as Space and digits themselves
+ */
+function isFormControlTarget(target: EventTarget | null): boolean {
+  return (
+    target instanceof HTMLInputElement ||
+    target instanceof HTMLTextAreaElement ||
+    target instanceof HTMLSelectElement ||
+    target instanceof HTMLButtonElement ||
+    (target instanceof HTMLElement && target.isContentEditable)
+  );
+}
+
 /**
  * Editor is the main controller that coordinates all editor systems
  */
@@ -40,6 +95,7 @@ export class Editor {
   // Editor systems
   readonly state: EditorState;
   readonly history: HistoryManager;
+  readonly stamps: StampLibrary;
 
   // Level
   private _level: Level;
@@ -48,6 +104,16 @@ export class Editor {
   private tools = new Map<ToolType, Tool>();
   private activeTool: Tool | null = null;
 
+  // Panning
+  private panAnchor: { x: number; y: number } | null = null;
+  private isSpacePanning = false;
+
+  // History persistence
+  private historyStorage = new HistoryStorage();
+  private savedLevelHash: Promise<string> | null = null;
+  private historyRestore: Promise<void> = Promise.resolve();
+  private persistTimer: number | null = null;
+
   // Render loop
   private animationFrameId: number | null = null;
   private isRunning = false;
@@ -60,7 +126,7 @@ export class Editor {
     });
 
     // Initialize camera
-    this.camera = new Camera({ zoom: 2 });
+    this.camera = new Camera({ zoom: 2, minZoom: 0.1 });
 
     // Store tile registry
     this.tileRegistry = tileRegistry;
@@ -71,9 +137,23 @@ export class Editor {
     // Initialize editor state
     this.state = new EditorState();
 
+    // Hit-testing and overlays follow the active layer's height offset
+    this.state.on('layer:changed', () => {
+      this.renderer.setActiveLayer(this.state.activeLayerId);
+    });
+
+    // Draw tile behaviors over the map while the overlay is on
+    this.renderer.setOptions({ showBehaviors: this.state.showBehaviors });
+    this.state.on('overlay:changed', () => {
+      this.renderer.setOptions({ showBehaviors: this.state.showBehaviors });
+    });
+
     // Initialize history
     this.history = new HistoryManager({ maxSize: 100 });
 
+    // Load saved stamps
+    this.stamps = new StampLibrary();
+
     // Create default level
     this._level = Level.createDefault();
 
@@ -86,10 +166,32 @@ export class Editor {
     // Register tools
     this.registerTool(new BrushTool());
     this.registerTool(new EraserTool());
+    this.registerTool(new FillTool());
+    this.registerTool(new RectangleTool());
+    this.registerTool(new LineTool());
+    this.registerTool(new EllipseTool());
+    const selectTool = new SelectTool();
+    this.registerTool(selectTool);
+    this.registerTool(new PanTool());
+    this.registerTool(new PickerTool());
+    this.registerTool(new ElevationTool());
+    this.registerTool(new BehaviorTool());
+    this.registerTool(new AutotileTool());
+    this.registerTool(new ScatterTool(selectTool));
+    this.registerTool(new StampTool(this.stamps));
 
     // Set default tool
     this.setTool('brush');
 
+    // Keep the active layer valid when layers are added or removed
+    this.history.on('change', () => {
+      this.ensureActiveLayer();
+      this.schedulePersistHistory();
+    });
+    this.history.on('save', () => {
+      this.schedulePersistHistory();
+    });
+
     // Setup event listeners
     this.setupEventListeners();
   }
@@ -130,8 +232,7 @@ export class Editor {
     this.state.setActiveTool(type);
 
     // Update cursor
-    const cursor = tool.getCursor?.() ?? 'default';
-    this.canvas.element.style.cursor = cursor;
+    this.updateCursor();
   }
 
   /**
@@ -142,9 +243,50 @@ export class Editor {
       level: this._level,
       editorState: this.state,
       history: this.history,
+      renderer: this.renderer,
     };
   }
 
+  // =========================================================================
+  // Stamps
+  // =========================================================================
+
+  /**
+   * Save the select tool's selection (every layer plus behaviors) as a stamp
+   * Returns null if nothing is selected or the selection is empty.
+   */
+  saveSelectionAsStamp(name: string): Stamp | null {
+    const selectTool = this.tools.get('select');
+    const bounds = selectTool instanceof SelectTool ? selectTool.getSelection() : null;
+    if (!bounds) return null;
+
+    const layerIds = getScopeLayerIds(this._level, 'all', this.state.activeLayerId);
+    const data = copyRegion(this._level, bounds, 'all', layerIds);
+    if (data.behaviors.length === 0 && data.layers.every((layer) => layer.tiles.length === 0)) {
+      return null;
+    }
+
+    const stamp = this.stamps.add(name, data);
+    this.state.setActiveStamp(stamp.id);
+    return stamp;
+  }
+
+  // =========================================================================
+  // View
+  // =========================================================================
+
+  /**
+   * Zoom and center the camera so the whole level fits the viewport
+   */
+  fitLevelToViewport(padding = 24): void {
+    const size = getGridScreenSize(this._level.gridWidth, this._level.gridHeight);
+    this.camera.setViewport(this.canvas.viewport);
+    this.camera.fitToSize(size.width, size.height, padding);
+
+    // The renderer centers the grid when the camera sits at the origin
+    this.camera.setPosition(0, 0);
+  }
+
   // =========================================================================
   // Level Management
   // =========================================================================
@@ -162,26 +304,65 @@ export class Editor {
 
   /**
    * Load a level from JSON string
+   * @throws LevelValidationError if the level has issues (only fatal ones with `repair`)
    */
-  loadLevel(json: string): void {
-    const level = deserializeLevel(json);
+  loadLevel(json: string, options: { repair?: boolean } = {}): void {
+    const level = deserializeLevel(json, this.getDeserializeOptions(options.repair));
     this.setLevel(level);
   }
 
   /**
    * Load a level from a file input
+   * @throws LevelValidationError if the level has issues (only fatal ones with `repair`)
    */
-  async loadLevelFromFile(file: File): Promise<void> {
-    const level = await importLevelFromFile(file);
+  async loadLevelFromFile(file: File, options: { repair?: boolean } = {}): Promise<void> {
+    const level = await importLevelFromFile(file, this.getDeserializeOptions(options.repair));
     this.setLevel(level);
   }
 
+  /**
+   * Options for loading levels, checking tile ids against the registry
+   */
+  private getDeserializeOptions(repair = false): DeserializeOptions {
+    return {
+      repair,
+      isValidTileId: (tileId) => this.tileRegistry.isValidTileId(tileId),
+    };
+  }
+
+  /**
+   * Load a level from a Tiled map file (.tmj/.tmx)
+   * Returns warnings about map content the level could not represent
+   */
+  async loadTiledMapFromFile(file: File): Promise<string[]> {
+    const { level, warnings } = await loadTiledMapFromFile(file);
+    this.setLevel(level);
+    return warnings;
+  }
+
   /**
    * Replace the current level and reset editor state
    */
   private setLevel(level: Level): void {
     this._level = level;
+    this.savedLevelHash = this.hashSavedLevel();
     this.history.clear();
+    this.historyRestore = this.savedLevelHash
+      ? this.restoreHistory(level, this.savedLevelHash)
+      : Promise.resolve();
+
+    // The selection outlives tool switches, but not the level it was made on
+    const selectTool = this.tools.get('select');
+    if (selectTool instanceof SelectTool) {
+      selectTool.deselect(this.getToolContext());
+    }
+
+    // Reset the active tool so it drops state tied to the previous level
+    if (this.activeTool) {
+      const ctx = this.getToolContext();
+      this.activeTool.onDeactivate?.(ctx);
+      this.activeTool.onActivate?.(ctx);
+    }
 
     // Set active layer
     const firstLayer = this._level.getLayers()[0];
@@ -189,17 +370,29 @@ export class Editor {
       this.state.setActiveLayer(firstLayer.config.id);
     }
 
+    this.state.setInspectedCoord(null);
     this.state.notifyLevelLoaded(level.toData());
     this.state.markClean();
   }
 
+  /**
+   * Select the top layer if the active layer no longer exists
+   */
+  private ensureActiveLayer(): void {
+    const activeLayerId = this.state.activeLayerId;
+    if (activeLayerId && this._level.getLayer(activeLayerId)) return;
+
+    const layers = this._level.getLayers();
+    const topLayer = layers[layers.length - 1];
+    this.state.setActiveLayer(topLayer?.config.id ?? null);
+  }
+
   /**
    * Save level to JSON string
    */
   saveLevel(): string {
     const json = serializeLevel(this._level, { pretty: true });
-    this.history.markSaved();
-    this.state.markClean();
+    this.markLevelSaved();
     return json;
   }
 
@@ -208,8 +401,35 @@ export class Editor {
    */
   downloadLevel(filename?: string): void {
     downloadLevel(this._level, filename);
-    this.history.markSaved();
-    this.state.markClean();
+    this.markLevelSaved();
+  }
+
+  /**
+   * Download level as a Tiled map file
+   * This is an export, so the level is not marked as saved
+   */
+  downloadTiledMap(format: TiledFormat, filename?: string): void {
+    downloadTiledMap(this._level, format, filename);
+  }
+
+  /**
+   * Download the whole level as a PNG image, independent of the camera
+   */
+  async downloadLevelImage(options: LevelImageOptions = {}, filename?: string): Promise<void> {
+    const canvas = this.renderer.renderLevelImage(this._level, options);
+    const blob = await new Promise<Blob | null>((resolve) => canvas.toBlob(resolve, 'image/png'));
+    if (!blob) {
+      throw new Error('Failed to encode PNG');
+    }
+
+    const url = URL.createObjectURL(blob);
+    const a = document.createElement('a');
+    a.href = url;
+    a.download = filename ?? `${this._level.metadata.name.replace(/[^a-z0-9]/gi, '_')}.png`;
+    document.body.appendChild(a);
+    a.click();
+    document.body.removeChild(a);
+    URL.revokeObjectURL(url);
   }
 
   /**
@@ -217,21 +437,133 @@ export class Editor {
    */
   saveToStorage(): void {
     saveToLocalStorage(this._level);
-    this.history.markSaved();
-    this.state.markClean();
+    this.markLevelSaved();
   }
 
   /**
    * Load from localStorage
    */
   loadFromStorage(): boolean {
-    const level = loadFromLocalStorage();
+    let level: Level | null;
+    try {
+      level = loadFromLocalStorage(undefined, this.getDeserializeOptions());
+    } catch (error) {
+      if (!(error instanceof LevelValidationError) || !error.report.canRepair) {
+        console.error('Failed to load the stored level:', error);
+        return false;
+      }
+      // Repair the autosave rather than discarding it; it is rewritten on the next save
+      error.report.issues.forEach((issue) => console.warn(`Stored level: ${issue.path}: ${issue.message}`));
+      level = loadFromLocalStorage(undefined, this.getDeserializeOptions(true));
+    }
     if (!level) return false;
 
     this.setLevel(level);
     return true;
   }
 
+  /**
+   * Record that the current level matches what was just written out
+   */
+  private markLevelSaved(): void {
+    this.savedLevelHash = this.hashSavedLevel();
+    this.history.markSaved();
+    this.state.markClean();
+  }
+
+  // =========================================================================
+  // History Persistence
+  // =========================================================================
+
+  /**
+   * Hash the level as saved, or null where hashing is unavailable (plain-http
+   * origins); without a hash the history is neither restored nor persisted
+   */
+  private hashSavedLevel(): Promise<string> | null {
+    return canHashLevel() ? hashLevel(this._level) : null;
+  }
+
+  /**
+   * Restore the undo history stored for a level if it was recorded against
+   * the same level JSON, otherwise discard it
+   */
+  private async restoreHistory(level: Level, levelHash: Promise<string>): Promise<void> {
+    if (!HistoryStorage.isSupported()) return;
+
+    try {
+      const [stored, hash] = await Promise.all([
+        this.historyStorage.load(level.metadata.id),
+        levelHash,
+      ]);
+      if (!stored) return;
+
+      if (stored.levelHash !== hash) {
+        await this.historyStorage.remove(level.metadata.id);
+        return;
+      }
+
+      // Skip if the level was replaced or edited while loading
+      if (this._level !== level || this.history.undoCount + this.history.redoCount > 0) return;
+
+      const commands = stored.commands.map((command) => commandRegistry.deserialize(level, command));
+      this.history.load(commands, stored.savePosition, stored.checkpoints);
+    } catch (error) {
+      console.warn('Failed to restore undo history:', error);
+    }
+  }
+
+  private schedulePersistHistory(): void {
+    if (!this.savedLevelHash || !HistoryStorage.isSupported()) return;
+
+    if (this.persistTimer !== null) {
+      window.clearTimeout(this.persistTimer);
+    }
+    this.persistTimer = window.setTimeout(() => {
+      this.persistTimer = null;
+      void this.persistHistory();
+    }, HISTORY_PERSIST_DELAY);
+  }
+
+  /**
+   * Write the current history to IndexedDB, keyed by level id
+   */
+  private async persistHistory(): Promise<void> {
+    await this.historyRestore;
+
+    const level = this._level;
+    const levelHash = this.savedLevelHash;
+    const savePosition = this.history.savePosition;
+    if (!levelHash) return;
+
+    try {
+      // Without a reachable save point the history cannot be matched to the saved level
+      if (savePosition === null) {
+        await this.historyStorage.remove(level.metadata.id);
+        return;
+      }
+
+      // Capture the history before awaiting so it matches savePosition
+      const commands = this.history
+        .getCommands()
+        .map((command) => commandRegistry.serialize(command));
+      const checkpoints = this.history
+        .getCheckpoints()
+        .map(({ name, position }) => ({ name, position }));
+
+      const record: StoredHistory = {
+        levelId: level.metadata.id,
+        levelHash: await levelHash,
+        savePosition,
+        commands,
+        checkpoints,
+        updated: new Date().toISOString(),
+      };
+      await this.historyStorage.save(record);
+    } catch (error) {
+      console.warn('Failed to persist undo history:', error);
+    }
+  }
+
   // =========================================================================
   // Input Handling
   // =========================================================================
@@ -248,12 +580,29 @@ export class Editor {
 
     // Keyboard events (on window)
     window.addEventListener('keydown', this.handleKeyDown);
+    window.addEventListener('keyup', this.handleKeyUp);
   }
 
   private handleMouseDown = (e: MouseEvent): void => {
+    // Middle mouse, or left mouse with the pan tool, drags the view
+    const isPanTool = this.state.activeTool === 'pan' || this.isSpacePanning;
+    if (e.button === 1 || (e.button === 0 && isPanTool)) {
+      e.preventDefault();
+      this.startPan(e);
+      return;
+    }
+
     if (e.button !== 0) return; // Only left click
 
     const coord = this.getGridCoord(e);
+
+    // Alt+click samples the tile under the cursor with any tool
+    if (coord && e.altKey && this.state.activeTool !== 'picker') {
+      e.preventDefault();
+      PickerTool.pick(this.getToolContext(), coord);
+      return;
+    }
+
     if (coord && this.activeTool) {
       this.activeTool.onMouseDown(this.getToolContext(), coord);
     }
@@ -280,8 +629,9 @@ export class Editor {
   private handleMouseUp = (e: MouseEvent): void => {
     if (e.button !== 0) return;
 
-    const coord = this.getGridCoord(e);
-    if (coord && this.activeTool) {
+    // Clamp so drags released just outside the grid still complete
+    const coord = this.getClampedGridCoord(e);
+    if (this.activeTool) {
       this.activeTool.onMouseUp(this.getToolContext(), coord);
     }
   };
@@ -303,9 +653,55 @@ export class Editor {
     this.camera.zoomBy(delta, centerX, centerY);
   };
 
+  private startPan(e: MouseEvent): void {
+    this.panAnchor = { x: e.clientX, y: e.clientY };
+    this.updateCursor();
+    window.addEventListener('mousemove', this.handlePanMove);
+    window.addEventListener('mouseup', this.handlePanEnd);
+  }
+
+  private handlePanMove = (e: MouseEvent): void => {
+    if (!this.panAnchor) return;
+    this.camera.pan(e.clientX - this.panAnchor.x, e.clientY - this.panAnchor.y);
+    this.panAnchor = { x: e.clientX, y: e.clientY };
+  };
+
+  private handlePanEnd = (): void => {
+    this.panAnchor = null;
+    window.removeEventListener('mousemove', this.handlePanMove);
+    window.removeEventListener('mouseup', this.handlePanEnd);
+    this.updateCursor();
+  };
+
+  private updateCursor(): void {
+    if (this.panAnchor) {
+      this.canvas.element.style.cursor = 'grabbing';
+    } else if (this.isSpacePanning) {
+      this.canvas.element.style.cursor = 'grab';
+    } else {
+      this.canvas.element.style.cursor = this.activeTool?.getCursor?.() ?? 'default';
+    }
+  }
+
   private handleKeyDown = (e: KeyboardEvent): void => {
-    // Don't handle if typing in an input
-    if (e.target instanceof HTMLInputElement || e.target instanceof HTMLTextAreaElement) {
+    // Leave keys to focused form controls and editable text
+    if (isFormControlTarget(e.target)) {
+      return;
+    }
+
+    // Hold Space to pan temporarily without leaving the current tool
+    if (e.code === 'Space') {
+      if (!this.isSpacePanning) {
+        this.isSpacePanning = true;
+        this.updateCursor();
+      }
+      e.preventDefault();
+      return;
+    }
+
+    // Let the active tool handle its own keys first
+    if (this.activeTool?.onKeyDown?.(this.getToolContext(), e)) {
+      e.preventDefault();
       return;
     }
 
@@ -333,6 +729,69 @@ export class Editor {
       return;
     }
 
+    // Fit level to viewport
+    if (e.key === 'Home') {
+      this.fitLevelToViewport();
+      e.preventDefault();
+      return;
+    }
+
+    // Keyboard panning (arrows / WASD, Shift for larger steps)
+    const panDirection = PAN_KEYS[e.key.toLowerCase()];
+    if (panDirection && !e.ctrlKey && !e.metaKey && !e.altKey) {
+      const step = KEYBOARD_PAN_STEP * (e.shiftKey ? 4 : 1);
+      // Moving the view right means moving the content left
+      this.camera.pan(-panDirection.x * step, -panDirection.y * step);
+      e.preventDefault();
+      return;
+    }
+
+    // Number keys select palette favorites
+    if (/^[1-9]$/.test(e.key) && !e.ctrlKey && !e.metaKey && !e.altKey) {
+      const tileId = this.state.favoriteTiles[Number(e.key) - 1];
+      if (tileId !== undefined) {
+        this.state.setSelectedTile(tileId);
+      }
+      return;
+    }
+
+    // Shape fill mode toggle
+    if (e.key.toLowerCase() === 'u' && e.shiftKey) {
+      this.state.setShapeFillMode(this.state.shapeFillMode === 'filled' ? 'outline' : 'filled');
+      return;
+    }
+
+    // Selection scope toggle
+    if (e.key.toLowerCase() === 'm' && e.shiftKey) {
+      this.state.setSelectionScope(this.state.selectionScope === 'all' ? 'layer' : 'all');
+      return;
+    }
+
+    // Elevation raise/lower toggle
+    if (e.key.toLowerCase() === 't' && e.shiftKey) {
+      this.state.setElevationMode(this.state.elevationMode === 'raise' ? 'lower' : 'raise');
+      return;
+    }
+
+    // Autotile paint/erase toggle
+    if (e.key.toLowerCase() === 'j' && e.shiftKey) {
+      this.state.setAutotileMode(this.state.autotileMode === 'paint' ? 'erase' : 'paint');
+      return;
+    }
+
+    // Scatter radius/selection area toggle
+    if (e.key.toLowerCase() === 'p' && e.shiftKey) {
+      const { area } = this.state.scatterOptions;
+      this.state.setScatterOptions({ area: area === 'radius' ? 'selection' : 'radius' });
+      return;
+    }
+
+    // Behavior overlay toggle
+    if (e.key.toLowerCase() === 'k' && e.shiftKey) {
+      this.state.setShowBehaviors(!this.state.showBehaviors);
+      return;
+    }
+
     // Tool shortcuts
     for (const tool of this.tools.values()) {
       if (tool.shortcut === e.key.toLowerCase()) {
@@ -342,12 +801,16 @@ export class Editor {
     }
   };
 
-  private getGridCoord(e: MouseEvent): GridCoord | null {
-    const rect = this.canvas.element.getBoundingClientRect();
-    const screenX = e.clientX - rect.left;
-    const screenY = e.clientY - rect.top;
+  private handleKeyUp = (e: KeyboardEvent): void => {
+    // Release Space to return to the current tool
+    if (e.code === 'Space' && this.isSpacePanning) {
+      this.isSpacePanning = false;
+      this.updateCursor();
+    }
+  };
 
-    const coord = this.renderer.screenToGrid(screenX, screenY, this._level);
+  private getGridCoord(e: MouseEvent): GridCoord | null {
+    const coord = this.getRawGridCoord(e);
 
     // Check bounds
     if (this._level.isInBounds(coord)) {
@@ -357,6 +820,22 @@ export class Editor {
     return null;
   }
 
+  private getClampedGridCoord(e: MouseEvent): GridCoord {
+    const coord = this.getRawGridCoord(e);
+    return {
+      x: Math.max(0, Math.min(this._level.gridWidth - 1, coord.x)),
+      y: Math.max(0, Math.min(this._level.gridHeight - 1, coord.y)),
+    };
+  }
+
+  private getRawGridCoord(e: MouseEvent): GridCoord {
+    const rect = this.canvas.element.getBoundingClientRect();
+    const screenX = e.clientX - rect.left;
+    const screenY = e.clientY - rect.top;
+
+    return this.renderer.screenToGrid(screenX, screenY, this._level);
+  }
+
   // =========================================================================
   // Render Loop
   // =========================================================================
@@ -406,6 +885,11 @@ export class Editor {
   dispose(): void {
     this.stop();
 
+    if (this.persistTimer !== null) {
+      window.clearTimeout(this.persistTimer);
+      this.persistTimer = null;
+    }
+
     // Remove event listeners
     const canvasEl = this.canvas.element;
     canvasEl.removeEventListener('mousedown', this.handleMouseDown);
@@ -414,6 +898,9 @@ export class Editor {
     canvasEl.removeEventListener('mouseleave', this.handleMouseLeave);
     canvasEl.removeEventListener('wheel', this.handleWheel);
     window.removeEventListener('keydown', this.handleKeyDown);
+    window.removeEventListener('keyup', this.handleKeyUp);
+    window.removeEventListener('mousemove', this.handlePanMove);
+    window.removeEventListener('mouseup', this.handlePanEnd);
 
     // Cleanup canvas
     this.canvas.dispose();
@@ -2,12 +2,58 @@
  * Editor state management
  */
 
-import { GridCoord, TileId, ToolType, EditorStateData, LevelData } from '../core/types';
+import {
+  GridCoord,
+  TileId,
+  TileData,
+  TileOrientation,
+  TileRotation,
+  ToolType,
+  ShapeFillMode,
+  SelectionScope,
+  PickerOptions,
+  ElevationMode,
+  BrushMode,
+  BrushShape,
+  WeightedTile,
+  ScatterOptions,
+  AutotileMode,
+  StampTransform,
+  TileBehavior,
+  EditorStateData,
+  LevelData,
+  createTileData,
+} from '../core/types';
+import { SeededRandom, createRandomSeed } from '../core/random';
+import {
+  DEFAULT_SCATTER_DENSITY,
+  DEFAULT_SCATTER_RADIUS,
+  MAX_SCATTER_RADIUS,
+  MAX_BRUSH_SIZE,
+  MAX_FAVORITE_TILES,
+  MAX_RECENT_TILES,
+} from '../core/constants';
 
 export type EditorEventType =
   | 'tool:changed'
   | 'layer:changed'
   | 'tile:selected'
+  | 'palette:changed'
+  | 'orientation:changed'
+  | 'tile:picked'
+  | 'picker:changed'
+  | 'shape:changed'
+  | 'scope:changed'
+  | 'elevation:changed'
+  | 'brush:changed'
+  | 'random:changed'
+  | 'scatter:changed'
+  | 'autotile:changed'
+  | 'stamp:changed'
+  | 'behavior:changed'
+  | 'inspect:changed'
+  | 'overlay:changed'
+  | 'selection:changed'
   | 'hover:changed'
   | 'dirty:changed'
   | 'level:loaded';
@@ -26,6 +72,31 @@ export class EditorState {
       activeTool: 'brush',
       activeLayerId: null,
       selectedTileId: null,
+      favoriteTiles: [],
+      recentTiles: [],
+      tileOrientation: {},
+      shapeFillMode: 'outline',
+      selectionScope: 'layer',
+      pickerOptions: { source: 'top', switchLayer: true },
+      elevationMode: 'raise',
+      brushMode: 'single',
+      brushSize: 1,
+      brushShape: 'square',
+      weightedTiles: [],
+      randomSeed: createRandomSeed(),
+      scatterOptions: {
+        density: DEFAULT_SCATTER_DENSITY,
+        radius: DEFAULT_SCATTER_RADIUS,
+        area: 'radius',
+        randomRotation: false,
+      },
+      autotileRuleSetId: 'shallow-water',
+      autotileMode: 'paint',
+      activeStampId: null,
+      stampTransform: { rotation: 0, mirrored: false },
+      behaviorBrush: { type: 'blocker' },
+      inspectedCoord: null,
+      showBehaviors: true,
       hoveredCoord: null,
       isDirty: false,
     };
@@ -47,6 +118,108 @@ export class EditorState {
     return this.state.selectedTileId;
   }
 
+  get favoriteTiles(): readonly TileId[] {
+    return this.state.favoriteTiles;
+  }
+
+  get recentTiles(): readonly TileId[] {
+    return this.state.recentTiles;
+  }
+
+  get tileOrientation(): TileOrientation {
+    return this.state.tileOrientation;
+  }
+
+  /**
+   * Get the tile that placement tools should place (selected tile with orientation)
+   * In random brush mode, a cell gets a tile from the weighted set instead.
+   */
+  getPlacementTile(coord?: GridCoord): TileData | null {
+    if (coord && this.state.brushMode === 'random') {
+      const picked = this.pickWeightedTile(coord);
+      if (picked !== null) return createTileData(picked, this.state.tileOrientation);
+    }
+    if (this.state.selectedTileId === null) return null;
+    return createTileData(this.state.selectedTileId, this.state.tileOrientation);
+  }
+
+  /**
+   * Pick a tile from the weighted set for a cell (null if the set is empty)
+   * The pick depends only on the seed and the cell, so it can be reproduced.
+   */
+  pickWeightedTile(coord: GridCoord, random?: SeededRandom): TileId | null {
+    const rng = random ?? SeededRandom.forCell(this.state.randomSeed, coord);
+    return rng.pickWeighted(this.state.weightedTiles)?.tileId ?? null;
+  }
+
+  get shapeFillMode(): ShapeFillMode {
+    return this.state.shapeFillMode;
+  }
+
+  get selectionScope(): SelectionScope {
+    return this.state.selectionScope;
+  }
+
+  get pickerOptions(): PickerOptions {
+    return this.state.pickerOptions;
+  }
+
+  get elevationMode(): ElevationMode {
+    return this.state.elevationMode;
+  }
+
+  get brushMode(): BrushMode {
+    return this.state.brushMode;
+  }
+
+  get brushSize(): number {
+    return this.state.brushSize;
+  }
+
+  get brushShape(): BrushShape {
+    return this.state.brushShape;
+  }
+
+  get weightedTiles(): readonly WeightedTile[] {
+    return this.state.weightedTiles;
+  }
+
+  get randomSeed(): number {
+    return this.state.randomSeed;
+  }
+
+  get scatterOptions(): ScatterOptions {
+    return this.state.scatterOptions;
+  }
+
+  get autotileRuleSetId(): string {
+    return this.state.autotileRuleSetId;
+  }
+
+  get autotileMode(): AutotileMode {
+    return this.state.autotileMode;
+  }
+
+  get activeStampId(): string | null {
+    return this.state.activeStampId;
+  }
+
+  get stampTransform(): StampTransform {
+    return this.state.stampTransform;
+  }
+
+  get behaviorBrush(): TileBehavior {
+    return this.state.behaviorBrush;
+  }
+
+  get inspectedCoord(): GridCoord | null {
+    return this.state.inspectedCoord;
+  }
+
+  get showBehaviors(): boolean {
+    return this.state.showBehaviors;
+  }
+
   get hoveredCoord(): GridCoord | null {
     return this.state.hoveredCoord;
   }
@@ -73,11 +246,271 @@ export class EditorState {
     }
   }
 
+  /**
+   * Set the selected tile and move it to the front of the recent tiles
+   */
   setSelectedTile(tileId: TileId | null): void {
     if (this.state.selectedTileId !== tileId) {
       this.state.selectedTileId = tileId;
       this.emit('tile:selected', { tileId });
     }
+    if (tileId !== null && this.state.recentTiles[0] !== tileId) {
+      this.setRecentTiles([tileId, ...this.state.recentTiles]);
+    }
+  }
+
+  /**
+   * Replace the palette favorites (duplicates dropped, at most nine kept)
+   */
+  setFavoriteTiles(tileIds: readonly TileId[]): void {
+    const next = [...new Set(tileIds)].slice(0, MAX_FAVORITE_TILES);
+    const current = this.state.favoriteTiles;
+    if (next.length !== current.length || next.some((id, i) => id !== current[i])) {
+      this.state.favoriteTiles = next;
+      this.emit('palette:changed', { favorites: next, recent: this.state.recentTiles });
+    }
+  }
+
+  /**
+   * Add a tile to the favorites, or remove it if it is one already
+   * Returns false if the favorites are full.
+   */
+  toggleFavoriteTile(tileId: TileId): boolean {
+    const favorites = this.state.favoriteTiles;
+    if (favorites.includes(tileId)) {
+      this.setFavoriteTiles(favorites.filter((id) => id !== tileId));
+      return true;
+    }
+    if (favorites.length >= MAX_FAVORITE_TILES) return false;
+    this.setFavoriteTiles([...favorites, tileId]);
+    return true;
+  }
+
+  /**
+   * Replace the recent tiles, most recent first (duplicates dropped)
+   */
+  setRecentTiles(tileIds: readonly TileId[]): void {
+    const next = [...new Set(tileIds)].slice(0, MAX_RECENT_TILES);
+    const current = this.state.recentTiles;
+    if (next.length !== current.length || next.some((id, i) => id !== current[i])) {
+      this.state.recentTiles = next;
+      this.emit('palette:changed', { favorites: this.state.favoriteTiles, recent: next });
+    }
+  }
+
+  setTileOrientation(orientation: TileOrientation): void {
+    const current = this.state.tileOrientation;
+    const next = {
+      rotation: orientation.rotation ?? 0,
+      flipX: orientation.flipX ?? false,
+      flipY: orientation.flipY ?? false,
+    };
+    const changed =
+      (current.rotation ?? 0) !== next.rotation ||
+      (current.flipX ?? false) !== next.flipX ||
+      (current.flipY ?? false) !== next.flipY;
+
+    if (changed) {
+      this.state.tileOrientation = next;
+      this.emit('orientation:changed', { orientation: next });
+    }
+  }
+
+  /**
+   * Rotate the placement orientation by 90 degree steps
+   */
+  rotateTileOrientation(direction: 1 | -1 = 1): void {
+    const current = this.state.tileOrientation.rotation ?? 0;
+    const rotation = ((current + direction * 90 + 360) % 360) as TileRotation;
+    this.setTileOrientation({ ...this.state.tileOrientation, rotation });
+  }
+
+  /**
+   * Toggle horizontal or vertical mirroring of the placement orientation
+   */
+  flipTileOrientation(axis: 'x' | 'y'): void {
+    const orientation = this.state.tileOrientation;
+    this.setTileOrientation(
+      axis === 'x'
+        ? { ...orientation, flipX: !orientation.flipX }
+        : { ...orientation, flipY: !orientation.flipY }
+    );
+  }
+
+  setShapeFillMode(mode: ShapeFillMode): void {
+    if (this.state.shapeFillMode !== mode) {
+      this.state.shapeFillMode = mode;
+      this.emit('shape:changed', { mode });
+    }
+  }
+
+  setSelectionScope(scope: SelectionScope): void {
+    if (this.state.selectionScope !== scope) {
+      this.state.selectionScope = scope;
+      this.emit('scope:changed', { scope });
+    }
+  }
+
+  setPickerOptions(options: Partial<PickerOptions>): void {
+    const next = { ...this.state.pickerOptions, ...options };
+    const current = this.state.pickerOptions;
+    if (next.source !== current.source || next.switchLayer !== current.switchLayer) {
+      this.state.pickerOptions = next;
+      this.emit('picker:changed', { options: next });
+    }
+  }
+
+  setElevationMode(mode: ElevationMode): void {
+    if (this.state.elevationMode !== mode) {
+      this.state.elevationMode = mode;
+      this.emit('elevation:changed', { mode });
+    }
+  }
+
+  /**
+   * Set the brush and eraser footprint size (rounded and clamped to 1–9)
+   */
+  setBrushSize(size: number): void {
+    const next = Math.min(MAX_BRUSH_SIZE, Math.max(1, Math.round(size)));
+    if (Number.isFinite(next) && this.state.brushSize !== next) {
+      this.state.brushSize = next;
+      this.emit('brush:changed', { size: next, shape: this.state.brushShape });
+    }
+  }
+
+  setBrushShape(shape: BrushShape): void {
+    if (this.state.brushShape !== shape) {
+      this.state.brushShape = shape;
+      this.emit('brush:changed', { size: this.state.brushSize, shape });
+    }
+  }
+
+  setBrushMode(mode: BrushMode): void {
+    if (this.state.brushMode !== mode) {
+      this.state.brushMode = mode;
+      this.emit('random:changed', { brushMode: mode });
+    }
+  }
+
+  /**
+   * Replace the weighted tile set (repeated tile ids are merged, weights added)
+   */
+  setWeightedTiles(tiles: readonly WeightedTile[]): void {
+    const weights = new Map<TileId, number>();
+    for (const { tileId, weight } of tiles) {
+      weights.set(tileId, (weights.get(tileId) ?? 0) + Math.max(0, weight));
+    }
+    this.state.weightedTiles = [...weights].map(([tileId, weight]) => ({ tileId, weight }));
+    this.emit('random:changed', { weightedTiles: this.state.weightedTiles });
+  }
+
+  setRandomSeed(seed: number): void {
+    const next = seed >>> 0;
+    if (this.state.randomSeed !== next) {
+      this.state.randomSeed = next;
+      this.emit('random:changed', { randomSeed: next });
+    }
+  }
+
+  setScatterOptions(options: Partial<ScatterOptions>): void {
+    const current = this.state.scatterOptions;
+    const next = { ...current, ...options };
+    next.density = Math.min(1, Math.max(0, next.density));
+    next.radius = Math.min(MAX_SCATTER_RADIUS, Math.max(0, Math.round(next.radius)));
+
+    const changed =
+      next.density !== current.density ||
+      next.radius !== current.radius ||
+      next.area !== current.area ||
+      next.randomRotation !== current.randomRotation;
+
+    if (changed) {
+      this.state.scatterOptions = next;
+      this.emit('scatter:changed', { options: next });
+    }
+  }
+
+  setAutotileRuleSet(ruleSetId: string): void {
+    if (this.state.autotileRuleSetId !== ruleSetId) {
+      this.state.autotileRuleSetId = ruleSetId;
+      this.emit('autotile:changed', { ruleSetId, mode: this.state.autotileMode });
+    }
+  }
+
+  setAutotileMode(mode: AutotileMode): void {
+    if (this.state.autotileMode !== mode) {
+      this.state.autotileMode = mode;
+      this.emit('autotile:changed', { ruleSetId: this.state.autotileRuleSetId, mode });
+    }
+  }
+
+  setActiveStamp(stampId: string | null): void {
+    if (this.state.activeStampId !== stampId) {
+      this.state.activeStampId = stampId;
+      this.emit('stamp:changed', { stampId, transform: this.state.stampTransform });
+    }
+  }
+
+  setStampTransform(transform: Partial<StampTransform>): void {
+    const current = this.state.stampTransform;
+    const next = { ...current, ...transform };
+    if (next.rotation !== current.rotation || next.mirrored !== current.mirrored) {
+      this.state.stampTransform = next;
+      this.emit('stamp:changed', { stampId: this.state.activeStampId, transform: next });
+    }
+  }
+
+  /**
+   * Turn the stamp brush by 90 degree steps (1 is clockwise)
+   */
+  rotateStamp(direction: 1 | -1 = 1): void {
+    const current = this.state.stampTransform.rotation;
+    const rotation = ((current + direction * 90 + 360) % 360) as TileRotation;
+    this.setStampTransform({ rotation });
+  }
+
+  /**
+   * Toggle mirroring of the stamp brush
+   */
+  mirrorStamp(): void {
+    this.setStampTransform({ mirrored: !this.state.stampTransform.mirrored });
+  }
+
+  /**
+   * Set the behavior painted by the behavior tool (its fields double as defaults
+   * when switching type)
+   */
+  setBehaviorBrush(brush: TileBehavior): void {
+    const current = this.state.behaviorBrush;
+    const changed =
+      current.type !== brush.type ||
+      current.direction !== brush.direction ||
+      current.doorId !== brush.doorId ||
+      current.open !== brush.open ||
+      current.damage !== brush.damage;
+
+    if (changed) {
+      this.state.behaviorBrush = { ...brush };
+      this.emit('behavior:changed', { brush: this.state.behaviorBrush });
+    }
+  }
+
+  setInspectedCoord(coord: GridCoord | null): void {
+    const changed =
+      this.state.inspectedCoord?.x !== coord?.x ||
+      this.state.inspectedCoord?.y !== coord?.y;
+
+    if (changed) {
+      this.state.inspectedCoord = coord;
+      this.emit('inspect:changed', { coord });
+    }
+  }
+
+  setShowBehaviors(show: boolean): void {
+    if (this.state.showBehaviors !== show) {
+      this.state.showBehaviors = show;
+      this.emit('overlay:changed', { show });
+    }
   }
 
   setHoveredCoord(coord: GridCoord | null): void {
@@ -134,6 +567,14 @@ export class EditorState {
     this.emit('level:loaded', { level });
   }
 
+  notifyTilePicked(tile: TileData, layerId: string): void {
+    this.emit('tile:picked', { tile, layerId });
+  }
+
+  notifySelectionChanged(coords: GridCoord[]): void {
+    this.emit('selection:changed', { coords });
+  }
+
   // =========================================================================
   // Serialization
   // =========================================================================
@@ -152,5 +593,62 @@ export class EditorState {
     if (snapshot.selectedTileId !== undefined) {
       this.setSelectedTile(snapshot.selectedTileId);
     }
+    if (snapshot.favoriteTiles !== undefined) {
+      this.setFavoriteTiles(snapshot.favoriteTiles);
+    }
+    if (snapshot.recentTiles !== undefined) {
+      this.setRecentTiles(snapshot.recentTiles);
+    }
+    if (snapshot.tileOrientation !== undefined) {
+      this.setTileOrientation(snapshot.tileOrientation);
+    }
+    if (snapshot.pickerOptions !== undefined) {
+      this.setPickerOptions(snapshot.pickerOptions);
+    }
+    if (snapshot.shapeFillMode !== undefined) {
+      this.setShapeFillMode(snapshot.shapeFillMode);
+    }
+    if (snapshot.selectionScope !== undefined) {
+      this.setSelectionScope(snapshot.selectionScope);
+    }
+    if (snapshot.elevationMode !== undefined) {
+      this.setElevationMode(snapshot.elevationMode);
+    }
+    if (snapshot.brushMode !== undefined) {
+      this.setBrushMode(snapshot.brushMode);
+    }
+    if (snapshot.brushSize !== undefined) {
+      this.setBrushSize(snapshot.brushSize);
+    }
+    if (snapshot.brushShape !== undefined) {
+      this.setBrushShape(snapshot.brushShape);
+    }
+    if (snapshot.weightedTiles !== undefined) {
+      this.setWeightedTiles(snapshot.weightedTiles);
+    }
+    if (snapshot.randomSeed !== undefined) {
+      this.setRandomSeed(snapshot.randomSeed);
+    }
+    if (snapshot.scatterOptions !== undefined) {
+      this.setScatterOptions(snapshot.scatterOptions);
+    }
+    if (snapshot.autotileRuleSetId !== undefined) {
+      this.setAutotileRuleSet(snapshot.autotileRuleSetId);
+    }
+    if (snapshot.autotileMode !== undefined) {
+      this.setAutotileMode(snapshot.autotileMode);
+    }
+    if (snapshot.activeStampId !== undefined) {
+      this.setActiveStamp(snapshot.activeStampId);
+    }
+    if (snapshot.stampTransform !== undefined) {
+      this.setStampTransform(snapshot.stampTransform);
+    }
+    if (snapshot.behaviorBrush !== undefined) {
+      this.setBehaviorBrush(snapshot.behaviorBrush);
+    }
+    if (snapshot.showBehaviors !== undefined) {
+      this.setShowBehaviors(snapshot.showBehaviors);
+    }
   }
 }
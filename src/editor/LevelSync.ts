@@ -0,0 +1,177 @@
+/**
+ * Syncing level edits between the editor and a tester view
+ */
+
+import { Command } from '../core/types';
+import { Level } from '../level/Level';
+import { LevelChange, diffLevels } from '../level/LevelDiff';
+import { Editor } from './Editor';
+import {
+  PlaceTileCommand,
+  RemoveTileCommand,
+  SetTileBehaviorCommand,
+  BatchTileCommand,
+} from './history/Command';
+
+/** A view that tests a copy of the editor's level (movement, clops) */
+export interface LevelSyncTarget {
+  getLevel(): Level;
+  applyLevelChanges(changes: readonly LevelChange[]): void;
+  on(event: 'level:changed' | 'level:edited', handler: () => void): () => void;
+}
+
+type LevelSyncEventHandler = () => void;
+
+/**
+ * Build the editor command that applies a change to a level
+ */
+export function createLevelChangeCommand(level: Level, change: LevelChange): Command {
+  if (change.target === 'behavior') {
+    return new SetTileBehaviorCommand(level, change.position, change.after, change.before);
+  }
+  if (change.after) {
+    return new PlaceTileCommand(level, change.layerId, change.position, change.after, change.before);
+  }
+  return new RemoveTileCommand(level, change.layerId, change.position, change.before!);
+}
+
+/**
+ * LevelSync compares a tester's level with the editor's and applies the
+ * differences back to the editor as one undoable step.
+ *
+ * While linked, edits flow both ways: editor history changes are pushed to the
+ * tester and tester edits are applied to the editor. The link only holds while
+ * both sides show the same level (same id) and drops when either loads another.
+ */
+export class LevelSync {
+  private linked = false;
+  private syncing = false;
+  private listeners = new Set<LevelSyncEventHandler>();
+
+  constructor(
+    private editor: Editor,
+    private target: LevelSyncTarget,
+    readonly targetName: string
+  ) {
+    editor.history.on('change', () => this.handleEditorChange());
+    editor.state.on('level:loaded', () => this.handleLevelChange());
+    target.on('level:changed', () => this.handleLevelChange());
+    target.on('level:edited', () => this.handleTargetEdit());
+  }
+
+  /**
+   * Check if the tester shows a copy of the editor's level
+   */
+  isSameLevel(): boolean {
+    return this.editor.level.metadata.id === this.target.getLevel().metadata.id;
+  }
+
+  /**
+   * Get the changes that would bring the editor in line with the tester
+   */
+  getPendingChanges(): LevelChange[] {
+    return diffLevels(this.editor.level, this.target.getLevel());
+  }
+
+  /**
+   * Apply tester changes to the editor as one undo step
+   * Returns false if there was nothing to apply
+   */
+  applyToEditor(changes: readonly LevelChange[]): boolean {
+    if (changes.length === 0) return false;
+
+    const { level, history, state } = this.editor;
+    const commands = changes.map((change) => createLevelChangeCommand(level, change));
+    const label = `Apply ${changes.length} change${changes.length === 1 ? '' : 's'} from ${this.targetName}`;
+
+    this.syncing = true;
+    try {
+      history.execute(new BatchTileCommand(commands, label));
+    } finally {
+      this.syncing = false;
+    }
+    state.markDirty();
+    this.emit();
+    return true;
+  }
+
+  // =========================================================================
+  // Live Link
+  // =========================================================================
+
+  get isLinked(): boolean {
+    return this.linked;
+  }
+
+  /**
+   * Start or stop propagating edits both ways
+   * Linking first brings the tester in line with the editor, discarding
+   * tester changes that were not applied.
+   * @returns false if the tester does not show the editor's level
+   */
+  setLinked(linked: boolean): boolean {
+    if (linked && !this.isSameLevel()) return false;
+    if (this.linked === linked) return true;
+
+    this.linked = linked;
+    if (linked) {
+      this.pushToTarget();
+    }
+    this.emit();
+    return true;
+  }
+
+  private handleEditorChange(): void {
+    // Strokes are synced once their transaction commits
+    if (this.editor.history.isInTransaction) return;
+    if (this.linked && !this.syncing) {
+      this.pushToTarget();
+    }
+    this.emit();
+  }
+
+  private handleTargetEdit(): void {
+    if (this.linked && !this.syncing) {
+      this.applyToEditor(this.getPendingChanges());
+    }
+    this.emit();
+  }
+
+  private handleLevelChange(): void {
+    if (this.linked && !this.isSameLevel()) {
+      this.linked = false;
+    }
+    this.emit();
+  }
+
+  private pushToTarget(): void {
+    if (!this.isSameLevel()) {
+      this.linked = false;
+      return;
+    }
+
+    const changes = diffLevels(this.target.getLevel(), this.editor.level);
+    this.syncing = true;
+    try {
+      this.target.applyLevelChanges(changes);
+    } finally {
+      this.syncing = false;
+    }
+  }
+
+  // =========================================================================
+  // Events
+  // =========================================================================
+
+  /**
+   * Subscribe to link and pending change updates
+   */
+  on(_event: 'change', handler: LevelSyncEventHandler): () => void {
+    this.listeners.add(handler);
+    return () => this.listeners.delete(handler);
+  }
+
+  private emit(): void {
+    this.listeners.forEach((handler) => handler());
+  }
+}
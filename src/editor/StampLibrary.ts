@@ -0,0 +1,286 @@
+/**
+ * Stamp library persisted in localStorage
+ */
+
+import { z } from 'zod';
+import { GridCoord } from '../core/types';
+import { createId } from '../core/random';
+import { parseWithSchema, schemas } from '../level/validation';
+import { ClipboardData } from './Clipboard';
+import { Stamp } from './Stamps';
+
+const STORAGE_KEY = 'isometric_stamps';
+const FORMAT_VERSION = 1;
+
+export type StampLibraryEventType = 'change' | 'error';
+export type StampLibraryEventHandler = (data?: unknown) => void;
+
+// ============================================================================
+// File format
+// ============================================================================
+
+// Positions are relative to the stamp's top-left cell
+const StampFileEntrySchema = z
+  .object({
+    id: z.string().min(1),
+    name: z.string().min(1),
+    created: z.string(),
+    width: z.number().int().min(1),
+    height: z.number().int().min(1),
+    layers: z.array(
+      z.object({
+        layerId: z.string().min(1),
+        tiles: z.array(schemas.TilePlacement),
+      })
+    ),
+    behaviors: z.array(schemas.TileBehavior),
+  })
+  .superRefine((entry, ctx) => {
+    const checkInside = ({ x, y }: GridCoord, path: Array<string | number>): void => {
+      if (x < entry.width && y < entry.height) return;
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        path: [...path, 'position'],
+        message: `(${x}, ${y}) is outside the ${entry.width}×${entry.height} stamp`,
+      });
+    };
+
+    entry.layers.forEach((layer, layerIndex) => {
+      layer.tiles.forEach((tile, index) =>
+        checkInside(tile.position, ['layers', layerIndex, 'tiles', index])
+      );
+    });
+    entry.behaviors.forEach((behavior, index) =>
+      checkInside(behavior.position, ['behaviors', index])
+    );
+  });
+
+const StampFileSchema = z.object({
+  version: z.literal(FORMAT_VERSION),
+  stamps: z.array(StampFileEntrySchema),
+});
+
+type StampFileEntry = z.infer<typeof StampFileEntrySchema>;
+
+function toFileEntry(stamp: Stamp): StampFileEntry {
+  return {
+    id: stamp.id,
+    name: stamp.name,
+    created: stamp.created,
+    width: stamp.width,
+    height: stamp.height,
+    layers: stamp.layers.map((layer) => ({
+      layerId: layer.layerId,
+      tiles: layer.tiles.map(({ offset, tile }) => ({ ...tile, position: { ...offset } })),
+    })),
+    behaviors: stamp.behaviors.map(({ offset, behavior }) => ({
+      ...behavior,
+      position: { ...offset },
+    })),
+  };
+}
+
+function fromFileEntry(entry: StampFileEntry): Stamp {
+  return {
+    id: entry.id,
+    name: entry.name,
+    created: entry.created,
+    width: entry.width,
+    height: entry.height,
+    scope: 'all',
+    layers: entry.layers.map((layer) => ({
+      layerId: layer.layerId,
+      tiles: layer.tiles.map(({ position, ...tile }) => ({ offset: position, tile })),
+    })),
+    behaviors: entry.behaviors.map(({ position, ...behavior }) => ({
+      offset: position,
+      behavior,
+    })),
+  };
+}
+
+/**
+ * Parse stamp library JSON
+ * @throws Error if the JSON is not a valid stamp library
+ */
+function parseStampFile(json: string): Stamp[] {
+  let data: unknown;
+  try {
+    data = JSON.parse(json);
+  } catch {
+    throw new Error('Stamp library is not valid JSON');
+  }
+
+  return parseWithSchema(StampFileSchema, data, 'stamp library').stamps.map(fromFileEntry);
+}
+
+// ============================================================================
+// Library
+// ============================================================================
+
+/**
+ * StampLibrary keeps the saved stamps, shared by every level
+ */
+export class StampLibrary {
+  private stamps: Stamp[] = [];
+  private listeners = new Map<StampLibraryEventType, Set<StampLibraryEventHandler>>();
+
+  constructor(private storageKey: string = STORAGE_KEY) {
+    this.load();
+  }
+
+  /**
+   * Get every stamp, oldest first
+   */
+  getStamps(): readonly Stamp[] {
+    return this.stamps;
+  }
+
+  /**
+   * Find a stamp by id
+   */
+  getStamp(id: string): Stamp | undefined {
+    return this.stamps.find((stamp) => stamp.id === id);
+  }
+
+  /**
+   * Save a region as a new stamp
+   * Layers without tiles are dropped.
+   */
+  add(name: string, data: ClipboardData): Stamp {
+    const stamp: Stamp = {
+      id: createId('stamp'),
+      name: name.trim() || 'Untitled stamp',
+      created: new Date().toISOString(),
+      width: data.width,
+      height: data.height,
+      scope: 'all',
+      layers: data.layers
+        .filter((layer) => layer.tiles.length > 0)
+        .map((layer) => ({ layerId: layer.layerId, tiles: layer.tiles.map((t) => ({ ...t })) })),
+      behaviors: data.behaviors.map((b) => ({ ...b })),
+    };
+    this.stamps.push(stamp);
+    this.persist();
+    return stamp;
+  }
+
+  /**
+   * Rename a stamp
+   */
+  rename(id: string, name: string): void {
+    const trimmed = name.trim();
+    if (!trimmed) return;
+    this.stamps = this.stamps.map((stamp) => (stamp.id === id ? { ...stamp, name: trimmed } : stamp));
+    this.persist();
+  }
+
+  /**
+   * Delete a stamp
+   */
+  remove(id: string): void {
+    this.stamps = this.stamps.filter((stamp) => stamp.id !== id);
+    this.persist();
+  }
+
+  // =========================================================================
+  // Import / Export
+  // =========================================================================
+
+  /**
+   * Serialize the library (or some of its stamps) to JSON
+   */
+  exportJSON(ids?: readonly string[]): string {
+    const stamps = ids ? this.stamps.filter((stamp) => ids.includes(stamp.id)) : this.stamps;
+    return JSON.stringify({ version: FORMAT_VERSION, stamps: stamps.map(toFileEntry) }, null, 2);
+  }
+
+  /**
+   * Add the stamps from exported JSON
+   * Stamps whose id is already in the library get a new id.
+   * @returns Number of stamps added
+   * @throws Error if the JSON is not a valid stamp library
+   */
+  importJSON(json: string): number {
+    const imported = parseStampFile(json);
+    for (const stamp of imported) {
+      const id = this.getStamp(stamp.id) ? createId('stamp') : stamp.id;
+      this.stamps.push({ ...stamp, id });
+    }
+    this.persist();
+    return imported.length;
+  }
+
+  /**
+   * Trigger a download of the library as a JSON file
+   */
+  download(filename = 'stamps.json'): void {
+    const blob = new Blob([this.exportJSON()], { type: 'application/json' });
+    const url = URL.createObjectURL(blob);
+
+    const a = document.createElement('a');
+    a.href = url;
+    a.download = filename;
+    document.body.appendChild(a);
+    a.click();
+    document.body.removeChild(a);
+
+    URL.revokeObjectURL(url);
+  }
+
+  // =========================================================================
+  // Persistence
+  // =========================================================================
+
+  private load(): void {
+    if (typeof localStorage === 'undefined') return;
+
+    const json = localStorage.getItem(this.storageKey);
+    if (!json) return;
+
+    try {
+      this.stamps = parseStampFile(json);
+    } catch (error) {
+      console.warn('Ignoring stored stamp library:', error);
+    }
+  }
+
+  /**
+   * Write the library to localStorage
+   * A failed write (e.g. over quota) keeps the change in memory and emits 'error'.
+   */
+  private persist(): void {
+    if (typeof localStorage !== 'undefined') {
+      try {
+        localStorage.setItem(this.storageKey, this.exportJSON());
+      } catch (error) {
+        console.error('Failed to save the stamp library:', error);
+        this.emit('error', { error });
+      }
+    }
+    this.emit('change');
+  }
+
+  // =========================================================================
+  // Events
+  // =========================================================================
+
+  on(event: StampLibraryEventType, handler: StampLibraryEventHandler): () => void {
+    if (!this.listeners.has(event)) {
+      this.listeners.set(event, new Set());
+    }
+    this.listeners.get(event)!.add(handler);
+
+    return () => {
+      this.listeners.get(event)?.delete(handler);
+    };
+  }
+
+  off(event: StampLibraryEventType, handler: StampLibraryEventHandler): void {
+    this.listeners.get(event)?.delete(handler);
+  }
+
+  private emit(event: StampLibraryEventType, data?: unknown): void {
+    this.listeners.get(event)?.forEach((handler) => handler(data));
+  }
+}
@@ -0,0 +1,113 @@
+/**
+ * Stamps - saved multi-layer regions and their transforms
+ */
+
+import {
+  CardinalDirection,
+  GridCoord,
+  StampTransform,
+  TileData,
+  TileRotation,
+  createTileData,
+} from '../core/types';
+import { ClipboardData, ClipboardTile, ClipboardBehavior } from './Clipboard';
+
+/** A saved region placed by the stamp brush */
+export interface Stamp extends ClipboardData {
+  readonly id: string;
+  readonly name: string;
+  readonly created: string;
+}
+
+const CLOCKWISE: CardinalDirection[] = ['north', 'east', 'south', 'west'];
+
+const MIRRORED_DIRECTIONS: Record<CardinalDirection, CardinalDirection> = {
+  north: 'west',
+  west: 'north',
+  east: 'south',
+  south: 'east',
+};
+
+/**
+ * Transform a region so it can be placed turned and/or mirrored
+ *
+ * Grid rotations have no matching sprite rotation in an isometric view, so
+ * rotating moves tiles but keeps their art; behavior directions turn with
+ * the region. Mirroring also flips each tile's art horizontally.
+ */
+export function transformClipboardData(data: ClipboardData, transform: StampTransform): ClipboardData {
+  const turns = transform.rotation / 90;
+  let width = data.width;
+  let height = data.height;
+
+  // Each step maps an offset in a width×height region to the transformed region
+  const steps: Array<(offset: GridCoord, w: number, h: number) => GridCoord> = [];
+  if (transform.mirrored) {
+    steps.push((offset) => ({ x: offset.y, y: offset.x }));
+  }
+  for (let i = 0; i < turns; i++) {
+    steps.push((offset, _w, h) => ({ x: h - 1 - offset.y, y: offset.x }));
+  }
+
+  const sizes: Array<{ w: number; h: number }> = [];
+  for (let i = 0; i < steps.length; i++) {
+    sizes.push({ w: width, h: height });
+    [width, height] = [height, width];
+  }
+
+  const moveOffset = (offset: GridCoord): GridCoord =>
+    steps.reduce((current, step, i) => step(current, sizes[i]!.w, sizes[i]!.h), offset);
+
+  const moveTile = ({ offset, tile }: ClipboardTile): ClipboardTile => ({
+    offset: moveOffset(offset),
+    tile: transform.mirrored ? mirrorTile(tile) : { ...tile },
+  });
+
+  const moveBehavior = ({ offset, behavior }: ClipboardBehavior): ClipboardBehavior => ({
+    offset: moveOffset(offset),
+    behavior: behavior.direction
+      ? { ...behavior, direction: transformDirection(behavior.direction, transform) }
+      : { ...behavior },
+  });
+
+  return {
+    width,
+    height,
+    scope: data.scope,
+    layers: data.layers.map((layer) => ({
+      layerId: layer.layerId,
+      tiles: layer.tiles.map(moveTile),
+    })),
+    behaviors: data.behaviors.map(moveBehavior),
+  };
+}
+
+/**
+ * Turn a direction the same way as the region it belongs to
+ */
+export function transformDirection(
+  direction: CardinalDirection,
+  transform: StampTransform
+): CardinalDirection {
+  const mirrored = transform.mirrored ? MIRRORED_DIRECTIONS[direction] : direction;
+  const index = CLOCKWISE.indexOf(mirrored) + transform.rotation / 90;
+  return CLOCKWISE[index % CLOCKWISE.length]!;
+}
+
+/**
+ * Flip a tile's art horizontally, keeping how it looks otherwise
+ */
+function mirrorTile(tile: TileData): TileData {
+  const rotation = ((360 - (tile.rotation ?? 0)) % 360) as TileRotation;
+  return createTileData(tile.tileId, { rotation, flipX: !tile.flipX, flipY: tile.flipY });
+}
+
+/**
+ * Top-left cell that centers a region on a cell
+ */
+export function getStampOrigin(data: ClipboardData, center: GridCoord): GridCoord {
+  return {
+    x: center.x - Math.floor((data.width - 1) / 2),
+    y: center.y - Math.floor((data.height - 1) / 2),
+  };
+}
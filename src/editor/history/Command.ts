@@ -2,13 +2,75 @@
  * Command pattern for undo/redo operations
  */
 
-import { GridCoord, TileData, Command } from '../../core/types';
+import { GridCoord, TileData, TileBehavior, Command, SerializedCommand } from '../../core/types';
 import { Level } from '../../level/Level';
+import type { CommandRegistry } from './CommandRegistry';
+
+interface PlaceTileData {
+  layerId: string;
+  coord: GridCoord;
+  newTile: TileData;
+  previousTile: TileData | null;
+}
+
+interface RemoveTileData {
+  layerId: string;
+  coord: GridCoord;
+  previousTile: TileData;
+}
+
+interface SetTileBehaviorData {
+  coord: GridCoord;
+  newBehavior: TileBehavior | null;
+  previousBehavior: TileBehavior | null;
+}
+
+interface SetElevationData {
+  coord: GridCoord;
+  newHeight: number;
+  previousHeight: number;
+}
+
+interface BatchData {
+  description: string;
+  commands: SerializedCommand[];
+}
+
+interface ClearLayerData {
+  layerId: string;
+  previousTiles: Array<{ coord: GridCoord; tile: TileData }>;
+}
+
+/**
+ * Serialize a command, failing if it does not support persistence
+ */
+export function serializeCommand(command: Command): SerializedCommand {
+  if (!command.toJSON) {
+    throw new Error(`Command "${command.description}" cannot be serialized`);
+  }
+  return command.toJSON();
+}
+
+/**
+ * Write a tile (or clear the cell) through the layer itself
+ * Locks only stop tools, so undo and redo still replay on locked layers.
+ */
+function writeTile(level: Level, layerId: string, coord: GridCoord, tile: TileData | null): void {
+  const layer = level.getLayer(layerId);
+  if (!layer || !level.isInBounds(coord)) return;
+
+  if (tile) {
+    layer.setTile(coord, tile);
+  } else {
+    layer.removeTile(coord);
+  }
+}
 
 /**
  * Command to place a tile
  */
 export class PlaceTileCommand implements Command {
+  static readonly type = 'place-tile';
   readonly description: string;
 
   constructor(
@@ -22,15 +84,26 @@ export class PlaceTileCommand implements Command {
   }
 
   execute(): void {
-    this.level.setTile(this.layerId, this.coord, this.newTile);
+    writeTile(this.level, this.layerId, this.coord, this.newTile);
   }
 
   undo(): void {
-    if (this.previousTile) {
-      this.level.setTile(this.layerId, this.coord, this.previousTile);
-    } else {
-      this.level.removeTile(this.layerId, this.coord);
-    }
+    writeTile(this.level, this.layerId, this.coord, this.previousTile);
+  }
+
+  toJSON(): SerializedCommand {
+    const data: PlaceTileData = {
+      layerId: this.layerId,
+      coord: this.coord,
+      newTile: this.newTile,
+      previousTile: this.previousTile,
+    };
+    return { type: PlaceTileCommand.type, data };
+  }
+
+  static fromJSON(level: Level, data: unknown): PlaceTileCommand {
+    const { layerId, coord, newTile, previousTile } = data as PlaceTileData;
+    return new PlaceTileCommand(level, layerId, coord, newTile, previousTile);
   }
 }
 
@@ -38,6 +111,7 @@ export class PlaceTileCommand implements Command {
  * Command to remove a tile
  */
 export class RemoveTileCommand implements Command {
+  static readonly type = 'remove-tile';
   readonly description: string;
 
   constructor(
@@ -50,11 +124,105 @@ export class RemoveTileCommand implements Command {
   }
 
   execute(): void {
-    this.level.removeTile(this.layerId, this.coord);
+    writeTile(this.level, this.layerId, this.coord, null);
+  }
+
+  undo(): void {
+    writeTile(this.level, this.layerId, this.coord, this.previousTile);
+  }
+
+  toJSON(): SerializedCommand {
+    const data: RemoveTileData = {
+      layerId: this.layerId,
+      coord: this.coord,
+      previousTile: this.previousTile,
+    };
+    return { type: RemoveTileCommand.type, data };
+  }
+
+  static fromJSON(level: Level, data: unknown): RemoveTileCommand {
+    const { layerId, coord, previousTile } = data as RemoveTileData;
+    return new RemoveTileCommand(level, layerId, coord, previousTile);
+  }
+}
+
+/**
+ * Command to set or clear a tile behavior
+ */
+export class SetTileBehaviorCommand implements Command {
+  static readonly type = 'set-tile-behavior';
+  readonly description: string;
+
+  constructor(
+    private level: Level,
+    private coord: GridCoord,
+    private newBehavior: TileBehavior | null,
+    private previousBehavior: TileBehavior | null
+  ) {
+    this.description = newBehavior
+      ? `Set ${newBehavior.type} behavior at (${coord.x}, ${coord.y})`
+      : `Clear behavior at (${coord.x}, ${coord.y})`;
+  }
+
+  execute(): void {
+    this.level.setTileBehavior(this.coord, this.newBehavior);
   }
 
   undo(): void {
-    this.level.setTile(this.layerId, this.coord, this.previousTile);
+    this.level.setTileBehavior(this.coord, this.previousBehavior);
+  }
+
+  toJSON(): SerializedCommand {
+    const data: SetTileBehaviorData = {
+      coord: this.coord,
+      newBehavior: this.newBehavior,
+      previousBehavior: this.previousBehavior,
+    };
+    return { type: SetTileBehaviorCommand.type, data };
+  }
+
+  static fromJSON(level: Level, data: unknown): SetTileBehaviorCommand {
+    const { coord, newBehavior, previousBehavior } = data as SetTileBehaviorData;
+    return new SetTileBehaviorCommand(level, coord, newBehavior, previousBehavior);
+  }
+}
+
+/**
+ * Command to change the elevation of a cell
+ */
+export class SetElevationCommand implements Command {
+  static readonly type = 'set-elevation';
+  readonly description: string;
+
+  constructor(
+    private level: Level,
+    private coord: GridCoord,
+    private newHeight: number,
+    private previousHeight: number
+  ) {
+    this.description = `Set elevation ${newHeight} at (${coord.x}, ${coord.y})`;
+  }
+
+  execute(): void {
+    this.level.setElevation(this.coord, this.newHeight);
+  }
+
+  undo(): void {
+    this.level.setElevation(this.coord, this.previousHeight);
+  }
+
+  toJSON(): SerializedCommand {
+    const data: SetElevationData = {
+      coord: this.coord,
+      newHeight: this.newHeight,
+      previousHeight: this.previousHeight,
+    };
+    return { type: SetElevationCommand.type, data };
+  }
+
+  static fromJSON(level: Level, data: unknown): SetElevationCommand {
+    const { coord, newHeight, previousHeight } = data as SetElevationData;
+    return new SetElevationCommand(level, coord, newHeight, previousHeight);
   }
 }
 
@@ -62,6 +230,7 @@ export class RemoveTileCommand implements Command {
  * Command to batch multiple tile operations
  */
 export class BatchTileCommand implements Command {
+  static readonly type = 'batch';
   readonly description: string;
 
   constructor(
@@ -83,12 +252,29 @@ export class BatchTileCommand implements Command {
       this.commands[i]!.undo();
     }
   }
+
+  toJSON(): SerializedCommand {
+    const data: BatchData = {
+      description: this.description,
+      commands: this.commands.map(serializeCommand),
+    };
+    return { type: BatchTileCommand.type, data };
+  }
+
+  static fromJSON(level: Level, data: unknown, registry: CommandRegistry): BatchTileCommand {
+    const { description, commands } = data as BatchData;
+    return new BatchTileCommand(
+      commands.map((command) => registry.deserialize(level, command)),
+      description
+    );
+  }
 }
 
 /**
  * Command to clear all tiles from a layer
  */
 export class ClearLayerCommand implements Command {
+  static readonly type = 'clear-layer';
   readonly description: string;
   private previousTiles: Array<{ coord: GridCoord; tile: TileData }> = [];
 
@@ -115,7 +301,22 @@ export class ClearLayerCommand implements Command {
 
   undo(): void {
     for (const { coord, tile } of this.previousTiles) {
-      this.level.setTile(this.layerId, coord, tile);
+      writeTile(this.level, this.layerId, coord, tile);
     }
   }
+
+  toJSON(): SerializedCommand {
+    const data: ClearLayerData = {
+      layerId: this.layerId,
+      previousTiles: this.previousTiles,
+    };
+    return { type: ClearLayerCommand.type, data };
+  }
+
+  static fromJSON(level: Level, data: unknown): ClearLayerCommand {
+    const { layerId, previousTiles } = data as ClearLayerData;
+    const command = new ClearLayerCommand(level, layerId);
+    command.previousTiles = previousTiles;
+    return command;
+  }
 }
@@ -0,0 +1,95 @@
+/**
+ * Registry that turns serialized commands back into live commands
+ */
+
+import { Command, SerializedCommand } from '../../core/types';
+import { Level } from '../../level/Level';
+import {
+  PlaceTileCommand,
+  RemoveTileCommand,
+  SetTileBehaviorCommand,
+  SetElevationCommand,
+  BatchTileCommand,
+  ClearLayerCommand,
+  serializeCommand,
+} from './Command';
+import {
+  AddLayerCommand,
+  RemoveLayerCommand,
+  RenameLayerCommand,
+  ReorderLayersCommand,
+} from './LayerCommands';
+import { ResizeLevelCommand } from './LevelCommands';
+
+/** Rebuild a command for a level from its serialized data */
+export type CommandDeserializer = (
+  level: Level,
+  data: unknown,
+  registry: CommandRegistry
+) => Command;
+
+/**
+ * CommandRegistry maps command types to their deserializers
+ *
+ * Commands serialize themselves through `toJSON`; new command classes register
+ * a `fromJSON` here so persisted history can be restored.
+ */
+export class CommandRegistry {
+  private deserializers = new Map<string, CommandDeserializer>();
+
+  /**
+   * Register a deserializer for a command type
+   */
+  register(type: string, deserializer: CommandDeserializer): void {
+    this.deserializers.set(type, deserializer);
+  }
+
+  /**
+   * Check if a command type is registered
+   */
+  has(type: string): boolean {
+    return this.deserializers.has(type);
+  }
+
+  /**
+   * Serialize a command
+   * @throws Error if the command does not implement toJSON
+   */
+  serialize(command: Command): SerializedCommand {
+    return serializeCommand(command);
+  }
+
+  /**
+   * Rebuild a command from its serialized form
+   * @throws Error if the command type is not registered
+   */
+  deserialize(level: Level, serialized: SerializedCommand): Command {
+    const deserializer = this.deserializers.get(serialized.type);
+    if (!deserializer) {
+      throw new Error(`Unknown command type: ${serialized.type}`);
+    }
+    return deserializer(level, serialized.data, this);
+  }
+}
+
+/**
+ * Create a registry with all built-in commands
+ */
+export function createCommandRegistry(): CommandRegistry {
+  const registry = new CommandRegistry();
+  registry.register(PlaceTileCommand.type, PlaceTileCommand.fromJSON);
+  registry.register(RemoveTileCommand.type, RemoveTileCommand.fromJSON);
+  registry.register(SetTileBehaviorCommand.type, SetTileBehaviorCommand.fromJSON);
+  registry.register(SetElevationCommand.type, SetElevationCommand.fromJSON);
+  registry.register(BatchTileCommand.type, BatchTileCommand.fromJSON);
+  registry.register(ClearLayerCommand.type, ClearLayerCommand.fromJSON);
+  registry.register(AddLayerCommand.type, AddLayerCommand.fromJSON);
+  registry.register(RemoveLayerCommand.type, RemoveLayerCommand.fromJSON);
+  registry.register(RenameLayerCommand.type, RenameLayerCommand.fromJSON);
+  registry.register(ReorderLayersCommand.type, ReorderLayersCommand.fromJSON);
+  registry.register(ResizeLevelCommand.type, ResizeLevelCommand.fromJSON);
+  return registry;
+}
+
+/** Shared registry used by the editor */
+export const commandRegistry = createCommandRegistry();
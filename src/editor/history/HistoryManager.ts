@@ -3,6 +3,7 @@
  */
 
 import { Command } from '../../core/types';
+import { BatchTileCommand } from './Command';
 
 export interface HistoryOptions {
   /** Maximum number of commands to keep in history */
@@ -12,6 +13,28 @@ export interface HistoryOptions {
 export type HistoryEventType = 'change' | 'save';
 export type HistoryEventHandler = () => void;
 
+/** A recorded command as seen from the history list */
+export interface HistoryEntry {
+  /** Position reached once this command is applied (1-based; 0 is the oldest state) */
+  position: number;
+  description: string;
+  /** False for commands that have been undone and can be redone */
+  applied: boolean;
+}
+
+/** A named history position that is never trimmed away */
+export interface HistoryCheckpoint {
+  readonly id: number;
+  readonly name: string;
+  position: number;
+}
+
+/** Commands collected between beginTransaction and commitTransaction */
+interface HistoryTransaction {
+  description: string | null;
+  commands: Command[];
+}
+
 /**
  * HistoryManager manages undo/redo stacks
  */
@@ -20,6 +43,9 @@ export class HistoryManager {
   private redoStack: Command[] = [];
   private maxSize: number;
   private savePoint: number = 0;
+  private transaction: HistoryTransaction | null = null;
+  private checkpoints: HistoryCheckpoint[] = [];
+  private nextCheckpointId = 1;
   private listeners = new Map<HistoryEventType, Set<HistoryEventHandler>>();
 
   constructor(options: HistoryOptions = {}) {
@@ -28,33 +54,103 @@ export class HistoryManager {
 
   /**
    * Execute a command and add it to the history
+   * Inside a transaction the command is collected into the pending batch instead
    */
   execute(command: Command): void {
     // Execute the command
     command.execute();
 
-    // Add to undo stack
-    this.undoStack.push(command);
+    if (this.transaction) {
+      this.transaction.commands.push(command);
+      this.discardRedo();
+      this.emit('change');
+      return;
+    }
 
-    // Clear redo stack (can't redo after new action)
-    this.redoStack = [];
+    this.push(command);
+    this.emit('change');
+  }
 
-    // Trim undo stack if too large
-    while (this.undoStack.length > this.maxSize) {
-      this.undoStack.shift();
-      // Adjust save point if it was in the trimmed region
-      if (this.savePoint > 0) {
-        this.savePoint--;
-      }
+  // =========================================================================
+  // Transactions
+  // =========================================================================
+
+  /**
+   * Start grouping executed commands into a single undo step
+   * @throws Error if a transaction is already open
+   */
+  beginTransaction(description?: string): void {
+    if (this.transaction) {
+      throw new Error('A history transaction is already open');
+    }
+    this.transaction = { description: description ?? null, commands: [] };
+  }
+
+  /**
+   * Close the open transaction and record its commands as one BatchTileCommand
+   * Returns false if no transaction was open or it recorded nothing
+   * Closing even an empty transaction emits 'change', so tools drawing into it see it end.
+   */
+  commitTransaction(description?: string): boolean {
+    const transaction = this.transaction;
+    if (!transaction) return false;
+    this.transaction = null;
+
+    const { commands } = transaction;
+    if (commands.length === 0) {
+      this.emit('change');
+      return false;
     }
 
+    const label =
+      description ?? transaction.description ?? `Batch operation (${commands.length} changes)`;
+    this.push(new BatchTileCommand(commands, label));
     this.emit('change');
+    return true;
   }
 
+  /**
+   * Undo and discard everything executed in the open transaction
+   */
+  abort(): void {
+    const transaction = this.transaction;
+    if (!transaction) return;
+    this.transaction = null;
+
+    for (let i = transaction.commands.length - 1; i >= 0; i--) {
+      transaction.commands[i]!.undo();
+    }
+
+    if (transaction.commands.length > 0) {
+      this.emit('change');
+    }
+  }
+
+  /**
+   * Check if a transaction is open
+   */
+  get isInTransaction(): boolean {
+    return this.transaction !== null;
+  }
+
+  /**
+   * Get the number of commands in the open transaction
+   */
+  get transactionSize(): number {
+    return this.transaction?.commands.length ?? 0;
+  }
+
+  // =========================================================================
+  // Undo / Redo
+  // =========================================================================
+
   /**
    * Undo the last command
    */
   undo(): boolean {
+    // Finish an in-progress transaction so it can be undone as a whole
+    this.commitTransaction();
+
     const command = this.undoStack.pop();
     if (!command) return false;
 
@@ -69,6 +165,8 @@ export class HistoryManager {
    * Redo the last undone command
    */
   redo(): boolean {
+    this.commitTransaction();
+
     const command = this.redoStack.pop();
     if (!command) return false;
 
@@ -79,6 +177,32 @@ export class HistoryManager {
     return true;
   }
 
+  /**
+   * Undo or redo until the given position is reached
+   * Returns false if already there
+   */
+  jumpTo(position: number): boolean {
+    this.commitTransaction();
+
+    const last = this.undoStack.length + this.redoStack.length;
+    const target = Math.max(0, Math.min(last, Math.floor(position)));
+    if (target === this.undoStack.length) return false;
+
+    while (this.undoStack.length > target) {
+      const command = this.undoStack.pop()!;
+      command.undo();
+      this.redoStack.push(command);
+    }
+    while (this.undoStack.length < target) {
+      const command = this.redoStack.pop()!;
+      command.execute();
+      this.undoStack.push(command);
+    }
+
+    this.emit('change');
+    return true;
+  }
+
   /**
    * Check if undo is available
    */
@@ -109,6 +233,37 @@ export class HistoryManager {
     return command?.description ?? null;
   }
 
+  /**
+   * Get every recorded command, oldest first, including undone ones
+   */
+  getEntries(): HistoryEntry[] {
+    const applied = this.undoStack.map((command, index) => ({
+      position: index + 1,
+      description: command.description,
+      applied: true,
+    }));
+    const undone = [...this.redoStack].reverse().map((command, index) => ({
+      position: this.undoStack.length + index + 1,
+      description: command.description,
+      applied: false,
+    }));
+    return [...applied, ...undone];
+  }
+
+  /**
+   * Get the current position (number of applied commands)
+   */
+  get position(): number {
+    return this.undoStack.length;
+  }
+
+  /**
+   * Get the position of the last save, or null if it is no longer reachable
+   */
+  get savePosition(): number | null {
+    return this.savePoint >= 0 ? this.savePoint : null;
+  }
+
   /**
    * Mark the current state as saved
    */
@@ -128,9 +283,11 @@ export class HistoryManager {
    * Clear all history
    */
   clear(): void {
+    this.transaction = null;
     this.undoStack = [];
     this.redoStack = [];
     this.savePoint = 0;
+    this.checkpoints = [];
     this.emit('change');
   }
 
@@ -148,6 +305,127 @@ export class HistoryManager {
     return this.redoStack.length;
   }
 
+  // =========================================================================
+  // Checkpoints
+  // =========================================================================
+
+  /**
+   * Pin the current position under a name
+   */
+  addCheckpoint(name: string): HistoryCheckpoint {
+    this.commitTransaction();
+
+    const checkpoint: HistoryCheckpoint = {
+      id: this.nextCheckpointId++,
+      name,
+      position: this.undoStack.length,
+    };
+    this.checkpoints.push(checkpoint);
+    this.emit('change');
+    return checkpoint;
+  }
+
+  /**
+   * Remove a checkpoint
+   */
+  removeCheckpoint(id: number): void {
+    const count = this.checkpoints.length;
+    this.checkpoints = this.checkpoints.filter((checkpoint) => checkpoint.id !== id);
+    if (this.checkpoints.length !== count) {
+      this.emit('change');
+    }
+  }
+
+  /**
+   * Get all checkpoints, oldest position first
+   */
+  getCheckpoints(): readonly HistoryCheckpoint[] {
+    return [...this.checkpoints].sort((a, b) => a.position - b.position || a.id - b.id);
+  }
+
+  /**
+   * Undo or redo to a checkpoint
+   */
+  jumpToCheckpoint(id: number): boolean {
+    const checkpoint = this.checkpoints.find((c) => c.id === id);
+    return checkpoint ? this.jumpTo(checkpoint.position) : false;
+  }
+
+  // =========================================================================
+  // Persistence
+  // =========================================================================
+
+  /**
+   * Get every recorded command, oldest first, including undone ones
+   */
+  getCommands(): Command[] {
+    return [...this.undoStack, ...[...this.redoStack].reverse()];
+  }
+
+  /**
+   * Replace the history with commands whose effects are already in the level
+   * Commands after `position` become redoable and `position` counts as saved
+   */
+  load(
+    commands: Command[],
+    position: number,
+    checkpoints: ReadonlyArray<{ name: string; position: number }> = []
+  ): void {
+    const split = Math.max(0, Math.min(commands.length, position));
+
+    this.transaction = null;
+    this.undoStack = commands.slice(0, split);
+    this.redoStack = commands.slice(split).reverse();
+    this.savePoint = split;
+    this.checkpoints = checkpoints
+      .filter((checkpoint) => checkpoint.position >= 0 && checkpoint.position <= commands.length)
+      .map(({ name, position }) => ({ id: this.nextCheckpointId++, name, position }));
+    this.emit('change');
+  }
+
+  // =========================================================================
+  // Internals
+  // =========================================================================
+
+  /**
+   * Add an executed command to the undo stack
+   */
+  private push(command: Command): void {
+    // Clear redo stack (can't redo after new action)
+    this.discardRedo();
+
+    this.undoStack.push(command);
+
+    // Trim undo stack if too large, but never past the oldest checkpoint
+    while (this.undoStack.length > this.maxSize && this.canTrim()) {
+      this.undoStack.shift();
+      // Adjust save point if it was in the trimmed region
+      this.savePoint = this.savePoint > 0 ? this.savePoint - 1 : -1;
+      for (const checkpoint of this.checkpoints) {
+        checkpoint.position--;
+      }
+    }
+  }
+
+  /**
+   * Drop the redo stack along with any save point or checkpoint that pointed into it
+   */
+  private discardRedo(): void {
+    const position = this.undoStack.length;
+    this.redoStack = [];
+    if (this.savePoint > position) {
+      this.savePoint = -1;
+    }
+    this.checkpoints = this.checkpoints.filter((checkpoint) => checkpoint.position <= position);
+  }
+
+  /**
+   * Check if the oldest command can be trimmed without losing a checkpoint
+   */
+  private canTrim(): boolean {
+    return this.checkpoints.every((checkpoint) => checkpoint.position > 0);
+  }
+
   // =========================================================================
   // Events
   // =========================================================================
@@ -0,0 +1,104 @@
+/**
+ * IndexedDB persistence for undo history
+ */
+
+import { SerializedCommand } from '../../core/types';
+
+const DB_NAME = 'isometric_editor';
+const DB_VERSION = 1;
+const STORE_NAME = 'history';
+
+/** Undo history recorded for one level */
+export interface StoredHistory {
+  levelId: string;
+  /** Hash of the saved level JSON the history was recorded against */
+  levelHash: string;
+  /** Position of the saved level within the commands */
+  savePosition: number;
+  /** Every recorded command, oldest first */
+  commands: SerializedCommand[];
+  checkpoints: Array<{ name: string; position: number }>;
+  updated: string;
+}
+
+/**
+ * HistoryStorage keeps one StoredHistory per level id in IndexedDB
+ */
+export class HistoryStorage {
+  private db: Promise<IDBDatabase> | null = null;
+
+  constructor(private dbName: string = DB_NAME) {}
+
+  /**
+   * Check if IndexedDB is available in this browser
+   */
+  static isSupported(): boolean {
+    return typeof indexedDB !== 'undefined';
+  }
+
+  /**
+   * Load the history recorded for a level
+   */
+  async load(levelId: string): Promise<StoredHistory | null> {
+    const db = await this.open();
+    const store = db.transaction(STORE_NAME, 'readonly').objectStore(STORE_NAME);
+    const record = await requestToPromise<StoredHistory | undefined>(store.get(levelId));
+    return record ?? null;
+  }
+
+  /**
+   * Store the history for a level, replacing any previous record
+   */
+  async save(history: StoredHistory): Promise<void> {
+    const db = await this.open();
+    const transaction = db.transaction(STORE_NAME, 'readwrite');
+    transaction.objectStore(STORE_NAME).put(history);
+    await transactionToPromise(transaction);
+  }
+
+  /**
+   * Remove the history recorded for a level
+   */
+  async remove(levelId: string): Promise<void> {
+    const db = await this.open();
+    const transaction = db.transaction(STORE_NAME, 'readwrite');
+    transaction.objectStore(STORE_NAME).delete(levelId);
+    await transactionToPromise(transaction);
+  }
+
+  private open(): Promise<IDBDatabase> {
+    if (!this.db) {
+      this.db = new Promise((resolve, reject) => {
+        if (!HistoryStorage.isSupported()) {
+          reject(new Error('IndexedDB is not available'));
+          return;
+        }
+
+        const request = indexedDB.open(this.dbName, DB_VERSION);
+        request.onupgradeneeded = () => {
+          if (!request.result.objectStoreNames.contains(STORE_NAME)) {
+            request.result.createObjectStore(STORE_NAME, { keyPath: 'levelId' });
+          }
+        };
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => reject(request.error ?? new Error('Failed to open history database'));
+      });
+    }
+    return this.db;
+  }
+}
+
+function requestToPromise<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error ?? new Error('IndexedDB request failed'));
+  });
+}
+
+function transactionToPromise(transaction: IDBTransaction): Promise<void> {
+  return new Promise((resolve, reject) => {
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error ?? new Error('IndexedDB transaction failed'));
+    transaction.onabort = () => reject(transaction.error ?? new Error('IndexedDB transaction aborted'));
+  });
+}
@@ -0,0 +1,204 @@
+/**
+ * Commands for layer management (add, remove, rename, reorder)
+ */
+
+import { Command, LayerData, SerializedCommand } from '../../core/types';
+import { LAYER_Z_STEP } from '../../core/constants';
+import { Level } from '../../level/Level';
+import { Layer } from '../../level/Layer';
+
+interface AddLayerData {
+  description: string;
+  layer: LayerData;
+}
+
+interface RemoveLayerData {
+  layerId: string;
+  layer: LayerData | null;
+}
+
+interface RenameLayerData {
+  layerId: string;
+  newName: string;
+  previousName: string;
+}
+
+interface ReorderLayersData {
+  description: string;
+  orderedIds: string[];
+  previousZIndices: Array<[string, number]> | null;
+}
+
+/**
+ * Command to add a layer
+ */
+export class AddLayerCommand implements Command {
+  static readonly type = 'add-layer';
+  readonly description: string;
+
+  constructor(
+    private level: Level,
+    private layer: Layer,
+    description?: string
+  ) {
+    this.description = description ?? `Add layer "${layer.config.name}"`;
+  }
+
+  execute(): void {
+    this.level.addLayer(this.layer);
+  }
+
+  undo(): void {
+    // Keep the instance in the level so a redo brings back the same layer
+    this.layer = this.level.getLayer(this.layer.config.id) ?? this.layer;
+    this.level.removeLayer(this.layer.config.id);
+  }
+
+  toJSON(): SerializedCommand {
+    const data: AddLayerData = { description: this.description, layer: this.layer.toData() };
+    return { type: AddLayerCommand.type, data };
+  }
+
+  static fromJSON(level: Level, data: unknown): AddLayerCommand {
+    const { description, layer } = data as AddLayerData;
+    return new AddLayerCommand(level, Layer.fromData(layer), description);
+  }
+}
+
+/**
+ * Command to remove a layer (keeps the layer instance so undo restores its tiles)
+ */
+export class RemoveLayerCommand implements Command {
+  static readonly type = 'remove-layer';
+  readonly description: string;
+  private layer: Layer | undefined;
+
+  constructor(
+    private level: Level,
+    private layerId: string,
+    layer?: Layer
+  ) {
+    this.layer = layer ?? level.getLayer(layerId);
+    this.description = `Delete layer "${this.layer?.config.name ?? layerId}"`;
+  }
+
+  execute(): void {
+    this.layer = this.level.getLayer(this.layerId) ?? this.layer;
+    if (this.layer) {
+      this.level.removeLayer(this.layer.config.id);
+    }
+  }
+
+  undo(): void {
+    if (this.layer) {
+      this.level.addLayer(this.layer);
+    }
+  }
+
+  toJSON(): SerializedCommand {
+    const data: RemoveLayerData = {
+      layerId: this.layerId,
+      layer: this.layer?.toData() ?? null,
+    };
+    return { type: RemoveLayerCommand.type, data };
+  }
+
+  static fromJSON(level: Level, data: unknown): RemoveLayerCommand {
+    const { layerId, layer } = data as RemoveLayerData;
+    return new RemoveLayerCommand(level, layerId, layer ? Layer.fromData(layer) : undefined);
+  }
+}
+
+/**
+ * Command to rename a layer
+ */
+export class RenameLayerCommand implements Command {
+  static readonly type = 'rename-layer';
+  readonly description: string;
+  private previousName: string;
+
+  constructor(
+    private level: Level,
+    private layerId: string,
+    private newName: string,
+    previousName?: string
+  ) {
+    this.previousName = previousName ?? level.getLayer(layerId)?.config.name ?? newName;
+    this.description = `Rename layer "${this.previousName}" to "${newName}"`;
+  }
+
+  execute(): void {
+    this.level.getLayer(this.layerId)?.setName(this.newName);
+  }
+
+  undo(): void {
+    this.level.getLayer(this.layerId)?.setName(this.previousName);
+  }
+
+  toJSON(): SerializedCommand {
+    const data: RenameLayerData = {
+      layerId: this.layerId,
+      newName: this.newName,
+      previousName: this.previousName,
+    };
+    return { type: RenameLayerCommand.type, data };
+  }
+
+  static fromJSON(level: Level, data: unknown): RenameLayerCommand {
+    const { layerId, newName, previousName } = data as RenameLayerData;
+    return new RenameLayerCommand(level, layerId, newName, previousName);
+  }
+}
+
+/**
+ * Command to reorder layers
+ * Layers are given evenly spaced z-indices in the new bottom-to-top order
+ */
+export class ReorderLayersCommand implements Command {
+  static readonly type = 'reorder-layers';
+  readonly description: string;
+  private previousZIndices: Map<string, number> | null = null;
+
+  constructor(
+    private level: Level,
+    private orderedIds: string[],
+    description?: string
+  ) {
+    this.description = description ?? 'Reorder layers';
+  }
+
+  execute(): void {
+    // Capture on first run so this can follow other commands in a batch
+    if (!this.previousZIndices) {
+      this.previousZIndices = new Map(
+        this.level.getLayers().map((layer) => [layer.config.id, layer.config.zIndex])
+      );
+    }
+
+    this.orderedIds.forEach((id, index) => {
+      this.level.setLayerZIndex(id, index * LAYER_Z_STEP);
+    });
+  }
+
+  undo(): void {
+    this.previousZIndices?.forEach((zIndex, id) => {
+      this.level.setLayerZIndex(id, zIndex);
+    });
+  }
+
+  toJSON(): SerializedCommand {
+    const data: ReorderLayersData = {
+      description: this.description,
+      orderedIds: this.orderedIds,
+      previousZIndices: this.previousZIndices ? [...this.previousZIndices] : null,
+    };
+    return { type: ReorderLayersCommand.type, data };
+  }
+
+  static fromJSON(level: Level, data: unknown): ReorderLayersCommand {
+    const { description, orderedIds, previousZIndices } = data as ReorderLayersData;
+    const command = new ReorderLayersCommand(level, orderedIds, description);
+    command.previousZIndices = previousZIndices ? new Map(previousZIndices) : null;
+    return command;
+  }
+}
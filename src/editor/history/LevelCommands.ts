@@ -0,0 +1,82 @@
+/**
+ * Commands that change the whole level (resize, crop)
+ */
+
+import { Command, GridCoord, SerializedCommand } from '../../core/types';
+import { ClippedLevelContent, Level } from '../../level/Level';
+
+interface ResizeLevelData {
+  description: string;
+  width: number;
+  height: number;
+  offset: GridCoord;
+  previousWidth: number;
+  previousHeight: number;
+  clipped: ClippedLevelContent | null;
+}
+
+/**
+ * Command to resize the grid, moving all content by an offset
+ * Content that no longer fits is kept so undo can put it back.
+ */
+export class ResizeLevelCommand implements Command {
+  static readonly type = 'resize-level';
+  readonly description: string;
+  private previousWidth: number;
+  private previousHeight: number;
+
+  constructor(
+    private level: Level,
+    private width: number,
+    private height: number,
+    private offset: GridCoord,
+    description?: string,
+    previousSize?: { width: number; height: number },
+    private clipped: ClippedLevelContent | null = null
+  ) {
+    this.previousWidth = previousSize?.width ?? level.gridWidth;
+    this.previousHeight = previousSize?.height ?? level.gridHeight;
+    this.description = description ?? `Resize map to ${width}x${height}`;
+  }
+
+  execute(): void {
+    this.clipped = this.level.resize(this.width, this.height, this.offset);
+  }
+
+  undo(): void {
+    this.level.resize(this.previousWidth, this.previousHeight, {
+      x: -this.offset.x,
+      y: -this.offset.y,
+    });
+    if (this.clipped) {
+      this.level.restoreContent(this.clipped);
+    }
+  }
+
+  toJSON(): SerializedCommand {
+    const data: ResizeLevelData = {
+      description: this.description,
+      width: this.width,
+      height: this.height,
+      offset: this.offset,
+      previousWidth: this.previousWidth,
+      previousHeight: this.previousHeight,
+      clipped: this.clipped,
+    };
+    return { type: ResizeLevelCommand.type, data };
+  }
+
+  static fromJSON(level: Level, data: unknown): ResizeLevelCommand {
+    const { description, width, height, offset, previousWidth, previousHeight, clipped } =
+      data as ResizeLevelData;
+    return new ResizeLevelCommand(
+      level,
+      width,
+      height,
+      offset,
+      description,
+      { width: previousWidth, height: previousHeight },
+      clipped
+    );
+  }
+}
@@ -3,4 +3,8 @@
  */
 
 export * from './Command';
+export * from './LayerCommands';
+export * from './LevelCommands';
 export * from './HistoryManager';
+export * from './CommandRegistry';
+export * from './HistoryStorage';
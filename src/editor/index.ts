@@ -4,5 +4,9 @@
 
 export * from './Editor';
 export * from './EditorState';
+export * from './Clipboard';
+export * from './Stamps';
+export * from './StampLibrary';
+export * from './LevelSync';
 export * from './tools';
 export * from './history';
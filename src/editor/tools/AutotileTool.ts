@@ -0,0 +1,184 @@
+/**
+ * Autotile tool for painting terrain with automatic transitions
+ */
+
+import { GridCoord, isSameTile } from '../../core/types';
+import {
+  AutotileRuleSet,
+  getAutotileMask,
+  getAutotileRuleSet,
+  resolveAutotileTile,
+} from '../../assets/AutotileRules';
+import { BaseTool, ToolContext } from './Tool';
+import { PlaceTileCommand, RemoveTileCommand } from '../history/Command';
+
+/**
+ * AutotileTool paints (or erases) a terrain family on the active layer
+ *
+ * Each changed cell and its eight neighbours are re-evaluated against the
+ * rule set so edges and corners follow the terrain. Out-of-bounds neighbours
+ * count as the same terrain. A whole stroke, neighbour updates included, is
+ * one undo step.
+ */
+export class AutotileTool extends BaseTool {
+  readonly type = 'autotile' as const;
+  readonly name = 'Autotile';
+  readonly description = 'Paint terrain that picks its own edge variants';
+  readonly shortcut = 'j';
+
+  private changedCoords = new Set<string>();
+
+  onActivate(ctx: ToolContext): void {
+    super.onActivate(ctx);
+    this.changedCoords.clear();
+  }
+
+  onDeactivate(ctx: ToolContext): void {
+    this.endStroke(ctx);
+    super.onDeactivate(ctx);
+    ctx.renderer.setHoverPreview(null);
+  }
+
+  onMouseDown(ctx: ToolContext, coord: GridCoord): void {
+    this.endStroke(ctx);
+    this.beginStroke(ctx);
+    this.applyAt(ctx, coord);
+  }
+
+  onMouseMove(ctx: ToolContext, coord: GridCoord, isPressed: boolean): void {
+    if (this.isDrawing && !isPressed) {
+      // Button was released outside the canvas
+      this.endStroke(ctx);
+    } else if (isPressed && this.isDrawing) {
+      if (this.hasCoordChanged(coord)) {
+        this.applyAt(ctx, coord);
+      }
+    }
+    this.updateLastCoord(coord);
+    this.updateHoverPreview(ctx, coord);
+  }
+
+  onMouseUp(ctx: ToolContext, _coord: GridCoord): void {
+    this.endStroke(ctx);
+  }
+
+  getCursor(): string {
+    return 'crosshair';
+  }
+
+  /**
+   * Record the cells changed since mouse down as one undo step
+   */
+  private endStroke(ctx: ToolContext): void {
+    if (this.isDrawing) {
+      const { autotileMode, autotileRuleSetId } = ctx.editorState;
+      const name = getAutotileRuleSet(autotileRuleSetId)?.name ?? autotileRuleSetId;
+      const count = ctx.history.transactionSize;
+      this.commitStroke(
+        ctx,
+        autotileMode === 'erase'
+          ? `Erase ${name} (${count} tiles)`
+          : `Autotile ${name} (${count} tiles)`
+      );
+    }
+    this.changedCoords.clear();
+  }
+
+  private updateHoverPreview(ctx: ToolContext, coord: GridCoord): void {
+    const { level, editorState, renderer } = ctx;
+    const layerId = editorState.activeLayerId;
+    const ruleSet = getAutotileRuleSet(editorState.autotileRuleSetId);
+    if (!layerId || !ruleSet || editorState.autotileMode === 'erase') {
+      renderer.setHoverPreview(null);
+      return;
+    }
+
+    const mask = getAutotileMask(ruleSet, coord, (neighbor) =>
+      this.isTerrain(ctx, layerId, ruleSet, neighbor)
+    );
+    renderer.setHoverPreview(
+      level.isInBounds(coord) ? resolveAutotileTile(ruleSet, mask) : null,
+      layerId
+    );
+  }
+
+  /**
+   * Paint or erase one cell, then re-evaluate its neighbourhood
+   */
+  private applyAt(ctx: ToolContext, coord: GridCoord): void {
+    const { level, editorState, history } = ctx;
+    const layerId = editorState.activeLayerId;
+    const ruleSet = getAutotileRuleSet(editorState.autotileRuleSetId);
+
+    // Need active layer and a known rule set
+    if (!layerId || !ruleSet) return;
+
+    // Respect locked layers
+    if (level.getLayer(layerId)?.config.locked) return;
+
+    // Check bounds
+    if (!level.isInBounds(coord)) return;
+
+    // Each cell changes at most once per stroke
+    const coordKey = `${coord.x},${coord.y}`;
+    if (this.changedCoords.has(coordKey)) return;
+    this.changedCoords.add(coordKey);
+
+    const previousTile = level.getTile(layerId, coord);
+    if (editorState.autotileMode === 'erase') {
+      // Only this terrain is erased; other tiles are left alone
+      if (!previousTile || !ruleSet.members.has(previousTile.tileId)) return;
+      history.execute(new RemoveTileCommand(level, layerId, coord, previousTile));
+    } else if (!previousTile || !ruleSet.tileIds.has(previousTile.tileId)) {
+      // The variant is picked below, together with the neighbours
+      history.execute(
+        new PlaceTileCommand(level, layerId, coord, ruleSet.defaultTile, previousTile)
+      );
+    }
+
+    this.updateNeighborhood(ctx, layerId, ruleSet, coord);
+    editorState.markDirty();
+  }
+
+  /**
+   * Give every cell in the 3×3 block around a cell that holds one of the
+   * rule set's tiles its variant
+   */
+  private updateNeighborhood(
+    ctx: ToolContext,
+    layerId: string,
+    ruleSet: AutotileRuleSet,
+    center: GridCoord
+  ): void {
+    const { level, history } = ctx;
+
+    for (let dy = -1; dy <= 1; dy++) {
+      for (let dx = -1; dx <= 1; dx++) {
+        const coord = { x: center.x + dx, y: center.y + dy };
+        if (!level.isInBounds(coord)) continue;
+
+        const current = level.getTile(layerId, coord);
+        if (!current || !ruleSet.tileIds.has(current.tileId)) continue;
+
+        const mask = getAutotileMask(ruleSet, coord, (neighbor) =>
+          this.isTerrain(ctx, layerId, ruleSet, neighbor)
+        );
+        const tile = resolveAutotileTile(ruleSet, mask);
+        if (!isSameTile(current, tile)) {
+          history.execute(new PlaceTileCommand(level, layerId, coord, tile, current));
+        }
+      }
+    }
+  }
+
+  private isTerrain(
+    ctx: ToolContext,
+    layerId: string,
+    ruleSet: AutotileRuleSet,
+    coord: GridCoord
+  ): boolean {
+    if (!ctx.level.isInBounds(coord)) return true;
+    const tile = ctx.level.getTile(layerId, coord);
+    return tile !== null && ruleSet.members.has(tile.tileId);
+  }
+}
@@ -0,0 +1,86 @@
+/**
+ * Behavior tool for painting tile behaviors (blockers, doors, conveyors...)
+ */
+
+import { GridCoord, createTileBehavior, isSameBehavior } from '../../core/types';
+import { BaseTool, ToolContext } from './Tool';
+import { SetTileBehaviorCommand } from '../history/Command';
+
+/**
+ * BehaviorTool paints the behavior brush onto cells; the floor brush clears them
+ * (a whole stroke is one undo step). The first cell of a stroke becomes the
+ * inspected cell shown in the behavior properties panel.
+ */
+export class BehaviorTool extends BaseTool {
+  readonly type = 'behavior' as const;
+  readonly name = 'Behavior';
+  readonly description = 'Paint tile behaviors';
+  readonly shortcut = 'k';
+
+  onDeactivate(ctx: ToolContext): void {
+    this.endStroke(ctx);
+    super.onDeactivate(ctx);
+  }
+
+  onMouseDown(ctx: ToolContext, coord: GridCoord): void {
+    this.endStroke(ctx);
+    this.beginStroke(ctx);
+
+    if (ctx.level.isInBounds(coord)) {
+      ctx.editorState.setInspectedCoord({ ...coord });
+    }
+    this.paintBehavior(ctx, coord);
+  }
+
+  onMouseMove(ctx: ToolContext, coord: GridCoord, isPressed: boolean): void {
+    if (this.isDrawing && !isPressed) {
+      // Button was released outside the canvas
+      this.endStroke(ctx);
+    } else if (isPressed && this.isDrawing) {
+      if (this.hasCoordChanged(coord)) {
+        this.paintBehavior(ctx, coord);
+      }
+    }
+    this.updateLastCoord(coord);
+  }
+
+  onMouseUp(ctx: ToolContext, _coord: GridCoord): void {
+    this.endStroke(ctx);
+  }
+
+  getCursor(): string {
+    return 'cell';
+  }
+
+  /**
+   * Record the cells painted since mouse down as one undo step
+   */
+  private endStroke(ctx: ToolContext): void {
+    if (this.isDrawing) {
+      const { type } = ctx.editorState.behaviorBrush;
+      const count = ctx.history.transactionSize;
+      this.commitStroke(
+        ctx,
+        type === 'floor' ? `Clear behavior on ${count} cells` : `Paint ${type} on ${count} cells`
+      );
+    }
+    this.isDrawing = false;
+  }
+
+  private paintBehavior(ctx: ToolContext, coord: GridCoord): void {
+    const { level, editorState, history } = ctx;
+
+    // Check bounds
+    if (!level.isInBounds(coord)) return;
+
+    const brush = editorState.behaviorBrush;
+    const behavior = createTileBehavior(brush.type, brush);
+    const previousBehavior = level.getTileBehavior(coord);
+
+    // Skip if the cell already has this behavior
+    if (isSameBehavior(previousBehavior, behavior)) return;
+
+    history.execute(new SetTileBehaviorCommand(level, coord, behavior, previousBehavior));
+    editorState.markDirty();
+  }
+}
@@ -2,12 +2,21 @@
  * Brush tool for placing tiles
  */
 
-import { GridCoord } from '../../core/types';
+import { GridCoord, isSameTile } from '../../core/types';
+import { getBrushCoords, getBrushStrokeCoords } from '../../core/shapes';
+import { GhostTile } from '../../engine/Renderer';
 import { BaseTool, ToolContext } from './Tool';
 import { PlaceTileCommand } from '../history/Command';
 
 /**
  * BrushTool places tiles on the active layer
+ *
+ * - R / Shift+R rotates the tile about to be placed
+ * - F / V mirrors it horizontally / vertically
+ * - [ / ] shrinks / grows the footprint
+ * - In random mode each cell gets a tile from the weighted set
+ * - Paints the brush footprint (size and shape from the editor state) and
+ *   fills in the cells between mouse events
  */
 export class BrushTool extends BaseTool {
   readonly type = 'brush' as const;
@@ -23,42 +32,135 @@ export class BrushTool extends BaseTool {
   }
 
   onDeactivate(ctx: ToolContext): void {
+    this.endStroke(ctx);
     super.onDeactivate(ctx);
-    this.placedCoords.clear();
+    ctx.renderer.setHoverPreview(null);
+    ctx.renderer.setGhostTiles([]);
+    ctx.renderer.setSelectedCoords([]);
   }
 
   onMouseDown(ctx: ToolContext, coord: GridCoord): void {
-    this.isDrawing = true;
-    this.placedCoords.clear();
-    this.placeTile(ctx, coord);
+    this.endStroke(ctx);
+    this.beginStroke(ctx);
+    this.paintStroke(ctx, coord, coord);
+    this.updateLastCoord(coord);
   }
 
   onMouseMove(ctx: ToolContext, coord: GridCoord, isPressed: boolean): void {
-    if (isPressed && this.isDrawing) {
+    if (this.isDrawing && !isPressed) {
+      // Button was released outside the canvas
+      this.endStroke(ctx);
+    } else if (isPressed && this.isDrawing) {
       // Only place if coordinate changed
       if (this.hasCoordChanged(coord)) {
-        this.placeTile(ctx, coord);
+        this.paintStroke(ctx, this.lastCoord ?? coord, coord);
       }
     }
     this.updateLastCoord(coord);
+    this.updateHoverPreview(ctx);
   }
 
-  onMouseUp(_ctx: ToolContext, _coord: GridCoord): void {
-    this.isDrawing = false;
-    this.placedCoords.clear();
+  onMouseUp(ctx: ToolContext, _coord: GridCoord): void {
+    this.endStroke(ctx);
+  }
+
+  onKeyDown(ctx: ToolContext, e: KeyboardEvent): boolean {
+    if (e.ctrlKey || e.metaKey || e.altKey) return false;
+
+    switch (e.key.toLowerCase()) {
+      case 'r':
+        ctx.editorState.rotateTileOrientation(e.shiftKey ? -1 : 1);
+        break;
+      case 'f':
+        ctx.editorState.flipTileOrientation('x');
+        break;
+      case 'v':
+        ctx.editorState.flipTileOrientation('y');
+        break;
+      case '[':
+        ctx.editorState.setBrushSize(ctx.editorState.brushSize - 1);
+        break;
+      case ']':
+        ctx.editorState.setBrushSize(ctx.editorState.brushSize + 1);
+        break;
+      default:
+        return false;
+    }
+
+    this.updateHoverPreview(ctx);
+    return true;
   }
 
   getCursor(): string {
     return 'crosshair';
   }
 
+  /**
+   * Record the tiles placed since mouse down as one undo step
+   */
+  private endStroke(ctx: ToolContext): void {
+    if (this.isDrawing) {
+      const { brushMode, selectedTileId } = ctx.editorState;
+      const count = ctx.history.transactionSize;
+      this.commitStroke(
+        ctx,
+        brushMode === 'random'
+          ? `Random brush stroke (${count} tiles)`
+          : `Brush stroke (${count} tiles) with tile ${selectedTileId}`
+      );
+    }
+    this.placedCoords.clear();
+  }
+
+  /**
+   * Preview the tile under the cursor, plus ghost tiles and an outline for
+   * the rest of a larger footprint
+   */
+  private updateHoverPreview(ctx: ToolContext): void {
+    const { level, editorState, renderer } = ctx;
+    const layerId = editorState.activeLayerId ?? undefined;
+    renderer.setHoverPreview(editorState.getPlacementTile(this.lastCoord ?? undefined), layerId);
+
+    const center = this.lastCoord;
+    if (!center || editorState.brushSize <= 1) {
+      renderer.setGhostTiles([]);
+      renderer.setSelectedCoords([]);
+      return;
+    }
+
+    const footprint = getBrushCoords(center, editorState.brushSize, editorState.brushShape).filter(
+      (coord) => level.isInBounds(coord)
+    );
+    const ghosts: GhostTile[] = [];
+    for (const coord of footprint) {
+      if (coord.x === center.x && coord.y === center.y) continue;
+      const tile = editorState.getPlacementTile(coord);
+      if (tile) ghosts.push({ coord, tile, layerId });
+    }
+    renderer.setGhostTiles(ghosts);
+    renderer.setSelectedCoords(footprint);
+  }
+
+  /**
+   * Paint the footprint along the line between two cells
+   */
+  private paintStroke(ctx: ToolContext, from: GridCoord, to: GridCoord): void {
+    const { brushSize, brushShape } = ctx.editorState;
+    for (const coord of getBrushStrokeCoords(from, to, brushSize, brushShape)) {
+      this.placeTile(ctx, coord);
+    }
+  }
+
   private placeTile(ctx: ToolContext, coord: GridCoord): void {
     const { level, editorState, history } = ctx;
     const layerId = editorState.activeLayerId;
-    const tileId = editorState.selectedTileId;
+    const tile = editorState.getPlacementTile(coord);
 
     // Need active layer and selected tile
-    if (!layerId || tileId === null) return;
+    if (!layerId || !tile) return;
+
+    // Respect locked layers
+    if (level.getLayer(layerId)?.config.locked) return;
 
     // Check bounds
     if (!level.isInBounds(coord)) return;
@@ -72,14 +174,14 @@ export class BrushTool extends BaseTool {
     const previousTile = level.getTile(layerId, coord);
 
     // Skip if same tile already there
-    if (previousTile?.tileId === tileId) return;
+    if (isSameTile(previousTile, tile)) return;
 
     // Create and execute command
     const command = new PlaceTileCommand(
       level,
       layerId,
       coord,
-      { tileId },
+      tile,
       previousTile
     );
 
@@ -0,0 +1,88 @@
+/**
+ * Elevation tool for raising and lowering terrain cells
+ */
+
+import { GridCoord } from '../../core/types';
+import { MAX_ELEVATION } from '../../core/constants';
+import { BaseTool, ToolContext } from './Tool';
+import { SetElevationCommand } from '../history/Command';
+
+/**
+ * ElevationTool raises or lowers each cell under the stroke by one unit
+ * (a whole stroke is one undo step)
+ */
+export class ElevationTool extends BaseTool {
+  readonly type = 'elevation' as const;
+  readonly name = 'Elevation';
+  readonly description = 'Raise or lower terrain cells';
+  readonly shortcut = 't';
+
+  private changedCoords = new Set<string>();
+
+  onActivate(ctx: ToolContext): void {
+    super.onActivate(ctx);
+    this.changedCoords.clear();
+  }
+
+  onDeactivate(ctx: ToolContext): void {
+    this.endStroke(ctx);
+    super.onDeactivate(ctx);
+  }
+
+  onMouseDown(ctx: ToolContext, coord: GridCoord): void {
+    this.endStroke(ctx);
+    this.beginStroke(ctx);
+    this.adjustElevation(ctx, coord);
+  }
+
+  onMouseMove(ctx: ToolContext, coord: GridCoord, isPressed: boolean): void {
+    if (this.isDrawing && !isPressed) {
+      // Button was released outside the canvas
+      this.endStroke(ctx);
+    } else if (isPressed && this.isDrawing) {
+      if (this.hasCoordChanged(coord)) {
+        this.adjustElevation(ctx, coord);
+      }
+    }
+    this.updateLastCoord(coord);
+  }
+
+  onMouseUp(ctx: ToolContext, _coord: GridCoord): void {
+    this.endStroke(ctx);
+  }
+
+  getCursor(): string {
+    return 'ns-resize';
+  }
+
+  /**
+   * Record the cells changed since mouse down as one undo step
+   */
+  private endStroke(ctx: ToolContext): void {
+    if (this.isDrawing) {
+      const verb = ctx.editorState.elevationMode === 'raise' ? 'Raise' : 'Lower';
+      this.commitStroke(ctx, `${verb} ${ctx.history.transactionSize} cells`);
+    }
+    this.changedCoords.clear();
+  }
+
+  private adjustElevation(ctx: ToolContext, coord: GridCoord): void {
+    const { level, editorState, history } = ctx;
+
+    // Check bounds
+    if (!level.isInBounds(coord)) return;
+
+    // Each cell changes at most once per stroke
+    const coordKey = `${coord.x},${coord.y}`;
+    if (this.changedCoords.has(coordKey)) return;
+    this.changedCoords.add(coordKey);
+
+    const previousHeight = level.getElevation(coord);
+    const step = editorState.elevationMode === 'raise' ? 1 : -1;
+    const newHeight = Math.max(0, Math.min(MAX_ELEVATION, previousHeight + step));
+    if (newHeight === previousHeight) return;
+
+    history.execute(new SetElevationCommand(level, coord, newHeight, previousHeight));
+    editorState.markDirty();
+  }
+}
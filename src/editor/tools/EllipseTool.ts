@@ -0,0 +1,21 @@
+/**
+ * Ellipse tool for drawing filled or outlined ellipses
+ */
+
+import { GridCoord, ShapeFillMode } from '../../core/types';
+import { getEllipseCoords } from '../../core/shapes';
+import { ShapeTool } from './ShapeTool';
+
+/**
+ * EllipseTool draws an ellipse inscribed in the drag rectangle
+ */
+export class EllipseTool extends ShapeTool {
+  readonly type = 'ellipse' as const;
+  readonly name = 'Ellipse';
+  readonly description = 'Drag to draw an ellipse of tiles';
+  readonly shortcut = 'o';
+
+  protected getShapeCoords(start: GridCoord, end: GridCoord, fillMode: ShapeFillMode): GridCoord[] {
+    return getEllipseCoords(start, end, fillMode === 'filled');
+  }
+}
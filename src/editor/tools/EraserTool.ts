@@ -3,11 +3,14 @@
  */
 
 import { GridCoord } from '../../core/types';
+import { getBrushCoords, getBrushStrokeCoords } from '../../core/shapes';
 import { BaseTool, ToolContext } from './Tool';
 import { RemoveTileCommand } from '../history/Command';
 
 /**
  * EraserTool removes tiles from the active layer
+ * It uses the brush footprint ([ / ] to resize) and fills in the cells
+ * between mouse events.
  */
 export class EraserTool extends BaseTool {
   readonly type = 'eraser' as const;
@@ -23,34 +26,95 @@ export class EraserTool extends BaseTool {
   }
 
   onDeactivate(ctx: ToolContext): void {
+    this.endStroke(ctx);
     super.onDeactivate(ctx);
-    this.erasedCoords.clear();
+    ctx.renderer.setSelectedCoords([]);
   }
 
   onMouseDown(ctx: ToolContext, coord: GridCoord): void {
-    this.isDrawing = true;
-    this.erasedCoords.clear();
-    this.eraseTile(ctx, coord);
+    this.endStroke(ctx);
+    this.beginStroke(ctx);
+    this.eraseStroke(ctx, coord, coord);
+    this.updateLastCoord(coord);
   }
 
   onMouseMove(ctx: ToolContext, coord: GridCoord, isPressed: boolean): void {
-    if (isPressed && this.isDrawing) {
+    if (this.isDrawing && !isPressed) {
+      // Button was released outside the canvas
+      this.endStroke(ctx);
+    } else if (isPressed && this.isDrawing) {
       if (this.hasCoordChanged(coord)) {
-        this.eraseTile(ctx, coord);
+        this.eraseStroke(ctx, this.lastCoord ?? coord, coord);
       }
     }
     this.updateLastCoord(coord);
+    this.updatePreview(ctx);
   }
 
-  onMouseUp(_ctx: ToolContext, _coord: GridCoord): void {
-    this.isDrawing = false;
-    this.erasedCoords.clear();
+  onMouseUp(ctx: ToolContext, _coord: GridCoord): void {
+    this.endStroke(ctx);
+  }
+
+  onKeyDown(ctx: ToolContext, e: KeyboardEvent): boolean {
+    if (e.ctrlKey || e.metaKey || e.altKey) return false;
+
+    switch (e.key) {
+      case '[':
+        ctx.editorState.setBrushSize(ctx.editorState.brushSize - 1);
+        break;
+      case ']':
+        ctx.editorState.setBrushSize(ctx.editorState.brushSize + 1);
+        break;
+      default:
+        return false;
+    }
+
+    this.updatePreview(ctx);
+    return true;
   }
 
   getCursor(): string {
     return 'crosshair';
   }
 
+  /**
+   * Record the tiles erased since mouse down as one undo step
+   */
+  private endStroke(ctx: ToolContext): void {
+    if (this.isDrawing) {
+      this.commitStroke(ctx, `Erase stroke (${ctx.history.transactionSize} tiles)`);
+    }
+    this.erasedCoords.clear();
+  }
+
+  /**
+   * Outline every cell the eraser would clear at the cursor
+   */
+  private updatePreview(ctx: ToolContext): void {
+    const { level, editorState, renderer } = ctx;
+    if (!this.lastCoord) {
+      renderer.setSelectedCoords([]);
+      return;
+    }
+
+    const { brushSize, brushShape } = editorState;
+    renderer.setSelectedCoords(
+      getBrushCoords(this.lastCoord, brushSize, brushShape).filter((coord) =>
+        level.isInBounds(coord)
+      )
+    );
+  }
+
+  /**
+   * Erase the footprint along the line between two cells
+   */
+  private eraseStroke(ctx: ToolContext, from: GridCoord, to: GridCoord): void {
+    const { brushSize, brushShape } = ctx.editorState;
+    for (const coord of getBrushStrokeCoords(from, to, brushSize, brushShape)) {
+      this.eraseTile(ctx, coord);
+    }
+  }
+
   private eraseTile(ctx: ToolContext, coord: GridCoord): void {
     const { level, editorState, history } = ctx;
     const layerId = editorState.activeLayerId;
@@ -58,6 +122,9 @@ export class EraserTool extends BaseTool {
     // Need active layer
     if (!layerId) return;
 
+    // Respect locked layers
+    if (level.getLayer(layerId)?.config.locked) return;
+
     // Check bounds
     if (!level.isInBounds(coord)) return;
 
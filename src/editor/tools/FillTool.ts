@@ -0,0 +1,114 @@
+/**
+ * Fill tool for flood-filling contiguous regions
+ */
+
+import { GridCoord, TileId, toPositionKey, PositionKey, isSameTile } from '../../core/types';
+import { Level } from '../../level/Level';
+import { BaseTool, ToolContext } from './Tool';
+import { BatchTileCommand, PlaceTileCommand } from '../history/Command';
+
+/** 4-way neighbour offsets used for the flood fill */
+const NEIGHBOR_OFFSETS: ReadonlyArray<GridCoord> = [
+  { x: 1, y: 0 },
+  { x: -1, y: 0 },
+  { x: 0, y: 1 },
+  { x: 0, y: -1 },
+];
+
+/**
+ * FillTool replaces a contiguous region of matching tiles on the active layer
+ */
+export class FillTool extends BaseTool {
+  readonly type = 'fill' as const;
+  readonly name = 'Fill';
+  readonly description = 'Flood-fill a contiguous region of matching tiles';
+  readonly shortcut = 'g';
+
+  onMouseDown(ctx: ToolContext, coord: GridCoord): void {
+    this.fill(ctx, coord);
+  }
+
+  onMouseMove(_ctx: ToolContext, coord: GridCoord, _isPressed: boolean): void {
+    this.updateLastCoord(coord);
+  }
+
+  onMouseUp(_ctx: ToolContext, _coord: GridCoord): void {
+    // Fill is applied on mouse down
+  }
+
+  getCursor(): string {
+    return 'crosshair';
+  }
+
+  private fill(ctx: ToolContext, start: GridCoord): void {
+    const { level, editorState, history } = ctx;
+    const layerId = editorState.activeLayerId;
+    const tile = editorState.getPlacementTile();
+
+    // Need active layer and selected tile
+    if (!layerId || !tile) return;
+
+    // Respect locked layers
+    const layer = level.getLayer(layerId);
+    if (!layer || layer.config.locked) return;
+
+    // Check bounds
+    if (!level.isInBounds(start)) return;
+
+    // Nothing to do if the region already uses the selected tile
+    const startTile = layer.getTile(start);
+    if (isSameTile(startTile, tile)) return;
+
+    const region = FillTool.findRegion(level, layerId, start, startTile?.tileId ?? null);
+    const commands = region.map(
+      (coord) => new PlaceTileCommand(level, layerId, coord, tile, layer.getTile(coord))
+    );
+    if (commands.length === 0) return;
+
+    history.execute(
+      new BatchTileCommand(
+        commands,
+        `Fill ${commands.length} tiles with tile ${tile.tileId} at (${start.x}, ${start.y})`
+      )
+    );
+    editorState.markDirty();
+  }
+
+  /**
+   * Collect the contiguous cells around a start coordinate whose tile ID matches
+   * the target (null matches empty cells)
+   */
+  static findRegion(
+    level: Level,
+    layerId: string,
+    start: GridCoord,
+    targetTileId: TileId | null
+  ): GridCoord[] {
+    const layer = level.getLayer(layerId);
+    if (!layer || !level.isInBounds(start)) return [];
+
+    const matches = (coord: GridCoord): boolean =>
+      (layer.getTile(coord)?.tileId ?? null) === targetTileId;
+
+    const region: GridCoord[] = [];
+    const visited = new Set<PositionKey>([toPositionKey(start)]);
+    const queue: GridCoord[] = [start];
+
+    // Iterate with a moving head index to keep large fills linear
+    for (let head = 0; head < queue.length; head++) {
+      const coord = queue[head]!;
+      if (!matches(coord)) continue;
+      region.push(coord);
+
+      for (const offset of NEIGHBOR_OFFSETS) {
+        const next = { x: coord.x + offset.x, y: coord.y + offset.y };
+        const key = toPositionKey(next);
+        if (visited.has(key) || !level.isInBounds(next)) continue;
+        visited.add(key);
+        queue.push(next);
+      }
+    }
+
+    return region;
+  }
+}
@@ -0,0 +1,21 @@
+/**
+ * Line tool for drawing straight lines of tiles
+ */
+
+import { GridCoord } from '../../core/types';
+import { getLineCoords } from '../../core/shapes';
+import { ShapeTool } from './ShapeTool';
+
+/**
+ * LineTool draws a Bresenham line between the drag start and end cells
+ */
+export class LineTool extends ShapeTool {
+  readonly type = 'line' as const;
+  readonly name = 'Line';
+  readonly description = 'Drag to draw a straight line of tiles';
+  readonly shortcut = 'l';
+
+  protected getShapeCoords(start: GridCoord, end: GridCoord): GridCoord[] {
+    return getLineCoords(start, end);
+  }
+}
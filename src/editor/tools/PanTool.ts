@@ -0,0 +1,36 @@
+/**
+ * Pan tool for dragging the view
+ */
+
+import { GridCoord } from '../../core/types';
+import { BaseTool, ToolContext } from './Tool';
+
+/**
+ * PanTool marks left-drag as view panning
+ *
+ * Panning works in screen space, so the Editor performs the drag itself
+ * while this tool is active. The Editor also pans on middle-mouse drag
+ * and while Space is held, whatever tool is active.
+ */
+export class PanTool extends BaseTool {
+  readonly type = 'pan' as const;
+  readonly name = 'Pan';
+  readonly description = 'Drag to move the view';
+  readonly shortcut = 'h';
+
+  onMouseDown(_ctx: ToolContext, _coord: GridCoord): void {
+    // Handled by the Editor in screen space
+  }
+
+  onMouseMove(_ctx: ToolContext, coord: GridCoord, _isPressed: boolean): void {
+    this.updateLastCoord(coord);
+  }
+
+  onMouseUp(_ctx: ToolContext, _coord: GridCoord): void {
+    // Handled by the Editor in screen space
+  }
+
+  getCursor(): string {
+    return 'grab';
+  }
+}
@@ -0,0 +1,70 @@
+/**
+ * Picker (eyedropper) tool for sampling placed tiles
+ */
+
+import { GridCoord, TileData } from '../../core/types';
+import { BaseTool, ToolContext } from './Tool';
+
+/**
+ * PickerTool selects the tile under the cursor, including its orientation
+ */
+export class PickerTool extends BaseTool {
+  readonly type = 'picker' as const;
+  readonly name = 'Picker';
+  readonly description = 'Pick a placed tile to paint with';
+  readonly shortcut = 'i';
+
+  onMouseDown(ctx: ToolContext, coord: GridCoord): void {
+    this.isDrawing = true;
+    PickerTool.pick(ctx, coord);
+  }
+
+  onMouseMove(ctx: ToolContext, coord: GridCoord, isPressed: boolean): void {
+    // Keep sampling while dragging
+    if (isPressed && this.isDrawing && this.hasCoordChanged(coord)) {
+      PickerTool.pick(ctx, coord);
+    }
+    this.updateLastCoord(coord);
+  }
+
+  onMouseUp(_ctx: ToolContext, _coord: GridCoord): void {
+    this.isDrawing = false;
+  }
+
+  getCursor(): string {
+    return 'copy';
+  }
+
+  /**
+   * Sample the tile at a coordinate and make it the selected tile
+   * Returns the picked tile, or null if there was nothing to pick
+   */
+  static pick(ctx: ToolContext, coord: GridCoord): { tile: TileData; layerId: string } | null {
+    const { level, editorState } = ctx;
+    const { source, switchLayer } = editorState.pickerOptions;
+
+    let picked: { tile: TileData; layerId: string } | null = null;
+    if (source === 'top') {
+      picked = level.getTopTileAt(coord);
+    } else if (editorState.activeLayerId) {
+      const tile = level.getTile(editorState.activeLayerId, coord);
+      picked = tile ? { tile, layerId: editorState.activeLayerId } : null;
+    }
+
+    if (!picked) return null;
+
+    const { tile, layerId } = picked;
+    editorState.setSelectedTile(tile.tileId);
+    editorState.setTileOrientation({
+      rotation: tile.rotation,
+      flipX: tile.flipX,
+      flipY: tile.flipY,
+    });
+    if (switchLayer) {
+      editorState.setActiveLayer(layerId);
+    }
+    editorState.notifyTilePicked(tile, layerId);
+
+    return picked;
+  }
+}
@@ -0,0 +1,21 @@
+/**
+ * Rectangle tool for drawing filled or outlined rectangles
+ */
+
+import { GridCoord, ShapeFillMode } from '../../core/types';
+import { getRectangleCoords } from '../../core/shapes';
+import { ShapeTool } from './ShapeTool';
+
+/**
+ * RectangleTool draws a rectangle spanned by the drag start and end cells
+ */
+export class RectangleTool extends ShapeTool {
+  readonly type = 'rectangle' as const;
+  readonly name = 'Rectangle';
+  readonly description = 'Drag to draw a rectangle of tiles';
+  readonly shortcut = 'u';
+
+  protected getShapeCoords(start: GridCoord, end: GridCoord, fillMode: ShapeFillMode): GridCoord[] {
+    return getRectangleCoords(start, end, fillMode === 'filled');
+  }
+}
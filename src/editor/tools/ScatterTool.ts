@@ -0,0 +1,200 @@
+/**
+ * Scatter tool for sprinkling props over an area
+ */
+
+import { GridCoord, TileData, TileRotation, createTileData } from '../../core/types';
+import { getCircleCoords, getRectangleCoords } from '../../core/shapes';
+import { SeededRandom } from '../../core/random';
+import { BaseTool, ToolContext } from './Tool';
+import type { SelectTool } from './SelectTool';
+import { BatchTileCommand, PlaceTileCommand } from '../history/Command';
+import { getBoundsCoords } from '../Clipboard';
+
+const ROTATIONS: TileRotation[] = [0, 90, 180, 270];
+
+/**
+ * ScatterTool places tiles from the weighted set (or the selected tile when the
+ * set is empty) on a share of the empty cells of the active layer
+ *
+ * - Radius area: click or drag to scatter around the cursor (one undo step per stroke)
+ * - Selection area: click to scatter inside the Select tool's selection, or
+ *   when nothing is selected, drag a marquee and release to scatter inside it
+ *
+ * Whether a cell gets a tile, which tile and its rotation depend only on the
+ * random seed and the cell, so repeating a scatter with the same seed gives
+ * the same result.
+ */
+export class ScatterTool extends BaseTool {
+  readonly type = 'scatter' as const;
+  readonly name = 'Scatter';
+  readonly description = 'Sprinkle random tiles over an area';
+  readonly shortcut = 'p';
+
+  private startCoord: GridCoord | null = null;
+
+  constructor(private selectTool: SelectTool) {
+    super();
+  }
+
+  onActivate(ctx: ToolContext): void {
+    super.onActivate(ctx);
+    this.startCoord = null;
+  }
+
+  onDeactivate(ctx: ToolContext): void {
+    this.endStroke(ctx);
+    super.onDeactivate(ctx);
+    ctx.renderer.setSelectedCoords([]);
+  }
+
+  onMouseDown(ctx: ToolContext, coord: GridCoord): void {
+    this.endStroke(ctx);
+
+    if (ctx.editorState.scatterOptions.area === 'selection') {
+      const selection = this.selectTool.getSelection();
+      if (selection) {
+        this.scatterArea(ctx, getBoundsCoords(selection));
+        return;
+      }
+
+      this.isDrawing = true;
+      this.startCoord = { ...coord };
+      this.updatePreview(ctx, coord);
+      return;
+    }
+
+    this.beginStroke(ctx);
+    this.scatter(ctx, this.getRadiusCoords(ctx, coord));
+  }
+
+  onMouseMove(ctx: ToolContext, coord: GridCoord, isPressed: boolean): void {
+    if (this.isDrawing && !isPressed) {
+      // Button was released outside the canvas
+      this.endStroke(ctx);
+    } else if (isPressed && this.isDrawing && this.hasCoordChanged(coord) && !this.startCoord) {
+      this.scatter(ctx, this.getRadiusCoords(ctx, coord));
+    }
+    this.updateLastCoord(coord);
+    this.updatePreview(ctx, coord);
+  }
+
+  onMouseUp(ctx: ToolContext, coord: GridCoord): void {
+    if (this.isDrawing && this.startCoord) {
+      const coords = this.getAreaCoords(ctx, this.startCoord, coord);
+      this.startCoord = null;
+      this.isDrawing = false;
+      this.scatterArea(ctx, coords);
+      this.updatePreview(ctx, coord);
+      return;
+    }
+    this.endStroke(ctx);
+  }
+
+  getCursor(): string {
+    return 'crosshair';
+  }
+
+  /**
+   * Record the tiles scattered since mouse down as one undo step
+   * (a marquee released outside the canvas is dropped)
+   */
+  private endStroke(ctx: ToolContext): void {
+    if (this.isDrawing && !this.startCoord) {
+      this.commitStroke(ctx, `Scatter (${ctx.history.transactionSize} tiles)`);
+    }
+    this.isDrawing = false;
+    this.startCoord = null;
+  }
+
+  /**
+   * Show the cells the next scatter covers: the marquee while dragging one,
+   * otherwise the selection or the circle around the cursor
+   */
+  private updatePreview(ctx: ToolContext, coord: GridCoord): void {
+    const { area } = ctx.editorState.scatterOptions;
+    const selection = this.selectTool.getSelection();
+    if (this.startCoord) {
+      ctx.renderer.setSelectedCoords(this.getAreaCoords(ctx, this.startCoord, coord));
+    } else if (area === 'radius') {
+      ctx.renderer.setSelectedCoords(this.getRadiusCoords(ctx, coord));
+    } else {
+      ctx.renderer.setSelectedCoords(selection ? getBoundsCoords(selection) : []);
+    }
+  }
+
+  private getRadiusCoords(ctx: ToolContext, center: GridCoord): GridCoord[] {
+    const { radius } = ctx.editorState.scatterOptions;
+    return getCircleCoords(center, radius).filter((coord) => ctx.level.isInBounds(coord));
+  }
+
+  private getAreaCoords(ctx: ToolContext, start: GridCoord, end: GridCoord): GridCoord[] {
+    return getRectangleCoords(start, end, true).filter((coord) => ctx.level.isInBounds(coord));
+  }
+
+  /**
+   * Scatter inside a marquee as a single batch
+   */
+  private scatterArea(ctx: ToolContext, coords: GridCoord[]): void {
+    const commands = this.getScatterCommands(ctx, coords);
+    if (commands.length === 0) return;
+
+    ctx.history.execute(new BatchTileCommand(commands, `Scatter (${commands.length} tiles)`));
+    ctx.editorState.markDirty();
+  }
+
+  /**
+   * Scatter around the cursor as part of the current stroke
+   */
+  private scatter(ctx: ToolContext, coords: GridCoord[]): void {
+    const commands = this.getScatterCommands(ctx, coords);
+    for (const command of commands) {
+      ctx.history.execute(command);
+    }
+    if (commands.length > 0) {
+      ctx.editorState.markDirty();
+    }
+  }
+
+  private getScatterCommands(ctx: ToolContext, coords: GridCoord[]): PlaceTileCommand[] {
+    const { level, editorState } = ctx;
+    const layerId = editorState.activeLayerId;
+
+    // Need active layer
+    if (!layerId) return [];
+
+    // Respect locked layers
+    const layer = level.getLayer(layerId);
+    if (!layer || layer.config.locked) return [];
+
+    const commands: PlaceTileCommand[] = [];
+    for (const coord of coords) {
+      // Only empty cells receive tiles
+      if (layer.getTile(coord)) continue;
+
+      const tile = this.rollTile(ctx, coord);
+      if (tile) {
+        commands.push(new PlaceTileCommand(level, layerId, coord, tile, null));
+      }
+    }
+    return commands;
+  }
+
+  /**
+   * Decide whether a cell gets a tile, and which
+   */
+  private rollTile(ctx: ToolContext, coord: GridCoord): TileData | null {
+    const { editorState } = ctx;
+    const { density, randomRotation } = editorState.scatterOptions;
+    const random = SeededRandom.forCell(editorState.randomSeed, coord);
+    if (!random.chance(density)) return null;
+
+    const tileId = editorState.pickWeightedTile(coord, random) ?? editorState.selectedTileId;
+    if (tileId === null) return null;
+
+    const orientation = editorState.tileOrientation;
+    return createTileData(
+      tileId,
+      randomRotation ? { ...orientation, rotation: ROTATIONS[random.nextInt(4)] } : orientation
+    );
+  }
+}
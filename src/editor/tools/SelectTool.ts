@@ -0,0 +1,362 @@
+/**
+ * Selection tool for marquee selection, clipboard operations and moving regions
+ */
+
+import { GridBounds, GridCoord } from '../../core/types';
+import { getBoundsFromCorners } from '../../core/shapes';
+import { GhostTile } from '../../engine/Renderer';
+import { BaseTool, ToolContext } from './Tool';
+import { BatchTileCommand } from '../history/Command';
+import {
+  ClipboardData,
+  copyRegion,
+  createClearRegionCommands,
+  createPasteCommands,
+  getBoundsCoords,
+  getClipboardSize,
+  getScopeLayerIds,
+  isInsideBounds,
+  resolvePasteLayerId,
+} from '../Clipboard';
+
+type DragMode = 'none' | 'marquee' | 'move';
+
+/**
+ * SelectTool selects a rectangular region across the active layer or all layers
+ *
+ * - Drag to select, drag inside the selection to move it
+ * - Ctrl+C / Ctrl+X / Ctrl+V to copy, cut and paste (click to drop the paste)
+ * - Delete to clear the selection, Escape to cancel
+ * - The selection is kept while other tools are active (Scatter fills it)
+ */
+export class SelectTool extends BaseTool {
+  readonly type = 'select' as const;
+  readonly name = 'Select';
+  readonly description = 'Select, copy, cut, paste and move regions';
+  readonly shortcut = 'm';
+
+  private selection: GridBounds | null = null;
+  private clipboard: ClipboardData | null = null;
+  private floating: ClipboardData | null = null;
+  private dragMode: DragMode = 'none';
+  private dragStart: GridCoord | null = null;
+  private moveData: ClipboardData | null = null;
+
+  onActivate(ctx: ToolContext): void {
+    super.onActivate(ctx);
+    this.reset(ctx);
+    this.setSelection(ctx, this.selection);
+  }
+
+  onDeactivate(ctx: ToolContext): void {
+    super.onDeactivate(ctx);
+    this.reset(ctx);
+  }
+
+  onMouseDown(ctx: ToolContext, coord: GridCoord): void {
+    // Drop a floating paste
+    if (this.floating) {
+      this.commitPaste(ctx, coord);
+      return;
+    }
+
+    this.dragStart = { ...coord };
+
+    if (this.selection && isInsideBounds(this.selection, coord)) {
+      // Start moving the selection contents
+      this.dragMode = 'move';
+      this.moveData = this.copySelection(ctx, this.selection);
+      this.updateMovePreview(ctx, coord);
+      return;
+    }
+
+    // Start a new marquee
+    this.dragMode = 'marquee';
+    this.setSelection(ctx, getBoundsFromCorners(coord, coord));
+  }
+
+  onMouseMove(ctx: ToolContext, coord: GridCoord, isPressed: boolean): void {
+    if (this.floating) {
+      this.updateFloatingPreview(ctx, coord);
+    } else if (this.dragMode !== 'none' && !isPressed) {
+      // Button was released outside the canvas
+      this.endDrag(ctx);
+    } else if (this.dragMode === 'marquee' && this.dragStart && this.hasCoordChanged(coord)) {
+      this.setSelection(ctx, getBoundsFromCorners(this.dragStart, coord));
+    } else if (this.dragMode === 'move' && this.hasCoordChanged(coord)) {
+      this.updateMovePreview(ctx, coord);
+    }
+    this.updateLastCoord(coord);
+  }
+
+  onMouseUp(ctx: ToolContext, coord: GridCoord): void {
+    if (this.dragMode === 'move' && this.dragStart) {
+      const delta = { x: coord.x - this.dragStart.x, y: coord.y - this.dragStart.y };
+      if (delta.x !== 0 || delta.y !== 0) {
+        this.commitMove(ctx, delta);
+      }
+    }
+    this.endDrag(ctx);
+  }
+
+  onKeyDown(ctx: ToolContext, e: KeyboardEvent): boolean {
+    const key = e.key.toLowerCase();
+    const isModifier = e.ctrlKey || e.metaKey;
+
+    if (isModifier && key === 'c') {
+      this.copy(ctx);
+      return true;
+    }
+    if (isModifier && key === 'x') {
+      this.cut(ctx);
+      return true;
+    }
+    if (isModifier && key === 'v') {
+      this.beginPaste(ctx);
+      return true;
+    }
+    if (key === 'escape') {
+      if (this.floating) {
+        this.cancelPaste(ctx);
+      } else {
+        this.setSelection(ctx, null);
+      }
+      return true;
+    }
+    if (key === 'delete' || key === 'backspace') {
+      this.deleteSelection(ctx);
+      return true;
+    }
+    return false;
+  }
+
+  getCursor(): string {
+    return 'crosshair';
+  }
+
+  /**
+   * Get the current selection bounds
+   */
+  getSelection(): GridBounds | null {
+    return this.selection;
+  }
+
+  /**
+   * Deselect, e.g. when a different level is loaded
+   */
+  deselect(ctx: ToolContext): void {
+    this.reset(ctx);
+    this.selection = null;
+  }
+
+  /**
+   * Get the current clipboard contents
+   */
+  getClipboard(): ClipboardData | null {
+    return this.clipboard;
+  }
+
+  /**
+   * Copy the selection to the clipboard
+   */
+  copy(ctx: ToolContext): void {
+    if (!this.selection) return;
+    this.clipboard = this.copySelection(ctx, this.selection);
+  }
+
+  /**
+   * Copy the selection to the clipboard and remove it from the level
+   */
+  cut(ctx: ToolContext): void {
+    if (!this.selection) return;
+    this.copy(ctx);
+    this.clearSelection(ctx, 'Cut selection');
+  }
+
+  /**
+   * Remove the selection contents from the level
+   */
+  deleteSelection(ctx: ToolContext): void {
+    this.clearSelection(ctx, 'Delete selection');
+  }
+
+  /**
+   * Start a floating paste of the clipboard that follows the cursor
+   */
+  beginPaste(ctx: ToolContext): void {
+    if (!this.clipboard) return;
+    this.floating = this.clipboard;
+    const anchor = ctx.editorState.hoveredCoord ?? this.lastCoord;
+    if (anchor) {
+      this.updateFloatingPreview(ctx, anchor);
+    }
+  }
+
+  private commitPaste(ctx: ToolContext, origin: GridCoord): void {
+    const data = this.floating;
+    if (!data) return;
+
+    const commands = createPasteCommands(
+      ctx.level,
+      data,
+      origin,
+      ctx.editorState.activeLayerId
+    );
+    this.floating = null;
+    ctx.renderer.setGhostTiles([]);
+
+    if (commands.length > 0) {
+      ctx.history.execute(
+        new BatchTileCommand(
+          commands,
+          `Paste ${getClipboardSize(data)} tiles at (${origin.x}, ${origin.y})`
+        )
+      );
+      ctx.editorState.markDirty();
+    }
+
+    this.setSelection(ctx, this.getDataBounds(data, origin));
+  }
+
+  private cancelPaste(ctx: ToolContext): void {
+    this.floating = null;
+    ctx.renderer.setGhostTiles([]);
+    this.refreshSelectionOverlay(ctx);
+  }
+
+  private commitMove(ctx: ToolContext, delta: GridCoord): void {
+    const selection = this.selection;
+    const data = this.moveData;
+    if (!selection || !data) return;
+
+    const { level, editorState, history } = ctx;
+    const layerIds = getScopeLayerIds(level, data.scope, editorState.activeLayerId);
+    const origin = { x: selection.minX + delta.x, y: selection.minY + delta.y };
+
+    const commands = [
+      ...createClearRegionCommands(level, selection, data.scope, layerIds),
+      ...createPasteCommands(level, data, origin, editorState.activeLayerId),
+    ];
+
+    if (commands.length > 0) {
+      history.execute(
+        new BatchTileCommand(commands, `Move selection by (${delta.x}, ${delta.y})`)
+      );
+      editorState.markDirty();
+    }
+
+    this.setSelection(ctx, this.getDataBounds(data, origin));
+  }
+
+  private clearSelection(ctx: ToolContext, description: string): void {
+    if (!this.selection) return;
+
+    const { level, editorState, history } = ctx;
+    const scope = editorState.selectionScope;
+    const layerIds = getScopeLayerIds(level, scope, editorState.activeLayerId);
+    const commands = createClearRegionCommands(level, this.selection, scope, layerIds);
+    if (commands.length === 0) return;
+
+    history.execute(new BatchTileCommand(commands, `${description} (${commands.length} tiles)`));
+    editorState.markDirty();
+  }
+
+  private copySelection(ctx: ToolContext, bounds: GridBounds): ClipboardData {
+    const { level, editorState } = ctx;
+    const scope = editorState.selectionScope;
+    const layerIds = getScopeLayerIds(level, scope, editorState.activeLayerId);
+    return copyRegion(level, bounds, scope, layerIds);
+  }
+
+  private setSelection(ctx: ToolContext, bounds: GridBounds | null): void {
+    this.selection = bounds ? this.clampToLevel(ctx, bounds) : null;
+    const coords = this.refreshSelectionOverlay(ctx);
+    ctx.editorState.notifySelectionChanged(coords);
+  }
+
+  private refreshSelectionOverlay(ctx: ToolContext): GridCoord[] {
+    const coords = this.selection ? getBoundsCoords(this.selection) : [];
+    ctx.renderer.setSelectedCoords(coords);
+    return coords;
+  }
+
+  private updateMovePreview(ctx: ToolContext, coord: GridCoord): void {
+    if (!this.selection || !this.moveData || !this.dragStart) return;
+    const origin = {
+      x: this.selection.minX + coord.x - this.dragStart.x,
+      y: this.selection.minY + coord.y - this.dragStart.y,
+    };
+    this.showDataPreview(ctx, this.moveData, origin);
+  }
+
+  private updateFloatingPreview(ctx: ToolContext, origin: GridCoord): void {
+    if (!this.floating) return;
+    this.showDataPreview(ctx, this.floating, origin);
+  }
+
+  private showDataPreview(ctx: ToolContext, data: ClipboardData, origin: GridCoord): void {
+    const activeLayerId = ctx.editorState.activeLayerId;
+    const ghosts: GhostTile[] = [];
+
+    for (const clipboardLayer of data.layers) {
+      const layerId = resolvePasteLayerId(data, clipboardLayer, activeLayerId);
+      for (const { offset, tile } of clipboardLayer.tiles) {
+        ghosts.push({
+          coord: { x: origin.x + offset.x, y: origin.y + offset.y },
+          tile,
+          layerId,
+        });
+      }
+    }
+
+    ctx.renderer.setGhostTiles(ghosts);
+    ctx.renderer.setSelectedCoords(
+      getBoundsCoords(this.getDataBounds(data, origin)).filter((coord) =>
+        ctx.level.isInBounds(coord)
+      )
+    );
+  }
+
+  private endDrag(ctx: ToolContext): void {
+    this.dragMode = 'none';
+    this.dragStart = null;
+    this.moveData = null;
+    ctx.renderer.setGhostTiles([]);
+    this.refreshSelectionOverlay(ctx);
+  }
+
+  private getDataBounds(data: ClipboardData, origin: GridCoord): GridBounds {
+    return {
+      minX: origin.x,
+      minY: origin.y,
+      maxX: origin.x + data.width - 1,
+      maxY: origin.y + data.height - 1,
+    };
+  }
+
+  private clampToLevel(ctx: ToolContext, bounds: GridBounds): GridBounds | null {
+    const clamped = {
+      minX: Math.max(0, bounds.minX),
+      minY: Math.max(0, bounds.minY),
+      maxX: Math.min(ctx.level.gridWidth - 1, bounds.maxX),
+      maxY: Math.min(ctx.level.gridHeight - 1, bounds.maxY),
+    };
+    if (clamped.minX > clamped.maxX || clamped.minY > clamped.maxY) {
+      return null;
+    }
+    return clamped;
+  }
+
+  /**
+   * Drop a paste or drag in progress and hide the overlays (the selection is kept)
+   */
+  private reset(ctx: ToolContext): void {
+    this.floating = null;
+    this.dragMode = 'none';
+    this.dragStart = null;
+    this.moveData = null;
+    ctx.renderer.setGhostTiles([]);
+    ctx.renderer.setSelectedCoords([]);
+    ctx.editorState.notifySelectionChanged([]);
+  }
+}
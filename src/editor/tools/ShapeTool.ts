@@ -0,0 +1,112 @@
+/**
+ * Base class for drag-to-draw shape tools
+ */
+
+import { GridCoord, ShapeFillMode, isSameTile } from '../../core/types';
+import { BaseTool, ToolContext } from './Tool';
+import { BatchTileCommand, PlaceTileCommand } from '../history/Command';
+
+/**
+ * ShapeTool previews a shape between the mouse-down and current cell,
+ * and commits it as a single batch on mouse up
+ */
+export abstract class ShapeTool extends BaseTool {
+  private startCoord: GridCoord | null = null;
+
+  /**
+   * Compute the cells covered by the shape between two corners
+   */
+  protected abstract getShapeCoords(
+    start: GridCoord,
+    end: GridCoord,
+    fillMode: ShapeFillMode
+  ): GridCoord[];
+
+  onActivate(ctx: ToolContext): void {
+    super.onActivate(ctx);
+    this.cancelShape(ctx);
+  }
+
+  onDeactivate(ctx: ToolContext): void {
+    super.onDeactivate(ctx);
+    this.cancelShape(ctx);
+  }
+
+  onMouseDown(ctx: ToolContext, coord: GridCoord): void {
+    this.isDrawing = true;
+    this.startCoord = { ...coord };
+    this.updatePreview(ctx, coord);
+  }
+
+  onMouseMove(ctx: ToolContext, coord: GridCoord, isPressed: boolean): void {
+    if (this.isDrawing && !isPressed) {
+      // Button was released outside the canvas
+      this.cancelShape(ctx);
+    } else if (this.isDrawing && this.hasCoordChanged(coord)) {
+      this.updatePreview(ctx, coord);
+    }
+    this.updateLastCoord(coord);
+  }
+
+  onMouseUp(ctx: ToolContext, coord: GridCoord): void {
+    if (!this.isDrawing || !this.startCoord) return;
+
+    const coords = this.getCoordsInBounds(ctx, this.startCoord, coord);
+    this.cancelShape(ctx);
+    this.commitShape(ctx, coords);
+  }
+
+  getCursor(): string {
+    return 'crosshair';
+  }
+
+  private updatePreview(ctx: ToolContext, end: GridCoord): void {
+    if (!this.startCoord) return;
+    ctx.renderer.setSelectedCoords(this.getCoordsInBounds(ctx, this.startCoord, end));
+  }
+
+  private cancelShape(ctx: ToolContext): void {
+    this.isDrawing = false;
+    this.startCoord = null;
+    ctx.renderer.setSelectedCoords([]);
+  }
+
+  private getCoordsInBounds(ctx: ToolContext, start: GridCoord, end: GridCoord): GridCoord[] {
+    return this.getShapeCoords(start, end, ctx.editorState.shapeFillMode).filter((coord) =>
+      ctx.level.isInBounds(coord)
+    );
+  }
+
+  private commitShape(ctx: ToolContext, coords: GridCoord[]): void {
+    const { level, editorState, history } = ctx;
+    const layerId = editorState.activeLayerId;
+    const tile = editorState.getPlacementTile();
+
+    // Need active layer and selected tile
+    if (!layerId || !tile) return;
+
+    // Respect locked layers
+    const layer = level.getLayer(layerId);
+    if (!layer || layer.config.locked) return;
+
+    const commands: PlaceTileCommand[] = [];
+    for (const coord of coords) {
+      const previousTile = layer.getTile(coord);
+
+      // Skip if same tile already there
+      if (isSameTile(previousTile, tile)) continue;
+
+      commands.push(new PlaceTileCommand(level, layerId, coord, tile, previousTile));
+    }
+
+    if (commands.length === 0) return;
+
+    history.execute(
+      new BatchTileCommand(
+        commands,
+        `${this.name} (${commands.length} tiles) with tile ${tile.tileId}`
+      )
+    );
+    editorState.markDirty();
+  }
+}
@@ -0,0 +1,141 @@
+/**
+ * Stamp tool for placing saved multi-tile regions
+ */
+
+import { GridCoord } from '../../core/types';
+import { GhostTile } from '../../engine/Renderer';
+import { BaseTool, ToolContext } from './Tool';
+import { BatchTileCommand } from '../history/Command';
+import { ClipboardData, createPasteCommands, getBoundsCoords } from '../Clipboard';
+import { Stamp, getStampOrigin, transformClipboardData } from '../Stamps';
+import { StampLibrary } from '../StampLibrary';
+
+/**
+ * StampTool places the active stamp centered on the clicked cell
+ *
+ * - R / Shift+R to rotate by 90°, F to mirror
+ * - Each click is one undo step; locked layers are skipped
+ *
+ * Stamp layers missing from the level are placed on the active layer.
+ */
+export class StampTool extends BaseTool {
+  readonly type = 'stamp' as const;
+  readonly name = 'Stamp';
+  readonly description = 'Place saved multi-tile stamps';
+  readonly shortcut = 'n';
+
+  constructor(private library: StampLibrary) {
+    super();
+  }
+
+  onDeactivate(ctx: ToolContext): void {
+    super.onDeactivate(ctx);
+    this.clearPreview(ctx);
+  }
+
+  onMouseDown(ctx: ToolContext, coord: GridCoord): void {
+    const data = this.getStampData(ctx);
+    const stamp = this.getActiveStamp(ctx);
+    if (!data || !stamp) return;
+
+    const origin = getStampOrigin(data, coord);
+    const commands = createPasteCommands(ctx.level, data, origin, ctx.editorState.activeLayerId);
+    if (commands.length === 0) return;
+
+    ctx.history.execute(
+      new BatchTileCommand(commands, `Stamp "${stamp.name}" at (${coord.x}, ${coord.y})`)
+    );
+    ctx.editorState.markDirty();
+  }
+
+  onMouseMove(ctx: ToolContext, coord: GridCoord, _isPressed: boolean): void {
+    this.updateLastCoord(coord);
+    this.updatePreview(ctx);
+  }
+
+  onMouseUp(_ctx: ToolContext, _coord: GridCoord): void {
+    // Stamps are placed on mouse down
+  }
+
+  onKeyDown(ctx: ToolContext, e: KeyboardEvent): boolean {
+    if (e.ctrlKey || e.metaKey || e.altKey) return false;
+
+    switch (e.key.toLowerCase()) {
+      case 'r':
+        ctx.editorState.rotateStamp(e.shiftKey ? -1 : 1);
+        break;
+      case 'f':
+        ctx.editorState.mirrorStamp();
+        break;
+      default:
+        return false;
+    }
+
+    this.updatePreview(ctx);
+    return true;
+  }
+
+  getCursor(): string {
+    return 'copy';
+  }
+
+  private getActiveStamp(ctx: ToolContext): Stamp | undefined {
+    const stampId = ctx.editorState.activeStampId;
+    return stampId ? this.library.getStamp(stampId) : undefined;
+  }
+
+  /**
+   * The active stamp with the brush transform applied and its layers
+   * resolved against the level
+   */
+  private getStampData(ctx: ToolContext): ClipboardData | null {
+    const stamp = this.getActiveStamp(ctx);
+    if (!stamp) return null;
+
+    const data = transformClipboardData(stamp, ctx.editorState.stampTransform);
+    const activeLayerId = ctx.editorState.activeLayerId;
+    return {
+      ...data,
+      layers: data.layers.flatMap((layer) => {
+        if (ctx.level.getLayer(layer.layerId)) return [layer];
+        return activeLayerId ? [{ ...layer, layerId: activeLayerId }] : [];
+      }),
+    };
+  }
+
+  /**
+   * Show the stamp as ghost tiles around the hovered cell
+   */
+  private updatePreview(ctx: ToolContext): void {
+    const data = this.getStampData(ctx);
+    if (!data || !this.lastCoord) {
+      this.clearPreview(ctx);
+      return;
+    }
+
+    const origin = getStampOrigin(data, this.lastCoord);
+    const ghosts: GhostTile[] = [];
+    for (const { layerId, tiles } of data.layers) {
+      for (const { offset, tile } of tiles) {
+        ghosts.push({ coord: { x: origin.x + offset.x, y: origin.y + offset.y }, tile, layerId });
+      }
+    }
+
+    const bounds = {
+      minX: origin.x,
+      minY: origin.y,
+      maxX: origin.x + data.width - 1,
+      maxY: origin.y + data.height - 1,
+    };
+
+    ctx.renderer.setGhostTiles(ghosts);
+    ctx.renderer.setSelectedCoords(
+      getBoundsCoords(bounds).filter((coord) => ctx.level.isInBounds(coord))
+    );
+  }
+
+  private clearPreview(ctx: ToolContext): void {
+    ctx.renderer.setGhostTiles([]);
+    ctx.renderer.setSelectedCoords([]);
+  }
+}
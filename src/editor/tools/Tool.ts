@@ -6,6 +6,7 @@ import { GridCoord, ToolType } from '../../core/types';
 import { Level } from '../../level/Level';
 import { EditorState } from '../EditorState';
 import type { HistoryManager } from '../history/HistoryManager';
+import type { Renderer } from '../../engine/Renderer';
 
 /**
  * Tool context passed to tools for access to editor systems
@@ -14,6 +15,7 @@ export interface ToolContext {
   level: Level;
   editorState: EditorState;
   history: HistoryManager;
+  renderer: Renderer;
 }
 
 /**
@@ -57,6 +59,12 @@ export interface Tool {
    */
   onMouseUp(ctx: ToolContext, coord: GridCoord): void;
 
+  /**
+   * Called on key down before editor shortcuts
+   * Return true if the tool handled the key
+   */
+  onKeyDown?(ctx: ToolContext, e: KeyboardEvent): boolean;
+
   /**
    * Get cursor style for this tool
    */
@@ -75,14 +83,24 @@ export abstract class BaseTool implements Tool {
   protected lastCoord: GridCoord | null = null;
   protected isDrawing = false;
 
-  onActivate(_ctx: ToolContext): void {
+  /** Whether the current stroke opened the history transaction it records into */
+  private ownsTransaction = false;
+  private unsubscribeHistory: (() => void) | null = null;
+
+  onActivate(ctx: ToolContext): void {
     this.lastCoord = null;
     this.isDrawing = false;
+    this.ownsTransaction = false;
+    this.unsubscribeHistory?.();
+    this.unsubscribeHistory = ctx.history.on('change', () => this.onHistoryChange(ctx));
   }
 
   onDeactivate(_ctx: ToolContext): void {
     this.lastCoord = null;
     this.isDrawing = false;
+    this.ownsTransaction = false;
+    this.unsubscribeHistory?.();
+    this.unsubscribeHistory = null;
   }
 
   abstract onMouseDown(ctx: ToolContext, coord: GridCoord): void;
@@ -93,6 +111,41 @@ export abstract class BaseTool implements Tool {
     return 'default';
   }
 
+  /**
+   * Start a stroke that records into one undo step
+   * Joins a transaction that is already open (e.g. one a script began) instead of
+   * opening its own, and leaves closing it to whoever opened it.
+   */
+  protected beginStroke(ctx: ToolContext): void {
+    this.isDrawing = true;
+    this.ownsTransaction = !ctx.history.isInTransaction;
+    if (this.ownsTransaction) {
+      ctx.history.beginTransaction();
+    }
+  }
+
+  /**
+   * Finish the current stroke, committing its transaction if it opened one
+   */
+  protected commitStroke(ctx: ToolContext, description: string): void {
+    if (this.isDrawing && this.ownsTransaction) {
+      ctx.history.commitTransaction(description);
+    }
+    this.isDrawing = false;
+    this.ownsTransaction = false;
+  }
+
+  /**
+   * End the stroke when its transaction was closed under it, e.g. by an undo
+   * mid-drag, so the rest of the drag does not record outside any transaction
+   */
+  protected onHistoryChange(ctx: ToolContext): void {
+    if (this.isDrawing && this.ownsTransaction && !ctx.history.isInTransaction) {
+      this.isDrawing = false;
+      this.ownsTransaction = false;
+    }
+  }
+
   /**
    * Check if coordinate has changed
    */
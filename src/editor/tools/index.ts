@@ -5,3 +5,16 @@
 export * from './Tool';
 export * from './BrushTool';
 export * from './EraserTool';
+export * from './FillTool';
+export * from './ShapeTool';
+export * from './RectangleTool';
+export * from './LineTool';
+export * from './EllipseTool';
+export * from './SelectTool';
+export * from './PanTool';
+export * from './PickerTool';
+export * from './ElevationTool';
+export * from './BehaviorTool';
+export * from './AutotileTool';
+export * from './ScatterTool';
+export * from './StampTool';
@@ -133,6 +133,18 @@ export class Camera {
     this.setZoom(1);
   }
 
+  /**
+   * Zoom so that content of the given size fits the viewport
+   * Returns the resulting zoom level (clamped to the zoom limits)
+   */
+  fitToSize(contentWidth: number, contentHeight: number, padding = 0): number {
+    const availableWidth = Math.max(1, this.viewport.width - padding * 2);
+    const availableHeight = Math.max(1, this.viewport.height - padding * 2);
+    const zoom = Math.min(availableWidth / contentWidth, availableHeight / contentHeight);
+    this.setZoom(zoom);
+    return this.state.zoom;
+  }
+
   /**
    * Center the camera on a specific grid coordinate
    */
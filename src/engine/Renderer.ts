@@ -2,7 +2,15 @@
  * Renderer for isometric tile maps
  */
 
-import { GridCoord, GridBounds, TileData, PositionKey } from '../core/types';
+import {
+  GridCoord,
+  GridBounds,
+  TileData,
+  PositionKey,
+  CardinalDirection,
+  TileBehavior,
+  TileBehaviorType,
+} from '../core/types';
 import {
   getTileRenderPosition,
   getDepthKey,
@@ -14,9 +22,15 @@ import {
 import {
   ISO_TILE_WIDTH,
   ISO_TILE_HEIGHT,
+  TILE_WIDTH,
+  TILE_HEIGHT,
   GRID_COLOR,
   HOVER_COLOR,
   SELECTION_COLOR,
+  ELEVATION_STEP,
+  BEHAVIOR_OVERLAY_COLORS,
+  OPEN_DOOR_OVERLAY_COLOR,
+  DEFAULT_CONVEYOR_DIRECTION,
 } from '../core/constants';
 import { Canvas } from './Canvas';
 import { Camera } from './Camera';
@@ -24,12 +38,66 @@ import { TileRegistry } from '../assets/TileRegistry';
 import type { Layer } from '../level/Layer';
 import type { Level } from '../level/Level';
 
+/** A semi-transparent tile drawn on top of the level (paste/placement preview) */
+export interface GhostTile {
+  coord: GridCoord;
+  tile: TileData;
+  /** Layer the tile would be placed on (used for the layer height offset) */
+  layerId?: string;
+}
+
+/** A tile positioned for drawing, sorted by depth */
+interface RenderItem {
+  tile: TileData;
+  screenX: number;
+  screenY: number;
+  depth: number;
+  opacity: number;
+}
+
+/** Options for rendering the whole level to an image */
+export interface LevelImageOptions {
+  /** Integer pixel scale (default 1) */
+  scale?: number;
+  showGrid?: boolean;
+  showBehaviors?: boolean;
+  /** Draw layers hidden in the editor too */
+  includeHiddenLayers?: boolean;
+  /** Fill color; transparent when omitted */
+  background?: string | null;
+  /** Empty border around the level in unscaled pixels */
+  padding?: number;
+}
+
 export interface RenderOptions {
   showGrid?: boolean;
   showHover?: boolean;
   showSelection?: boolean;
+  /** Draw tile behaviors as colored cells with a marker */
+  showBehaviors?: boolean;
 }
 
+/** Short marker drawn on behavior cells (conveyors draw an arrow instead) */
+const BEHAVIOR_MARKERS: Record<Exclude<TileBehaviorType, 'conveyor'>, string> = {
+  floor: '',
+  blocker: '✕',
+  slow: '~',
+  hole: '●',
+  'hazard-burn': '!',
+  door: 'D',
+  exit: '★',
+  spawn: 'S',
+  ramp: '/',
+};
+
+/** Grid step for each conveyor direction */
+const DIRECTION_STEPS: Record<CardinalDirection, GridCoord> = {
+  north: { x: 0, y: -1 },
+  east: { x: 1, y: 0 },
+  south: { x: 0, y: 1 },
+  west: { x: -1, y: 0 },
+};
+
 /**
  * Renderer handles drawing the isometric tile map to the canvas
  */
@@ -41,11 +109,15 @@ export class Renderer {
     showGrid: true,
     showHover: true,
     showSelection: true,
+    showBehaviors: false,
   };
 
   // State for overlays
   private hoveredCoord: GridCoord | null = null;
   private selectedCoords: GridCoord[] = [];
+  private ghostTiles: GhostTile[] = [];
+  private hoverPreview: { tile: TileData; layerId?: string } | null = null;
+  private activeLayerId: string | null = null;
 
   constructor(canvas: Canvas, camera: Camera, tileRegistry: TileRegistry) {
     this.canvas = canvas;
@@ -77,6 +149,27 @@ export class Renderer {
     this.selectedCoords = coords;
   }
 
+  /**
+   * Set ghost tiles drawn as a semi-transparent preview
+   */
+  setGhostTiles(tiles: GhostTile[]): void {
+    this.ghostTiles = tiles;
+  }
+
+  /**
+   * Set the layer being edited; overlays and empty-cell hit-testing use its height offset
+   */
+  setActiveLayer(layerId: string | null): void {
+    this.activeLayerId = layerId;
+  }
+
+  /**
+   * Set the tile previewed under the hovered coordinate (null to hide)
+   */
+  setHoverPreview(tile: TileData | null, layerId?: string): void {
+    this.hoverPreview = tile ? { tile, layerId } : null;
+  }
+
   /**
    * Render a complete frame
    */
@@ -113,27 +206,48 @@ export class Renderer {
 
     // Draw grid if enabled
     if (this.options.showGrid) {
-      this.renderGrid(ctx, bounds, centerOffset.x, centerOffset.y);
+      this.renderGrid(ctx, level, bounds, centerOffset.x, centerOffset.y);
     }
 
-    // Collect all tiles from all visible layers
-    const renderItems = this.collectRenderItems(level, bounds);
+    // Draw all tiles from all visible layers
+    this.renderItems(ctx, this.collectRenderItems(level, bounds, centerOffset.x, centerOffset.y));
+
+    // Draw ghost tiles (placement previews)
+    const ghostTiles = this.getGhostTiles();
+    if (ghostTiles.length > 0) {
+      this.renderGhostTiles(ctx, level, ghostTiles, centerOffset.x, centerOffset.y);
+    }
 
-    // Sort by depth and render
-    renderItems.sort((a, b) => a.depth - b.depth);
-    for (const item of renderItems) {
-      this.renderTile(ctx, item.tileId, item.screenX, item.screenY);
+    // Draw tile behaviors if enabled
+    if (this.options.showBehaviors) {
+      this.renderBehaviors(ctx, level, centerOffset.x, centerOffset.y);
     }
 
-    // Draw hover overlay if enabled
+    // Draw hover overlay on the surface under the cursor if enabled
     if (this.options.showHover && this.hoveredCoord) {
-      this.renderTileOverlay(ctx, this.hoveredCoord, centerOffset.x, centerOffset.y, HOVER_COLOR);
+      const lift = this.getSurfaceHeightOffset(level, this.hoveredCoord);
+      this.renderTileOverlay(
+        ctx,
+        this.hoveredCoord,
+        centerOffset.x,
+        centerOffset.y - lift,
+        HOVER_COLOR,
+        level.getElevation(this.hoveredCoord)
+      );
     }
 
-    // Draw selection overlays if enabled
+    // Draw selection overlays on the active layer plane if enabled
     if (this.options.showSelection && this.selectedCoords.length > 0) {
+      const lift = this.getActiveLayerHeightOffset(level);
       for (const coord of this.selectedCoords) {
-        this.renderTileOverlay(ctx, coord, centerOffset.x, centerOffset.y, SELECTION_COLOR);
+        this.renderTileOverlay(
+          ctx,
+          coord,
+          centerOffset.x,
+          centerOffset.y - lift,
+          SELECTION_COLOR,
+          level.getElevation(coord)
+        );
       }
     }
 
@@ -142,49 +256,153 @@ export class Renderer {
   }
 
   /**
-   * Collect all tiles to render from all visible layers
+   * Render the whole level to a new canvas, independent of the viewport and camera
+   * Hover, selection and ghost tiles are never drawn.
+   */
+  renderLevelImage(level: Level, options: LevelImageOptions = {}): HTMLCanvasElement {
+    const scale = Math.max(1, Math.floor(options.scale ?? 1));
+    const padding = Math.max(0, Math.floor(options.padding ?? 0));
+    const bounds: GridBounds = {
+      minX: 0,
+      minY: 0,
+      maxX: level.gridWidth - 1,
+      maxY: level.gridHeight - 1,
+    };
+
+    // Lay the level out at the origin, then frame every sprite and ground diamond
+    const items = this.collectRenderItems(level, bounds, 0, 0, options.includeHiddenLayers);
+    let minX = Infinity;
+    let minY = Infinity;
+    let maxX = -Infinity;
+    let maxY = -Infinity;
+    for (const item of items) {
+      minX = Math.min(minX, item.screenX);
+      minY = Math.min(minY, item.screenY);
+      maxX = Math.max(maxX, item.screenX + TILE_WIDTH);
+      maxY = Math.max(maxY, item.screenY + TILE_HEIGHT);
+    }
+    forEachInRenderOrder(bounds, (x, y) => {
+      const top = gridToScreen(x, y, 0, 0, level.getElevation({ x, y }));
+      minX = Math.min(minX, top.x - ISO_TILE_WIDTH / 2);
+      minY = Math.min(minY, top.y);
+      maxX = Math.max(maxX, top.x + ISO_TILE_WIDTH / 2);
+      maxY = Math.max(maxY, top.y + ISO_TILE_HEIGHT);
+    });
+
+    const width = Math.ceil(maxX - minX) + padding * 2;
+    const height = Math.ceil(maxY - minY) + padding * 2;
+    const canvas = document.createElement('canvas');
+    canvas.width = width * scale;
+    canvas.height = height * scale;
+
+    const ctx = canvas.getContext('2d');
+    if (!ctx) throw new Error('Failed to get 2d context');
+
+    if (options.background) {
+      ctx.fillStyle = options.background;
+      ctx.fillRect(0, 0, canvas.width, canvas.height);
+    }
+
+    // Integer scale without smoothing keeps pixel art crisp
+    ctx.imageSmoothingEnabled = false;
+    ctx.scale(scale, scale);
+    ctx.translate(padding - minX, padding - minY);
+
+    if (options.showGrid) {
+      this.renderGrid(ctx, level, bounds, 0, 0);
+    }
+    this.renderItems(ctx, items);
+    if (options.showBehaviors) {
+      this.renderBehaviors(ctx, level, 0, 0);
+    }
+
+    return canvas;
+  }
+
+  /**
+   * Draw render items back to front
+   */
+  private renderItems(ctx: CanvasRenderingContext2D, items: RenderItem[]): void {
+    items.sort((a, b) => a.depth - b.depth);
+    for (const item of items) {
+      ctx.globalAlpha = item.opacity;
+      this.renderTile(ctx, item.tile, item.screenX, item.screenY);
+    }
+    ctx.globalAlpha = 1;
+  }
+
+  /**
+   * Collect all tiles to render from all visible layers, plus cliff faces under raised cells
    */
   private collectRenderItems(
     level: Level,
-    bounds: GridBounds
-  ): Array<{ tileId: number; screenX: number; screenY: number; depth: number }> {
-    const items: Array<{ tileId: number; screenX: number; screenY: number; depth: number }> = [];
-
-    const centerOffset = calculateCenterOffset(
-      this.canvas.viewport.width / this.camera.zoom,
-      this.canvas.viewport.height / this.camera.zoom,
-      level.gridWidth,
-      level.gridHeight
-    );
+    bounds: GridBounds,
+    offsetX: number,
+    offsetY: number,
+    includeHiddenLayers = false
+  ): RenderItem[] {
+    const items: RenderItem[] = [];
+
+    const isInView = (coord: GridCoord): boolean =>
+      coord.x >= bounds.minX &&
+      coord.x <= bounds.maxX &&
+      coord.y >= bounds.minY &&
+      coord.y <= bounds.maxY;
+
+    // Stack cliff tiles under raised cells, sorted below the cell's own tiles
+    const baseZIndex = level.getLayers()[0]?.config.zIndex ?? 0;
+    const cliffTile: TileData = { tileId: level.cliffTileId };
+    level.forEachElevation(({ position, height }) => {
+      if (!isInView(position)) return;
+
+      for (let elevation = 0; elevation < height; elevation++) {
+        const renderPos = getTileRenderPosition(
+          position.x,
+          position.y,
+          offsetX,
+          offsetY,
+          elevation
+        );
+        items.push({
+          tile: cliffTile,
+          screenX: renderPos.x,
+          screenY: renderPos.y,
+          depth: getDepthKey(position.x, position.y, baseZIndex, elevation),
+          opacity: 1,
+        });
+      }
+    });
 
     // Get layers sorted by z-index
-    const layers = level.getVisibleLayers();
+    const layers = includeHiddenLayers ? level.getLayers() : level.getVisibleLayers();
 
     for (const layer of layers) {
-      const layerYOffset = this.getLayerYOffset(layer);
+      const layerYOffset = layer.config.heightOffset;
+      const opacity = layer.config.opacity;
+
+      // Fully transparent layers contribute nothing
+      if (opacity <= 0) continue;
 
       // Iterate over all tiles in the layer
       layer.forEachTile((tile, coord) => {
         // Check if in bounds
-        if (
-          coord.x >= bounds.minX &&
-          coord.x <= bounds.maxX &&
-          coord.y >= bounds.minY &&
-          coord.y <= bounds.maxY
-        ) {
+        if (isInView(coord)) {
+          const elevation = level.getElevation(coord);
           const renderPos = getTileRenderPosition(
             coord.x,
             coord.y,
-            centerOffset.x,
-            centerOffset.y
+            offsetX,
+            offsetY,
+            elevation
           );
-          const depth = getDepthKey(coord.x, coord.y, layer.config.zIndex);
+          const depth = getDepthKey(coord.x, coord.y, layer.config.zIndex, elevation);
 
           items.push({
-            tileId: tile.tileId,
+            tile,
             screenX: renderPos.x,
             screenY: renderPos.y - layerYOffset,
             depth,
+            opacity,
           });
         }
       });
@@ -193,23 +411,92 @@ export class Renderer {
     return items;
   }
 
-  private getLayerYOffset(layer: Layer): number {
-    if (layer.config.id === 'props' || layer.config.id === 'decorations') {
-      return ISO_TILE_HEIGHT / 2;
+  /**
+   * Get ghost tiles including the hover preview
+   */
+  private getGhostTiles(): GhostTile[] {
+    if (!this.options.showHover || !this.hoveredCoord || !this.hoverPreview) {
+      return this.ghostTiles;
     }
-    return 0;
+    return [...this.ghostTiles, { coord: this.hoveredCoord, ...this.hoverPreview }];
   }
 
   /**
-   * Render a single tile
+   * Render ghost tiles back to front with reduced opacity
+   */
+  private renderGhostTiles(
+    ctx: CanvasRenderingContext2D,
+    level: Level,
+    ghostTiles: GhostTile[],
+    offsetX: number,
+    offsetY: number
+  ): void {
+    const items = ghostTiles
+      .filter((ghost) => level.isInBounds(ghost.coord))
+      .map((ghost) => {
+        const layer = ghost.layerId ? level.getLayer(ghost.layerId) : undefined;
+        const elevation = level.getElevation(ghost.coord);
+        return {
+          ghost,
+          elevation,
+          yOffset: layer?.config.heightOffset ?? 0,
+          depth: getDepthKey(ghost.coord.x, ghost.coord.y, layer?.config.zIndex ?? 0, elevation),
+        };
+      })
+      .sort((a, b) => a.depth - b.depth);
+
+    ctx.save();
+    ctx.globalAlpha = 0.6;
+    for (const { ghost, elevation, yOffset } of items) {
+      const renderPos = getTileRenderPosition(
+        ghost.coord.x,
+        ghost.coord.y,
+        offsetX,
+        offsetY,
+        elevation
+      );
+      this.renderTile(ctx, ghost.tile, renderPos.x, renderPos.y - yOffset);
+    }
+    ctx.restore();
+  }
+
+  /**
+   * Get visible layers that can be hit, topmost first
+   */
+  private getPickableLayers(level: Level): Layer[] {
+    return level
+      .getVisibleLayers()
+      .filter((layer) => layer.config.opacity > 0)
+      .reverse();
+  }
+
+  /**
+   * Get the height offset of the active layer (0 when there is none)
+   */
+  private getActiveLayerHeightOffset(level: Level): number {
+    const layer = this.activeLayerId ? level.getLayer(this.activeLayerId) : undefined;
+    return layer?.config.heightOffset ?? 0;
+  }
+
+  /**
+   * Get the height offset of the topmost visible tile at a cell,
+   * falling back to the active layer plane for empty cells
+   */
+  private getSurfaceHeightOffset(level: Level, coord: GridCoord): number {
+    const layer = this.getPickableLayers(level).find((l) => l.hasTile(coord));
+    return layer ? layer.config.heightOffset : this.getActiveLayerHeightOffset(level);
+  }
+
+  /**
+   * Render a single tile (with its rotation and flips)
    */
   private renderTile(
     ctx: CanvasRenderingContext2D,
-    tileId: number,
+    tile: TileData,
     x: number,
     y: number
   ): void {
-    this.tileRegistry.drawTile(ctx, tileId, x, y);
+    this.tileRegistry.drawTile(ctx, tile.tileId, x, y, 1, tile);
   }
 
   /**
@@ -217,6 +504,7 @@ export class Renderer {
    */
   private renderGrid(
     ctx: CanvasRenderingContext2D,
+    level: Level,
     bounds: GridBounds,
     offsetX: number,
     offsetY: number
@@ -225,7 +513,8 @@ export class Renderer {
     ctx.lineWidth = 1;
 
     forEachInRenderOrder(bounds, (x, y) => {
-      this.renderTileOutline(ctx, { x, y }, offsetX, offsetY, GRID_COLOR);
+      const coord = { x, y };
+      this.renderTileOutline(ctx, coord, offsetX, offsetY, GRID_COLOR, level.getElevation(coord));
     });
   }
 
@@ -237,9 +526,10 @@ export class Renderer {
     coord: GridCoord,
     offsetX: number,
     offsetY: number,
-    color: string
+    color: string,
+    elevation = 0
   ): void {
-    const center = gridToScreen(coord.x, coord.y, offsetX, offsetY);
+    const center = gridToScreen(coord.x, coord.y, offsetX, offsetY, elevation);
 
     ctx.strokeStyle = color;
     ctx.lineWidth = 1;
@@ -262,9 +552,10 @@ export class Renderer {
     coord: GridCoord,
     offsetX: number,
     offsetY: number,
-    color: string
+    color: string,
+    elevation = 0
   ): void {
-    const center = gridToScreen(coord.x, coord.y, offsetX, offsetY);
+    const center = gridToScreen(coord.x, coord.y, offsetX, offsetY, elevation);
 
     ctx.fillStyle = color;
     ctx.beginPath();
@@ -278,8 +569,96 @@ export class Renderer {
     ctx.fill();
   }
 
+  /**
+   * Render tile behaviors as tinted cells with a marker on the ground plane
+   */
+  private renderBehaviors(
+    ctx: CanvasRenderingContext2D,
+    level: Level,
+    offsetX: number,
+    offsetY: number
+  ): void {
+    ctx.save();
+    ctx.textAlign = 'center';
+    ctx.textBaseline = 'middle';
+    ctx.font = 'bold 7px sans-serif';
+
+    level.forEachTileBehavior((behavior) => {
+      const coord = behavior.position;
+      const elevation = level.getElevation(coord);
+      const color =
+        behavior.type === 'door' && behavior.open
+          ? OPEN_DOOR_OVERLAY_COLOR
+          : BEHAVIOR_OVERLAY_COLORS[behavior.type];
+      this.renderTileOverlay(ctx, coord, offsetX, offsetY, color, elevation);
+
+      const top = gridToScreen(coord.x, coord.y, offsetX, offsetY, elevation);
+      const cx = top.x;
+      const cy = top.y + ISO_TILE_HEIGHT / 2;
+
+      if (behavior.type === 'conveyor') {
+        this.renderBehaviorArrow(ctx, cx, cy, behavior.direction ?? DEFAULT_CONVEYOR_DIRECTION);
+      } else {
+        ctx.fillStyle = 'rgba(255, 255, 255, 0.9)';
+        ctx.fillText(this.getBehaviorMarker(behavior), cx, cy);
+      }
+    });
+
+    ctx.restore();
+  }
+
+  private getBehaviorMarker(behavior: TileBehavior): string {
+    switch (behavior.type) {
+      case 'conveyor':
+        return '';
+      case 'door':
+        return behavior.doorId || BEHAVIOR_MARKERS.door;
+      case 'hazard-burn':
+        return `${BEHAVIOR_MARKERS['hazard-burn']}${behavior.damage ?? ''}`;
+      default:
+        return BEHAVIOR_MARKERS[behavior.type];
+    }
+  }
+
+  /**
+   * Draw an arrow along a grid direction, centered on a cell
+   */
+  private renderBehaviorArrow(
+    ctx: CanvasRenderingContext2D,
+    x: number,
+    y: number,
+    direction: CardinalDirection
+  ): void {
+    const step = DIRECTION_STEPS[direction];
+    // Screen-space direction of one grid step, scaled to fit inside the cell
+    const dx = ((step.x - step.y) * ISO_TILE_WIDTH) / 2;
+    const dy = ((step.x + step.y) * ISO_TILE_HEIGHT) / 2;
+    const length = Math.hypot(dx, dy);
+    const ux = dx / length;
+    const uy = dy / length;
+    const size = ISO_TILE_HEIGHT / 2;
+
+    ctx.strokeStyle = '#d2e8ff';
+    ctx.fillStyle = '#d2e8ff';
+    ctx.lineWidth = 1.5;
+    ctx.beginPath();
+    ctx.moveTo(x - ux * size, y - uy * size);
+    ctx.lineTo(x + ux * size * 0.4, y + uy * size * 0.4);
+    ctx.stroke();
+
+    ctx.beginPath();
+    ctx.moveTo(x + ux * size, y + uy * size);
+    ctx.lineTo(x + ux * size * 0.3 - uy * 3, y + uy * size * 0.3 + ux * 3);
+    ctx.lineTo(x + ux * size * 0.3 + uy * 3, y + uy * size * 0.3 - ux * 3);
+    ctx.closePath();
+    ctx.fill();
+  }
+
   /**
    * Convert screen coordinates to grid coordinates (through camera)
+   *
+   * Raised layers and cells are tested against what is drawn, so a click lands
+   * on the tile under the cursor. Empty cells resolve on the active layer plane.
    */
   screenToGrid(screenX: number, screenY: number, level: Level): GridCoord {
     const world = this.camera.screenToWorld(screenX, screenY);
@@ -291,6 +670,53 @@ export class Renderer {
       level.gridHeight
     );
 
-    return screenToGrid(world.x, world.y, centerOffset.x, centerOffset.y);
+    const project = (lift: number): GridCoord =>
+      screenToGrid(world.x, world.y, centerOffset.x, centerOffset.y - lift);
+
+    // Test every elevation band and layer plane; the tile drawn last wins
+    let hit: GridCoord | null = null;
+    let hitDepth = -Infinity;
+    const maxElevation = level.maxElevation;
+    const baseZIndex = level.getLayers()[0]?.config.zIndex ?? 0;
+    for (let elevation = maxElevation; elevation >= 0; elevation--) {
+      // Cliff faces of cells raised above this band
+      const cliff = project(elevation * ELEVATION_STEP);
+      if (level.isInBounds(cliff) && level.getElevation(cliff) > elevation) {
+        const depth = getDepthKey(cliff.x, cliff.y, baseZIndex, elevation);
+        if (depth > hitDepth) {
+          hit = cliff;
+          hitDepth = depth;
+        }
+      }
+
+      for (const layer of this.getPickableLayers(level)) {
+        const coord = project(elevation * ELEVATION_STEP + layer.config.heightOffset);
+        if (
+          !level.isInBounds(coord) ||
+          level.getElevation(coord) !== elevation ||
+          !layer.hasTile(coord)
+        ) {
+          continue;
+        }
+
+        const depth = getDepthKey(coord.x, coord.y, layer.config.zIndex, elevation);
+        if (depth > hitDepth) {
+          hit = coord;
+          hitDepth = depth;
+        }
+      }
+    }
+    if (hit) return hit;
+
+    // Empty cells resolve on the active layer plane, highest raised cells first
+    const activeLift = this.getActiveLayerHeightOffset(level);
+    for (let elevation = maxElevation; elevation > 0; elevation--) {
+      const coord = project(activeLift + elevation * ELEVATION_STEP);
+      if (level.isInBounds(coord) && level.getElevation(coord) === elevation) {
+        return coord;
+      }
+    }
+
+    return project(activeLift);
   }
 }
@@ -7,12 +7,21 @@
 
 import { TileRegistry } from './assets/TileRegistry';
 import { Editor } from './editor/Editor';
+import { LevelSync } from './editor/LevelSync';
 import { TilePalette } from './ui/TilePalette';
+import { StampPalette } from './ui/StampPalette';
 import { LayerPanel } from './ui/LayerPanel';
+import { HistoryPanel } from './ui/HistoryPanel';
+import { BehaviorPanel } from './ui/BehaviorPanel';
+import { AutotilePanel } from './ui/AutotilePanel';
+import { RandomBrushPanel } from './ui/RandomBrushPanel';
+import { LevelSyncPanel } from './ui/LevelSyncPanel';
 import { Toolbar } from './ui/Toolbar';
+import { LevelImportDialog } from './ui/LevelImportDialog';
 import { StatusBar } from './ui/StatusBar';
 import { ViewControls } from './ui/ViewControls';
 import { MapControls } from './ui/MapControls';
+import { ResizeMapDialog } from './ui/ResizeMapDialog';
 import { loadFromLocalStorage } from './level/LevelSerializer';
 import { MovementTester } from './movement/MovementTester';
 import { MovementControls } from './ui/MovementControls';
@@ -72,11 +81,20 @@ async function init(): Promise<void> {
     }
 
     // Initialize UI components
-    const toolbar = new Toolbar('toolbar', editor);
+    const toolbar = new Toolbar('toolbar', editor, new LevelImportDialog('level-import-dialog'));
     const viewControls = new ViewControls('view-controls', editor);
-    const mapControls = new MapControls('map-controls', editor);
+    const mapControls = new MapControls(
+      'map-controls',
+      editor,
+      new ResizeMapDialog('resize-map-dialog', editor)
+    );
     const layerPanel = new LayerPanel('layer-list', editor);
+    const behaviorPanel = new BehaviorPanel('behavior-controls', editor);
+    const autotilePanel = new AutotilePanel('autotile-controls', editor);
+    const randomBrushPanel = new RandomBrushPanel('random-controls', editor, tileRegistry);
+    const historyPanel = new HistoryPanel('history-list', editor);
     const tilePalette = new TilePalette('tile-palette', editor, tileRegistry);
+    const stampPalette = new StampPalette('stamp-palette', editor, tileRegistry);
     const statusBar = new StatusBar(editor);
     const movementTester = new MovementTester(
       {
@@ -86,6 +104,7 @@ async function init(): Promise<void> {
       }
     );
     const movementControls = new MovementControls('movement-controls', movementTester, editor);
+    new LevelSyncPanel('movement-sync', editor, new LevelSync(editor, movementTester, 'Movement Tester'));
     const clopTester = new ClopPersonalityTester(
       {
         canvas: '#clop-canvas',
@@ -94,13 +113,14 @@ async function init(): Promise<void> {
       }
     );
     const clopControls = new ClopPersonalityControls('clop-controls', clopTester, editor);
+    new LevelSyncPanel('clop-sync', editor, new LevelSync(editor, clopTester, 'Clop Tester'));
     new PixelAssetGenerator(
       'pixel-generator-controls',
       'pixel-generator-output'
     );
 
-    // Select first tile by default
-    tilePalette.selectTile(0);
+    // Select the last used tile, or the first tile
+    tilePalette.selectTile(editor.state.recentTiles[0] ?? 0);
 
     // Start render loop
     editor.start();
@@ -108,6 +128,7 @@ async function init(): Promise<void> {
     clopTester.start();
 
     setupCanvasToggle();
+    setupPaletteTabs(editor);
 
     // Expose editor globally for debugging
     window.editor = editor;
@@ -120,10 +141,25 @@ async function init(): Promise<void> {
     console.log('  - Click to place tiles');
     console.log('  - B: Brush tool');
     console.log('  - E: Eraser tool');
+    console.log('  - R/F/V: Rotate, flip X, flip Y the brush tile');
+    console.log('  - [ / ]: Shrink / grow the brush and eraser');
+    console.log('  - G: Fill tool');
+    console.log('  - U/L/O: Rectangle, line and ellipse tools (Shift+U: toggle filled)');
+    console.log('  - I / Alt+click: Pick tile');
+    console.log('  - 1-9: Select a favorite tile (right-click a palette tile to add it)');
+    console.log('  - M: Select tool (Ctrl+C/X/V, Delete, Shift+M: toggle all layers)');
+    console.log('  - T: Elevation tool (Shift+T: toggle raise/lower)');
+    console.log('  - K: Behavior tool (Shift+K: toggle behavior overlay)');
+    console.log('  - J: Autotile terrain brush (Shift+J: toggle paint/erase)');
+    console.log('  - P: Scatter tool (Shift+P: toggle radius/selection)');
+    console.log('  - N: Stamp tool (R/Shift+R: rotate, F: mirror)');
     console.log('  - Ctrl+Z: Undo');
     console.log('  - Ctrl+Y/Ctrl+Shift+Z: Redo');
     console.log('  - Ctrl+S: Save to localStorage');
     console.log('  - Mouse wheel: Zoom');
+    console.log('  - H / Space+drag / middle mouse: Pan');
+    console.log('  - Arrows / WASD: Pan view (Shift: faster)');
+    console.log('  - Home: Fit level to viewport');
   } catch (error) {
     console.error('Failed to initialize editor:', error);
     loadingEl.textContent = `Error: ${error instanceof Error ? error.message : 'Unknown error'}`;
@@ -207,6 +243,46 @@ function setupCanvasToggle(): void {
   setMode('editor');
 }
 
+/**
+ * Switch the palette panel between tiles and stamps
+ * Picking the stamp tool shows the stamps.
+ */
+function setupPaletteTabs(editor: Editor): void {
+  const tabs = document.getElementById('palette-tabs');
+  const tilePalette = document.getElementById('tile-palette');
+  const stampPalette = document.getElementById('stamp-palette');
+
+  if (!tabs || !tilePalette || !stampPalette) {
+    return;
+  }
+
+  const setView = (view: 'tiles' | 'stamps'): void => {
+    tilePalette.classList.toggle('active', view === 'tiles');
+    stampPalette.classList.toggle('active', view === 'stamps');
+
+    tabs.querySelectorAll('button[data-palette]').forEach((button) => {
+      const buttonView = (button as HTMLButtonElement).dataset.palette;
+      button.classList.toggle('active', buttonView === view);
+    });
+  };
+
+  tabs.addEventListener('click', (e) => {
+    const target = e.target as HTMLElement;
+    const btn = target.closest('button[data-palette]') as HTMLButtonElement | null;
+    if (!btn) return;
+
+    setView(btn.dataset.palette === 'stamps' ? 'stamps' : 'tiles');
+  });
+
+  editor.state.on('tool:changed', () => {
+    if (editor.state.activeTool === 'stamp') {
+      setView('stamps');
+    }
+  });
+
+  setView(editor.state.activeTool === 'stamp' ? 'stamps' : 'tiles');
+}
+
 // Start the application when DOM is ready
 if (document.readyState === 'loading') {
   document.addEventListener('DOMContentLoaded', init);
@@ -12,6 +12,15 @@ import {
   toPositionKey,
   fromPositionKey,
 } from '../core/types';
+import { DEFAULT_LAYERS, MAX_LAYER_HEIGHT_OFFSET } from '../core/constants';
+
+/**
+ * Height offset for levels saved before offsets were stored per layer,
+ * which lifted the default props and decorations layers
+ */
+function getDefaultHeightOffset(typeOrId: string): number {
+  return DEFAULT_LAYERS.find((layer) => layer.id === typeOrId)?.heightOffset ?? 0;
+}
 
 /**
  * Layer represents a single layer in the level
@@ -21,11 +30,15 @@ export class Layer {
   readonly config: LayerConfig;
   private tiles = new Map<PositionKey, TileData>();
 
-  constructor(config: Omit<LayerConfig, 'visible' | 'locked' | 'opacity'> & Partial<LayerConfig>) {
+  constructor(
+    config: Omit<LayerConfig, 'visible' | 'locked' | 'opacity' | 'heightOffset'> &
+      Partial<LayerConfig>
+  ) {
     this.config = {
       visible: true,
       locked: false,
       opacity: 1,
+      heightOffset: 0,
       ...config,
     };
   }
@@ -97,6 +110,20 @@ export class Layer {
     return result;
   }
 
+  /**
+   * Set layer display name
+   */
+  setName(name: string): void {
+    this.config.name = name;
+  }
+
+  /**
+   * Set layer z-index (use Level.setLayerZIndex to keep layer order in sync)
+   */
+  setZIndex(zIndex: number): void {
+    this.config.zIndex = zIndex;
+  }
+
   /**
    * Set layer visibility
    */
@@ -126,10 +153,20 @@ export class Layer {
   }
 
   /**
-   * Create a clone of this layer
+   * Set layer height offset in pixels
+   */
+  setHeightOffset(heightOffset: number): void {
+    this.config.heightOffset = Math.max(
+      -MAX_LAYER_HEIGHT_OFFSET,
+      Math.min(MAX_LAYER_HEIGHT_OFFSET, Math.round(heightOffset))
+    );
+  }
+
+  /**
+   * Create a clone of this layer, optionally overriding its configuration
    */
-  clone(): Layer {
-    const cloned = new Layer({ ...this.config });
+  clone(overrides: Partial<LayerConfig> = {}): Layer {
+    const cloned = new Layer({ ...this.config, ...overrides });
     this.tiles.forEach((tile, key) => {
       cloned.tiles.set(key, { ...tile });
     });
@@ -146,14 +183,20 @@ export class Layer {
         tileId: tile.tileId,
         position: coord,
         rotation: tile.rotation,
+        flipX: tile.flipX,
+        flipY: tile.flipY,
       });
     });
 
     return {
       id: this.config.id,
       name: this.config.name,
+      type: this.config.type,
       zIndex: this.config.zIndex,
       visible: this.config.visible,
+      locked: this.config.locked,
+      opacity: this.config.opacity,
+      heightOffset: this.config.heightOffset,
       tiles,
     };
   }
@@ -165,14 +208,20 @@ export class Layer {
     const layer = new Layer({
       id: data.id,
       name: data.name,
+      type: data.type,
       zIndex: data.zIndex,
       visible: data.visible,
+      locked: data.locked ?? false,
+      opacity: data.opacity ?? 1,
+      heightOffset: data.heightOffset ?? getDefaultHeightOffset(data.type ?? data.id),
     });
 
     for (const placement of data.tiles) {
       layer.setTile(placement.position, {
         tileId: placement.tileId,
         rotation: placement.rotation,
+        flipX: placement.flipX,
+        flipY: placement.flipY,
       });
     }
 
@@ -6,27 +6,52 @@ import {
   LevelData,
   LevelMetadata,
   GridConfig,
+  GridBounds,
   GridCoord,
   TileData,
   LayerData,
   TileBehavior,
   TileBehaviorPlacement,
+  ElevationPlacement,
+  TileId,
   PositionKey,
   toPositionKey,
   fromPositionKey,
 } from '../core/types';
-import { GRID_WIDTH, GRID_HEIGHT, TILE_WIDTH, TILE_HEIGHT, DEFAULT_LAYERS } from '../core/constants';
+import {
+  GRID_WIDTH,
+  GRID_HEIGHT,
+  TILE_WIDTH,
+  TILE_HEIGHT,
+  DEFAULT_LAYERS,
+  LAYER_Z_STEP,
+  MAX_ELEVATION,
+  MAX_CLIMB_HEIGHT,
+  DEFAULT_CLIFF_TILE_ID,
+  CURRENT_LEVEL_VERSION,
+  TOTAL_TILES,
+} from '../core/constants';
+import { createId } from '../core/random';
 import { Layer } from './Layer';
 
+/** Content a resize would drop, at its positions before the resize */
+export interface ClippedLevelContent {
+  readonly tiles: Array<{ layerId: string; position: GridCoord; tile: TileData }>;
+  readonly tileBehaviors: TileBehaviorPlacement[];
+  readonly elevations: ElevationPlacement[];
+}
+
 /**
  * Level represents a complete level with multiple layers
  */
 export class Level {
   readonly metadata: LevelMetadata;
-  readonly gridConfig: GridConfig;
+  private _gridConfig: GridConfig;
   private layers: Layer[] = [];
   private layerMap = new Map<string, Layer>();
   private tileBehaviors = new Map<PositionKey, TileBehavior>();
+  private elevations = new Map<PositionKey, number>();
+  private _cliffTileId: TileId = DEFAULT_CLIFF_TILE_ID;
 
   constructor(
     metadata: Partial<LevelMetadata> = {},
@@ -34,7 +59,7 @@ export class Level {
   ) {
     // Generate metadata with defaults
     this.metadata = {
-      id: metadata.id ?? crypto.randomUUID(),
+      id: metadata.id ?? createId('level'),
       name: metadata.name ?? 'Untitled Level',
       author: metadata.author,
       created: metadata.created ?? new Date().toISOString(),
@@ -43,7 +68,7 @@ export class Level {
     };
 
     // Set grid config with defaults
-    this.gridConfig = {
+    this._gridConfig = {
       width: gridConfig.width ?? GRID_WIDTH,
       height: gridConfig.height ?? GRID_HEIGHT,
       tileWidth: gridConfig.tileWidth ?? TILE_WIDTH,
@@ -51,6 +76,13 @@ export class Level {
     };
   }
 
+  /**
+   * Grid dimensions (changed only through resize)
+   */
+  get gridConfig(): GridConfig {
+    return this._gridConfig;
+  }
+
   /**
    * Get grid width
    */
@@ -115,6 +147,13 @@ export class Level {
     this.tileBehaviors.set(key, { ...behavior });
   }
 
+  /**
+   * Get the number of cells with a behavior
+   */
+  get tileBehaviorCount(): number {
+    return this.tileBehaviors.size;
+  }
+
   /**
    * Remove all tile behaviors
    */
@@ -140,6 +179,76 @@ export class Level {
     return result;
   }
 
+  /**
+   * Get the elevation of a cell (0 when unset)
+   */
+  getElevation(coord: GridCoord): number {
+    return this.elevations.get(toPositionKey(coord)) ?? 0;
+  }
+
+  /**
+   * Set the elevation of a cell (clamped; 0 clears it)
+   */
+  setElevation(coord: GridCoord, height: number): void {
+    const key = toPositionKey(coord);
+    const clamped = Math.max(0, Math.min(MAX_ELEVATION, Math.round(height)));
+    if (clamped === 0) {
+      this.elevations.delete(key);
+      return;
+    }
+    this.elevations.set(key, clamped);
+  }
+
+  /**
+   * Highest elevation of any cell
+   */
+  get maxElevation(): number {
+    let max = 0;
+    this.elevations.forEach((height) => {
+      max = Math.max(max, height);
+    });
+    return max;
+  }
+
+  /**
+   * Iterate over all raised cells
+   */
+  forEachElevation(callback: (placement: ElevationPlacement) => void): void {
+    this.elevations.forEach((height, key) => {
+      callback({ position: fromPositionKey(key), height });
+    });
+  }
+
+  /**
+   * Get all raised cells as an array
+   */
+  getElevations(): ElevationPlacement[] {
+    const result: ElevationPlacement[] = [];
+    this.forEachElevation((placement) => result.push(placement));
+    return result;
+  }
+
+  /**
+   * Tile used to fill the side faces of raised cells
+   */
+  get cliffTileId(): TileId {
+    return this._cliffTileId;
+  }
+
+  setCliffTileId(tileId: TileId): void {
+    this._cliffTileId = tileId;
+  }
+
+  /**
+   * Check whether a walker can step between two neighbouring cells
+   * Height differences above MAX_CLIMB_HEIGHT need a ramp on either cell
+   */
+  canStep(from: GridCoord, to: GridCoord): boolean {
+    const rise = Math.abs(this.getElevation(to) - this.getElevation(from));
+    if (rise <= MAX_CLIMB_HEIGHT) return true;
+    return this.getTileBehavior(from)?.type === 'ramp' || this.getTileBehavior(to)?.type === 'ramp';
+  }
+
   /**
    * Add a new layer
    */
@@ -164,6 +273,38 @@ export class Level {
     return true;
   }
 
+  /**
+   * Change a layer's z-index and re-sort the layer order
+   */
+  setLayerZIndex(id: string, zIndex: number): boolean {
+    const layer = this.layerMap.get(id);
+    if (!layer) return false;
+
+    layer.setZIndex(zIndex);
+    this.sortLayers();
+    return true;
+  }
+
+  /**
+   * Get the next z-index above every existing layer
+   */
+  getNextZIndex(): number {
+    const top = this.layers[this.layers.length - 1];
+    return top ? top.config.zIndex + LAYER_Z_STEP : 0;
+  }
+
+  /**
+   * Create a layer ID derived from a name that is not used by any layer
+   */
+  createUniqueLayerId(name: string): string {
+    const base = name.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-+|-+$/g, '') || 'layer';
+    let id = base;
+    for (let suffix = 2; this.layerMap.has(id); suffix++) {
+      id = `${base}-${suffix}`;
+    }
+    return id;
+  }
+
   /**
    * Sort layers by z-index
    */
@@ -215,6 +356,98 @@ export class Level {
     return layer.removeTile(coord);
   }
 
+  /**
+   * Bounds of all placed tiles and behaviors, or null if there are none
+   */
+  getContentBounds(): GridBounds | null {
+    let bounds: GridBounds | null = null;
+    const include = ({ x, y }: GridCoord): void => {
+      bounds = bounds
+        ? {
+            minX: Math.min(bounds.minX, x),
+            minY: Math.min(bounds.minY, y),
+            maxX: Math.max(bounds.maxX, x),
+            maxY: Math.max(bounds.maxY, y),
+          }
+        : { minX: x, minY: y, maxX: x, maxY: y };
+    };
+
+    this.layers.forEach((layer) => layer.forEachTile((_tile, coord) => include(coord)));
+    this.tileBehaviors.forEach((_behavior, key) => include(fromPositionKey(key)));
+    return bounds;
+  }
+
+  /**
+   * List the content that resizing to width × height would drop
+   * `offset` is added to every position (new position = old position + offset).
+   */
+  getClippedContent(width: number, height: number, offset: GridCoord): ClippedLevelContent {
+    const fits = ({ x, y }: GridCoord): boolean =>
+      x + offset.x >= 0 && x + offset.x < width && y + offset.y >= 0 && y + offset.y < height;
+
+    const tiles: ClippedLevelContent['tiles'] = [];
+    for (const layer of this.layers) {
+      layer.forEachTile((tile, position) => {
+        if (!fits(position)) tiles.push({ layerId: layer.config.id, position, tile });
+      });
+    }
+
+    return {
+      tiles,
+      tileBehaviors: this.getTileBehaviors().filter((behavior) => !fits(behavior.position)),
+      elevations: this.getElevations().filter((elevation) => !fits(elevation.position)),
+    };
+  }
+
+  /**
+   * Resize the grid, moving all content by `offset`
+   * Content that ends up outside the grid is dropped and returned.
+   * Locked layers are moved as well.
+   */
+  resize(width: number, height: number, offset: GridCoord): ClippedLevelContent {
+    const clipped = this.getClippedContent(width, height, offset);
+    const shift = ({ x, y }: GridCoord): GridCoord => ({ x: x + offset.x, y: y + offset.y });
+    this._gridConfig = { ...this._gridConfig, width, height };
+
+    for (const layer of this.layers) {
+      const tiles = layer.getAllTiles();
+      layer.clear();
+      for (const { tile, coord } of tiles) {
+        const position = shift(coord);
+        if (this.isInBounds(position)) layer.setTile(position, tile);
+      }
+    }
+
+    const behaviors = this.getTileBehaviors();
+    const elevations = this.getElevations();
+    this.tileBehaviors.clear();
+    this.elevations.clear();
+    for (const { position, ...behavior } of behaviors) {
+      if (this.isInBounds(shift(position))) this.setTileBehavior(shift(position), behavior);
+    }
+    for (const { position, height: elevation } of elevations) {
+      if (this.isInBounds(shift(position))) this.setElevation(shift(position), elevation);
+    }
+
+    return clipped;
+  }
+
+  /**
+   * Put back content returned by `resize` (after resizing back)
+   * Positions outside the current grid are skipped.
+   */
+  restoreContent(content: ClippedLevelContent): void {
+    for (const { layerId, position, tile } of content.tiles) {
+      if (this.isInBounds(position)) this.layerMap.get(layerId)?.setTile(position, tile);
+    }
+    for (const { position, ...behavior } of content.tileBehaviors) {
+      if (this.isInBounds(position)) this.setTileBehavior(position, behavior);
+    }
+    for (const { position, height } of content.elevations) {
+      if (this.isInBounds(position)) this.setElevation(position, height);
+    }
+  }
+
   /**
    * Get topmost tile at a position (checking all visible layers from top to bottom)
    */
@@ -243,11 +476,13 @@ export class Level {
    */
   toData(): LevelData {
     return {
-      version: 1,
+      version: CURRENT_LEVEL_VERSION,
       metadata: { ...this.metadata },
-      grid: { ...this.gridConfig },
+      grid: { ...this._gridConfig },
       layers: this.layers.map((layer) => layer.toData()),
       tileBehaviors: this.getTileBehaviors(),
+      elevations: this.getElevations(),
+      cliffTileId: this._cliffTileId,
     };
   }
 
@@ -257,17 +492,45 @@ export class Level {
   static fromData(data: LevelData): Level {
     const level = new Level(data.metadata, data.grid);
 
+    // Validated data never has out-of-range entries; anything that slips
+    // through is left out rather than loaded where it cannot be edited or drawn
+    let skipped = 0;
+    const keep = (valid: boolean): boolean => {
+      if (!valid) skipped++;
+      return valid;
+    };
+
     for (const layerData of data.layers) {
-      const layer = Layer.fromData(layerData);
+      const tiles = layerData.tiles.filter((placement) =>
+        keep(level.isInBounds(placement.position) && placement.tileId < TOTAL_TILES)
+      );
+      const layer = Layer.fromData({ ...layerData, tiles });
       level.addLayer(layer);
     }
 
     if (data.tileBehaviors) {
       for (const placement of data.tileBehaviors) {
-        level.setTileBehavior(placement.position, placement);
+        if (keep(level.isInBounds(placement.position))) {
+          level.setTileBehavior(placement.position, placement);
+        }
       }
     }
 
+    if (data.elevations) {
+      for (const placement of data.elevations) {
+        if (keep(level.isInBounds(placement.position))) {
+          level.setElevation(placement.position, placement.height);
+        }
+      }
+    }
+
+    if (data.cliffTileId !== undefined && data.cliffTileId < TOTAL_TILES) {
+      level.setCliffTileId(data.cliffTileId);
+    }
+
+    if (skipped > 0) {
+      console.warn(`Level "${level.metadata.name}": skipped ${skipped} entries outside the grid or tile range`);
+    }
     return level;
   }
 
@@ -285,7 +548,9 @@ export class Level {
       const layer = new Layer({
         id: layerConfig.id,
         name: layerConfig.name,
+        type: layerConfig.id,
         zIndex: layerConfig.zIndex,
+        heightOffset: layerConfig.heightOffset,
       });
       level.addLayer(layer);
     }
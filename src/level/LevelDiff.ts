@@ -0,0 +1,126 @@
+/**
+ * Tile and behavior differences between two levels
+ */
+
+import {
+  GridCoord,
+  PositionKey,
+  TileData,
+  TileBehavior,
+  toPositionKey,
+  fromPositionKey,
+  isSameTile,
+  isSameBehavior,
+} from '../core/types';
+import { Level } from './Level';
+
+/** How a cell differs between two levels */
+export type LevelChangeType = 'added' | 'removed' | 'changed';
+
+/** A tile that differs on one layer */
+export interface TileChange {
+  readonly target: 'tile';
+  readonly type: LevelChangeType;
+  readonly layerId: string;
+  readonly position: GridCoord;
+  readonly before: TileData | null;
+  readonly after: TileData | null;
+}
+
+/** A cell whose behavior differs */
+export interface BehaviorChange {
+  readonly target: 'behavior';
+  readonly type: LevelChangeType;
+  readonly position: GridCoord;
+  readonly before: TileBehavior | null;
+  readonly after: TileBehavior | null;
+}
+
+export type LevelChange = TileChange | BehaviorChange;
+
+function getChangeType(before: unknown, after: unknown): LevelChangeType {
+  if (!before) return 'added';
+  if (!after) return 'removed';
+  return 'changed';
+}
+
+/**
+ * List the changes that turn `from` into `to`
+ * Only layers present in both levels and cells inside `from`'s bounds are compared.
+ */
+export function diffLevels(from: Level, to: Level): LevelChange[] {
+  const changes: LevelChange[] = [];
+
+  for (const layer of from.getLayers()) {
+    const otherLayer = to.getLayer(layer.config.id);
+    if (!otherLayer) continue;
+
+    const positions = new Set<PositionKey>();
+    layer.forEachTile((_tile, coord) => positions.add(toPositionKey(coord)));
+    otherLayer.forEachTile((_tile, coord) => positions.add(toPositionKey(coord)));
+
+    for (const key of positions) {
+      const position = fromPositionKey(key);
+      if (!from.isInBounds(position)) continue;
+
+      const before = layer.getTile(position);
+      const after = otherLayer.getTile(position);
+      if (isSameTile(before, after)) continue;
+
+      changes.push({
+        target: 'tile',
+        type: getChangeType(before, after),
+        layerId: layer.config.id,
+        position,
+        before,
+        after,
+      });
+    }
+  }
+
+  const positions = new Set<PositionKey>();
+  from.forEachTileBehavior((behavior) => positions.add(toPositionKey(behavior.position)));
+  to.forEachTileBehavior((behavior) => positions.add(toPositionKey(behavior.position)));
+
+  for (const key of positions) {
+    const position = fromPositionKey(key);
+    if (!from.isInBounds(position)) continue;
+
+    const before = from.getTileBehavior(position);
+    const after = to.getTileBehavior(position);
+    if (isSameBehavior(before, after)) continue;
+
+    changes.push({
+      target: 'behavior',
+      type: getChangeType(before, after),
+      position,
+      before,
+      after,
+    });
+  }
+
+  return changes;
+}
+
+/**
+ * Apply changes directly to a level (no undo history)
+ */
+export function applyLevelChanges(level: Level, changes: readonly LevelChange[]): void {
+  for (const change of changes) {
+    if (change.target === 'behavior') {
+      level.setTileBehavior(change.position, change.after);
+    } else if (change.after) {
+      level.setTile(change.layerId, change.position, change.after);
+    } else {
+      level.removeTile(change.layerId, change.position);
+    }
+  }
+}
+
+/**
+ * Stable key identifying the cell a change applies to
+ */
+export function getLevelChangeKey(change: LevelChange): string {
+  const position = toPositionKey(change.position);
+  return change.target === 'tile' ? `tile:${change.layerId}:${position}` : `behavior:${position}`;
+}
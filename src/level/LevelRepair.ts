@@ -0,0 +1,211 @@
+/**
+ * Repair mode for level data that fails validation
+ */
+
+import { TileId } from '../core/types';
+import { TOTAL_TILES } from '../core/constants';
+import { createId } from '../core/random';
+import { ValidationIssue, formatIssuePath } from './validation';
+
+export interface RepairOptions {
+  /** Check whether a tile exists (defaults to the built-in spritesheet range) */
+  isValidTileId?: (tileId: TileId) => boolean;
+}
+
+/** Repaired data and the recoverable issues that were fixed */
+export interface RepairResult {
+  /** Repaired data, still to be validated */
+  readonly data: unknown;
+  readonly issues: ValidationIssue[];
+  /** Original index of each kept entry, for arrays that had entries removed */
+  readonly sourceIndices: ReadonlyMap<string, readonly number[]>;
+}
+
+type UnknownRecord = Record<string, unknown>;
+
+type FixFn = (path: string, message: string) => void;
+
+interface GridSize {
+  width: number;
+  height: number;
+}
+
+function isRecord(value: unknown): value is UnknownRecord {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function isValidPosition(value: unknown): value is { x: number; y: number } {
+  return isRecord(value) && Number.isFinite(value.x) && Number.isFinite(value.y);
+}
+
+function readGridSize(grid: unknown): GridSize | null {
+  if (!isRecord(grid)) return null;
+  const { width, height } = grid;
+  if (!Number.isInteger(width) || !Number.isInteger(height)) return null;
+  if ((width as number) < 1 || (height as number) < 1) return null;
+  return { width: width as number, height: height as number };
+}
+
+function clampCoordinate(value: number, size: number | undefined): number {
+  const rounded = Math.round(value);
+  return Math.max(0, size === undefined ? rounded : Math.min(size - 1, rounded));
+}
+
+// ============================================================================
+// Repair
+// ============================================================================
+
+/**
+ * Fix the recoverable problems in (migrated) level data
+ *
+ * Out-of-range coordinates are clamped into the grid, tiles with unknown ids
+ * are dropped, duplicate placements keep the last entry (the one that used to
+ * win when loading), and missing metadata is filled in. The input is not
+ * modified; anything else is left for validation to report.
+ */
+export function repairLevelData(data: unknown, options: RepairOptions = {}): RepairResult {
+  const issues: ValidationIssue[] = [];
+  const sourceIndices = new Map<string, number[]>();
+  if (!isRecord(data)) return { data, issues, sourceIndices };
+
+  const isValidTileId =
+    options.isValidTileId ?? ((tileId: TileId) => tileId >= 0 && tileId < TOTAL_TILES);
+  const fix: FixFn = (path, message) => issues.push({ path, message, severity: 'recoverable' });
+  const grid = readGridSize(data.grid);
+  const repaired: UnknownRecord = { ...data, metadata: repairMetadata(data.metadata, fix) };
+
+  if (Array.isArray(data.layers)) {
+    repaired.layers = data.layers.map((layer: unknown, index) => {
+      if (!isRecord(layer) || !Array.isArray(layer.tiles)) return layer;
+
+      const path = formatIssuePath(['layers', index, 'tiles']);
+      const layerName = typeof layer.name === 'string' ? layer.name : `#${index}`;
+      const tiles = repairPlacements(layer.tiles, path, grid, fix, sourceIndices, {
+        label: `Layer "${layerName}": tile`,
+        accept: (tile, tilePath) => {
+          if (!Number.isInteger(tile.tileId) || isValidTileId(tile.tileId as number)) return true;
+          fix(tilePath, `Layer "${layerName}": tile #${String(tile.tileId)} does not exist; removed`);
+          return false;
+        },
+      });
+      return { ...layer, tiles };
+    });
+  }
+
+  const placementArrays = [
+    ['tileBehaviors', 'Behavior'],
+    ['elevations', 'Elevation'],
+  ] as const;
+  for (const [key, label] of placementArrays) {
+    const entries = data[key];
+    if (Array.isArray(entries)) {
+      repaired[key] = repairPlacements(entries, key, grid, fix, sourceIndices, { label });
+    }
+  }
+
+  if (Number.isInteger(data.cliffTileId) && !isValidTileId(data.cliffTileId as number)) {
+    fix('cliffTileId', `Cliff tile #${String(data.cliffTileId)} does not exist; removed`);
+    delete repaired.cliffTileId;
+  }
+
+  return { data: repaired, issues, sourceIndices };
+}
+
+/**
+ * Fill in missing or malformed metadata fields
+ */
+function repairMetadata(metadata: unknown, fix: FixFn): unknown {
+  const now = new Date().toISOString();
+  if (!isRecord(metadata)) {
+    fix('metadata', 'Metadata is missing; defaults were filled in');
+    return {
+      id: createId('level'),
+      name: 'Untitled Level',
+      created: now,
+      modified: now,
+      version: 1,
+    };
+  }
+
+  const repaired: UnknownRecord = { ...metadata };
+  const fill = (key: string, label: string, value: unknown): void => {
+    repaired[key] = value;
+    fix(`metadata.${key}`, `Missing ${label}; set to ${JSON.stringify(value)}`);
+  };
+
+  if (typeof metadata.id !== 'string') fill('id', 'level id', createId('level'));
+  if (typeof metadata.name !== 'string') fill('name', 'level name', 'Untitled Level');
+  if (typeof metadata.created !== 'string') fill('created', 'creation date', now);
+  if (typeof metadata.modified !== 'string') fill('modified', 'modification date', now);
+  if (!Number.isInteger(metadata.version) || (metadata.version as number) < 1) {
+    fill('version', 'level revision', 1);
+  }
+  if (metadata.author !== undefined && typeof metadata.author !== 'string') {
+    delete repaired.author;
+    fix('metadata.author', 'Author is not text; removed');
+  }
+  return repaired;
+}
+
+interface PlacementRules {
+  /** Start of messages about an entry, e.g. `Behavior` */
+  label: string;
+  /** Return false (after reporting) to drop an entry */
+  accept?: (entry: UnknownRecord, path: string) => boolean;
+}
+
+/**
+ * Clamp positions into the grid, then drop rejected and duplicate entries
+ * Entries without a readable position are kept for validation to report.
+ */
+function repairPlacements(
+  entries: unknown[],
+  path: string,
+  grid: GridSize | null,
+  fix: FixFn,
+  sourceIndices: Map<string, number[]>,
+  rules: PlacementRules
+): unknown[] {
+  const kept: Array<{ entry: unknown; index: number }> = [];
+  const byPosition = new Map<string, number>();
+
+  entries.forEach((entry, index) => {
+    const entryPath = `${path}[${index}]`;
+    if (!isRecord(entry) || !isValidPosition(entry.position)) {
+      kept.push({ entry, index });
+      return;
+    }
+    if (rules.accept && !rules.accept(entry, entryPath)) return;
+
+    const { x, y } = entry.position;
+    const position = { x: clampCoordinate(x, grid?.width), y: clampCoordinate(y, grid?.height) };
+    let placed: UnknownRecord = entry;
+    if (position.x !== x || position.y !== y) {
+      const cells = grid ? `a cell of the ${grid.width}×${grid.height} grid` : 'a grid cell';
+      fix(
+        `${entryPath}.position`,
+        `${rules.label} at (${x}, ${y}) is not ${cells}; moved to (${position.x}, ${position.y})`
+      );
+      placed = { ...entry, position };
+    }
+
+    const key = `${position.x},${position.y}`;
+    const previous = byPosition.get(key);
+    if (previous !== undefined) {
+      const removed = kept[previous]!;
+      fix(
+        `${path}[${removed.index}]`,
+        `${rules.label} at (${position.x}, ${position.y}) is placed again later; this entry was removed`
+      );
+      kept[previous] = { entry: placed, index };
+      return;
+    }
+    byPosition.set(key, kept.length);
+    kept.push({ entry: placed, index });
+  });
+
+  if (kept.length !== entries.length) {
+    sourceIndices.set(path, kept.map((item) => item.index));
+  }
+  return kept.map((item) => item.entry);
+}
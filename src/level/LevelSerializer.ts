@@ -4,13 +4,45 @@
 
 import { LevelData } from '../core/types';
 import { Level } from './Level';
-import { validateLevelData } from './validation';
+import { AppliedMigration, MigrationReport, migrateLevelData } from './migrations';
+import { RepairOptions, repairLevelData } from './LevelRepair';
+import { ValidationIssue, getValidationIssues, safeParseLevelData } from './validation';
 
 export interface SerializeOptions {
   /** Pretty print JSON */
   pretty?: boolean;
 }
 
+export interface DeserializeOptions extends RepairOptions {
+  /** Load data with recoverable issues after repairing it */
+  repair?: boolean;
+}
+
+/** Everything found wrong with a level file */
+export interface LevelValidationReport {
+  /** Fatal issues first, then recoverable ones */
+  readonly issues: ValidationIssue[];
+  /** Format migrations applied before validation */
+  readonly migrations: AppliedMigration[];
+  /** True when repair mode can load the level (no fatal issues) */
+  readonly canRepair: boolean;
+}
+
+/**
+ * Thrown when level data has issues; carries the full report
+ */
+export class LevelValidationError extends Error {
+  constructor(readonly report: LevelValidationReport) {
+    const first = report.issues[0];
+    const where = first?.path ? ` (${first.path})` : '';
+    super(
+      `Level has ${report.issues.length} problem${report.issues.length === 1 ? '' : 's'}` +
+        (first ? `: ${first.message}${where}` : '')
+    );
+    this.name = 'LevelValidationError';
+  }
+}
+
 /**
  * Serialize a level to JSON string
  */
@@ -21,13 +53,81 @@ export function serializeLevel(level: Level, options: SerializeOptions = {}): st
     : JSON.stringify(data);
 }
 
+/**
+ * Check if levels can be hashed
+ * `crypto.subtle` only exists on secure origins (https or localhost).
+ */
+export function canHashLevel(): boolean {
+  return typeof crypto !== 'undefined' && crypto.subtle !== undefined;
+}
+
+/**
+ * Hash a level's JSON (SHA-256, hex) to detect whether a stored copy still matches
+ * The level is serialized immediately, so later edits do not affect the result
+ */
+export function hashLevel(level: Level): Promise<string> {
+  if (!canHashLevel()) {
+    return Promise.reject(new Error('Level hashing needs a secure origin (https or localhost)'));
+  }
+
+  const bytes = new TextEncoder().encode(serializeLevel(level));
+  return crypto.subtle.digest('SHA-256', bytes).then((digest) =>
+    Array.from(new Uint8Array(digest), (byte) => byte.toString(16).padStart(2, '0')).join('')
+  );
+}
+
+/**
+ * Check level JSON without loading it
+ * Returns the validation report and, when repair can load it, the repaired data.
+ */
+export function checkLevelJson(
+  json: string,
+  options: RepairOptions = {}
+): { report: LevelValidationReport; data: LevelData | null } {
+  const fatal = (path: string, message: string) => ({
+    report: { issues: [{ path, message, severity: 'fatal' as const }], migrations: [], canRepair: false },
+    data: null,
+  });
+
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(json) as unknown;
+  } catch (error) {
+    return fatal('', `Not valid JSON: ${error instanceof Error ? error.message : String(error)}`);
+  }
+
+  let migration: MigrationReport;
+  try {
+    migration = migrateLevelData(parsed);
+  } catch (error) {
+    return fatal('version', error instanceof Error ? error.message : String(error));
+  }
+
+  const repaired = repairLevelData(migration.data, options);
+  const result = safeParseLevelData(repaired.data);
+  const fatalIssues = result.success ? [] : getValidationIssues(result.error, repaired.sourceIndices);
+
+  return {
+    report: {
+      issues: [...fatalIssues, ...repaired.issues],
+      migrations: migration.applied,
+      canRepair: result.success,
+    },
+    data: result.success ? result.data : null,
+  };
+}
+
 /**
  * Deserialize a level from JSON string
+ * Data saved in an older format version is migrated before validation.
+ * @throws LevelValidationError if the data has issues (only fatal ones in repair mode)
  */
-export function deserializeLevel(json: string): Level {
-  const data = JSON.parse(json) as unknown;
-  const validatedData = validateLevelData(data);
-  return Level.fromData(validatedData);
+export function deserializeLevel(json: string, options: DeserializeOptions = {}): Level {
+  const { report, data } = checkLevelJson(json, options);
+  if (!data || (report.issues.length > 0 && !options.repair)) {
+    throw new LevelValidationError(report);
+  }
+  return Level.fromData(data);
 }
 
 /**
@@ -50,14 +150,14 @@ export function downloadLevel(level: Level, filename?: string): void {
 /**
  * Load level from a file (via file input)
  */
-export function loadLevelFromFile(file: File): Promise<Level> {
+export function loadLevelFromFile(file: File, options: DeserializeOptions = {}): Promise<Level> {
   return new Promise((resolve, reject) => {
     const reader = new FileReader();
 
     reader.onload = (event) => {
       try {
         const json = event.target?.result as string;
-        const level = deserializeLevel(json);
+        const level = deserializeLevel(json, options);
         resolve(level);
       } catch (error) {
         reject(error);
@@ -82,16 +182,16 @@ export function saveToLocalStorage(level: Level, key: string = 'isometric_level'
 
 /**
  * Load level from localStorage
+ * Returns null if nothing is stored
+ * @throws LevelValidationError if the stored level has issues
  */
-export function loadFromLocalStorage(key: string = 'isometric_level'): Level | null {
+export function loadFromLocalStorage(
+  key: string = 'isometric_level',
+  options: DeserializeOptions = {}
+): Level | null {
   const json = localStorage.getItem(key);
   if (!json) return null;
-
-  try {
-    return deserializeLevel(json);
-  } catch {
-    return null;
-  }
+  return deserializeLevel(json, options);
 }
 
 /**
@@ -0,0 +1,1150 @@
+/**
+ * Tiled map editor (TMJ/TMX) import and export
+ */
+
+import {
+  CardinalDirection,
+  ElevationPlacement,
+  LayerData,
+  LayerType,
+  LevelData,
+  TileBehavior,
+  TileBehaviorPlacement,
+  TileBehaviorType,
+  TileOrientation,
+  TilePlacement,
+  TileRotation,
+} from '../core/types';
+import {
+  CURRENT_LEVEL_VERSION,
+  ISO_TILE_HEIGHT,
+  ISO_TILE_WIDTH,
+  LAYER_Z_STEP,
+  MAX_GRID_SIZE,
+  MAX_LAYER_HEIGHT_OFFSET,
+  SPRITESHEET_COLUMNS,
+  SPRITESHEET_PATH,
+  TILE_HEIGHT,
+  TILE_WIDTH,
+  TOTAL_TILES,
+} from '../core/constants';
+import { createId } from '../core/random';
+import { Level } from './Level';
+import { schemas, validateLevelData } from './validation';
+
+// ============================================================================
+// Tiled Map Format
+// ============================================================================
+
+/** Tiled file flavours: JSON (.tmj) and XML (.tmx) */
+export type TiledFormat = 'tmj' | 'tmx';
+
+export type TiledPropertyType = 'string' | 'int' | 'float' | 'bool';
+
+/** Custom property attached to a map, layer or object */
+export interface TiledProperty {
+  name: string;
+  type?: TiledPropertyType;
+  value: string | number | boolean;
+}
+
+export interface TiledTileLayer {
+  type: 'tilelayer';
+  id?: number;
+  name: string;
+  x?: number;
+  y?: number;
+  width: number;
+  height: number;
+  opacity?: number;
+  visible?: boolean;
+  locked?: boolean;
+  offsetx?: number;
+  offsety?: number;
+  /** Global tile ids (CSV) or a base64 string */
+  data?: number[] | string;
+  encoding?: 'csv' | 'base64';
+  compression?: string;
+  /** Present on infinite maps */
+  chunks?: unknown[];
+  properties?: TiledProperty[];
+}
+
+export interface TiledObject {
+  id?: number;
+  name?: string;
+  type?: string;
+  /** Tiled 1.9+ TMX name for `type` */
+  class?: string;
+  x: number;
+  y: number;
+  width?: number;
+  height?: number;
+  gid?: number;
+  properties?: TiledProperty[];
+}
+
+export interface TiledObjectGroup {
+  type: 'objectgroup';
+  id?: number;
+  name: string;
+  visible?: boolean;
+  objects: TiledObject[];
+  properties?: TiledProperty[];
+}
+
+export interface TiledGroupLayer {
+  type: 'group';
+  id?: number;
+  name: string;
+  layers: TiledLayer[];
+}
+
+/** Layers this editor cannot represent (image layers and anything newer) */
+export interface TiledOtherLayer {
+  type: string;
+  id?: number;
+  name: string;
+}
+
+export type TiledLayer = TiledTileLayer | TiledObjectGroup | TiledGroupLayer | TiledOtherLayer;
+
+export interface TiledTileset {
+  firstgid: number;
+  name?: string;
+  /** External tileset file (.tsx/.tsj) */
+  source?: string;
+  image?: string;
+  imagewidth?: number;
+  imageheight?: number;
+  tilewidth?: number;
+  tileheight?: number;
+  tilecount?: number;
+  columns?: number;
+  margin?: number;
+  spacing?: number;
+}
+
+export interface TiledMap {
+  type: 'map';
+  version: string;
+  tiledversion?: string;
+  orientation: string;
+  renderorder?: string;
+  width: number;
+  height: number;
+  tilewidth: number;
+  tileheight: number;
+  infinite: boolean;
+  nextlayerid?: number;
+  nextobjectid?: number;
+  layers: TiledLayer[];
+  tilesets: TiledTileset[];
+  properties?: TiledProperty[];
+}
+
+/** A converted level plus everything that could not be represented */
+export interface TiledImportResult {
+  level: Level;
+  warnings: string[];
+}
+
+export interface TiledImportOptions {
+  /** Level name used when the map does not carry one (e.g. the file name) */
+  name?: string;
+}
+
+/** Name of the object layer that holds tile behaviors */
+export const TILED_BEHAVIOR_LAYER = 'tileBehaviors';
+
+const TILED_MAP_VERSION = '1.10';
+const TILED_VERSION = '1.10.2';
+const TILESET_NAME = 'spritesheet';
+const FIRST_GID = 1;
+
+// Flag bits stored in the top of a global tile id
+const FLIPPED_HORIZONTALLY_FLAG = 0x80000000;
+const FLIPPED_VERTICALLY_FLAG = 0x40000000;
+const FLIPPED_DIAGONALLY_FLAG = 0x20000000;
+const ROTATED_HEXAGONAL_120_FLAG = 0x10000000;
+const GID_MASK = 0x0fffffff;
+
+const BEHAVIOR_TYPES: readonly TileBehaviorType[] = [
+  'floor',
+  'blocker',
+  'slow',
+  'hole',
+  'conveyor',
+  'hazard-burn',
+  'door',
+  'exit',
+  'spawn',
+  'ramp',
+];
+const LAYER_TYPES: readonly LayerType[] = ['terrain', 'props', 'decorations', 'custom'];
+const DIRECTIONS: readonly CardinalDirection[] = ['north', 'east', 'south', 'west'];
+const BEHAVIOR_PROPERTIES = new Set(['behavior', 'direction', 'doorId', 'open', 'damage']);
+
+// ============================================================================
+// Orientation <-> Flip Flags
+// ============================================================================
+
+/** 2x2 matrix [a, b, c, d] mapping (x, y) to (ax + by, cx + dy), y pointing down */
+type Matrix = readonly [number, number, number, number];
+
+const IDENTITY: Matrix = [1, 0, 0, 1];
+
+const ROTATION_MATRICES: Record<TileRotation, Matrix> = {
+  0: IDENTITY,
+  90: [0, -1, 1, 0],
+  180: [-1, 0, 0, -1],
+  270: [0, 1, -1, 0],
+};
+
+function multiply(m: Matrix, n: Matrix): Matrix {
+  return [
+    m[0] * n[0] + m[1] * n[2],
+    m[0] * n[1] + m[1] * n[3],
+    m[2] * n[0] + m[3] * n[2],
+    m[2] * n[1] + m[3] * n[3],
+  ];
+}
+
+/** The renderer flips first, then rotates */
+function orientationMatrix(orientation: TileOrientation): Matrix {
+  const flip: Matrix = [orientation.flipX ? -1 : 1, 0, 0, orientation.flipY ? -1 : 1];
+  return multiply(ROTATION_MATRICES[orientation.rotation ?? 0], flip);
+}
+
+/** Tiled flips diagonally first, then horizontally, then vertically */
+function flagsMatrix(flags: number): Matrix {
+  let matrix = IDENTITY;
+  if (flags & FLIPPED_DIAGONALLY_FLAG) matrix = multiply([0, 1, 1, 0], matrix);
+  if (flags & FLIPPED_HORIZONTALLY_FLAG) matrix = multiply([-1, 0, 0, 1], matrix);
+  if (flags & FLIPPED_VERTICALLY_FLAG) matrix = multiply([1, 0, 0, -1], matrix);
+  return matrix;
+}
+
+const FLAGS_BY_MATRIX = new Map<string, number>();
+const ORIENTATION_BY_MATRIX = new Map<string, TileOrientation>();
+
+for (const d of [0, FLIPPED_DIAGONALLY_FLAG]) {
+  for (const h of [0, FLIPPED_HORIZONTALLY_FLAG]) {
+    for (const v of [0, FLIPPED_VERTICALLY_FLAG]) {
+      const flags = (d | h | v) >>> 0;
+      FLAGS_BY_MATRIX.set(flagsMatrix(flags).join(), flags);
+    }
+  }
+}
+
+// Prefer the orientation with the fewest fields so imports round-trip cleanly
+const ORIENTATION_CANDIDATES: TileOrientation[] = [];
+for (const rotation of [0, 90, 180, 270] as TileRotation[]) {
+  for (const flipX of [false, true]) {
+    for (const flipY of [false, true]) {
+      ORIENTATION_CANDIDATES.push({
+        ...(rotation ? { rotation } : {}),
+        ...(flipX ? { flipX: true } : {}),
+        ...(flipY ? { flipY: true } : {}),
+      });
+    }
+  }
+}
+ORIENTATION_CANDIDATES.sort((a, b) => Object.keys(a).length - Object.keys(b).length);
+for (const orientation of ORIENTATION_CANDIDATES) {
+  const key = orientationMatrix(orientation).join();
+  if (!ORIENTATION_BY_MATRIX.has(key)) {
+    ORIENTATION_BY_MATRIX.set(key, orientation);
+  }
+}
+
+/**
+ * Get the Tiled flip flags that draw a tile with an orientation
+ */
+export function orientationToTiledFlags(orientation: TileOrientation): number {
+  return FLAGS_BY_MATRIX.get(orientationMatrix(orientation).join()) ?? 0;
+}
+
+/**
+ * Get the orientation matching Tiled flip flags
+ */
+export function tiledFlagsToOrientation(flags: number): TileOrientation {
+  return ORIENTATION_BY_MATRIX.get(flagsMatrix(flags).join()) ?? {};
+}
+
+// ============================================================================
+// Export
+// ============================================================================
+
+/**
+ * Convert a level to a Tiled map
+ * Layers become tile layers (bottom first), behaviors an object layer named
+ * `tileBehaviors`, and level metadata, elevation and the cliff tile map properties.
+ */
+export function levelToTiledMap(level: Level): TiledMap {
+  const { gridWidth: width, gridHeight: height } = level;
+  const layers: TiledLayer[] = [];
+  let nextLayerId = 1;
+
+  for (const layer of level.getLayers()) {
+    const data = new Array<number>(width * height).fill(0);
+    layer.forEachTile((tile, coord) => {
+      if (!level.isInBounds(coord)) return;
+      data[coord.y * width + coord.x] = (FIRST_GID + tile.tileId + orientationToTiledFlags(tile)) >>> 0;
+    });
+
+    const { config } = layer;
+    const properties: TiledProperty[] = [{ name: 'layerId', type: 'string', value: config.id }];
+    if (config.type) {
+      properties.push({ name: 'layerType', type: 'string', value: config.type });
+    }
+
+    layers.push({
+      type: 'tilelayer',
+      id: nextLayerId++,
+      name: config.name,
+      x: 0,
+      y: 0,
+      width,
+      height,
+      opacity: config.opacity,
+      visible: config.visible,
+      locked: config.locked,
+      offsetx: 0,
+      offsety: -config.heightOffset,
+      encoding: 'csv',
+      data,
+      properties,
+    });
+  }
+
+  const objects: TiledObject[] = [];
+  let nextObjectId = 1;
+  level.forEachTileBehavior((placement) => {
+    const { position, type } = placement;
+    const properties: TiledProperty[] = [];
+    if (placement.direction) properties.push({ name: 'direction', type: 'string', value: placement.direction });
+    if (placement.doorId) properties.push({ name: 'doorId', type: 'string', value: placement.doorId });
+    if (placement.open !== undefined) properties.push({ name: 'open', type: 'bool', value: placement.open });
+    if (placement.damage !== undefined) properties.push({ name: 'damage', type: 'int', value: placement.damage });
+
+    // Isometric object coordinates are measured in tile heights along both axes
+    objects.push({
+      id: nextObjectId++,
+      name: type,
+      type,
+      x: position.x * ISO_TILE_HEIGHT,
+      y: position.y * ISO_TILE_HEIGHT,
+      width: ISO_TILE_HEIGHT,
+      height: ISO_TILE_HEIGHT,
+      ...(properties.length > 0 ? { properties } : {}),
+    });
+  });
+
+  layers.push({
+    type: 'objectgroup',
+    id: nextLayerId++,
+    name: TILED_BEHAVIOR_LAYER,
+    visible: true,
+    objects,
+  });
+
+  const { metadata } = level;
+  const properties: TiledProperty[] = [
+    { name: 'levelId', type: 'string', value: metadata.id },
+    { name: 'levelName', type: 'string', value: metadata.name },
+    { name: 'created', type: 'string', value: metadata.created },
+    { name: 'modified', type: 'string', value: metadata.modified },
+    { name: 'cliffTileId', type: 'int', value: level.cliffTileId },
+  ];
+  if (metadata.author) {
+    properties.push({ name: 'author', type: 'string', value: metadata.author });
+  }
+  const elevations = level.getElevations();
+  if (elevations.length > 0) {
+    properties.push({ name: 'elevations', type: 'string', value: JSON.stringify(elevations) });
+  }
+
+  return {
+    type: 'map',
+    version: TILED_MAP_VERSION,
+    tiledversion: TILED_VERSION,
+    orientation: 'isometric',
+    renderorder: 'right-down',
+    width,
+    height,
+    tilewidth: ISO_TILE_WIDTH,
+    tileheight: ISO_TILE_HEIGHT,
+    infinite: false,
+    nextlayerid: nextLayerId,
+    nextobjectid: nextObjectId,
+    layers,
+    tilesets: [
+      {
+        firstgid: FIRST_GID,
+        name: TILESET_NAME,
+        image: SPRITESHEET_PATH,
+        imagewidth: SPRITESHEET_COLUMNS * TILE_WIDTH,
+        imageheight: Math.ceil(TOTAL_TILES / SPRITESHEET_COLUMNS) * TILE_HEIGHT,
+        tilewidth: TILE_WIDTH,
+        tileheight: TILE_HEIGHT,
+        tilecount: TOTAL_TILES,
+        columns: SPRITESHEET_COLUMNS,
+        margin: 0,
+        spacing: 0,
+      },
+    ],
+    properties,
+  };
+}
+
+/**
+ * Serialize a level as a Tiled JSON (.tmj) or XML (.tmx) document
+ */
+export function serializeTiledMap(level: Level, format: TiledFormat): string {
+  const map = levelToTiledMap(level);
+  return format === 'tmx' ? writeTmx(map) : JSON.stringify(map, null, 2);
+}
+
+function writeTmx(map: TiledMap): string {
+  const lines = [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    `<map ${xmlAttributes({
+      version: map.version,
+      tiledversion: map.tiledversion,
+      orientation: map.orientation,
+      renderorder: map.renderorder,
+      width: map.width,
+      height: map.height,
+      tilewidth: map.tilewidth,
+      tileheight: map.tileheight,
+      infinite: map.infinite ? 1 : 0,
+      nextlayerid: map.nextlayerid,
+      nextobjectid: map.nextobjectid,
+    })}>`,
+    ...writeTmxProperties(map.properties, ' '),
+  ];
+
+  for (const tileset of map.tilesets) {
+    lines.push(
+      ` <tileset ${xmlAttributes({
+        firstgid: tileset.firstgid,
+        name: tileset.name,
+        tilewidth: tileset.tilewidth,
+        tileheight: tileset.tileheight,
+        tilecount: tileset.tilecount,
+        columns: tileset.columns,
+      })}>`,
+      `  <image ${xmlAttributes({
+        source: tileset.image,
+        width: tileset.imagewidth,
+        height: tileset.imageheight,
+      })}/>`,
+      ' </tileset>'
+    );
+  }
+
+  for (const layer of map.layers) {
+    if (layer.type === 'tilelayer') {
+      const tileLayer = layer as TiledTileLayer;
+      const data = Array.isArray(tileLayer.data) ? tileLayer.data : [];
+      const rows: string[] = [];
+      for (let y = 0; y < tileLayer.height; y++) {
+        rows.push(data.slice(y * tileLayer.width, (y + 1) * tileLayer.width).join(','));
+      }
+
+      lines.push(
+        ` <layer ${xmlAttributes({
+          id: tileLayer.id,
+          name: tileLayer.name,
+          width: tileLayer.width,
+          height: tileLayer.height,
+          opacity: tileLayer.opacity === 1 ? undefined : tileLayer.opacity,
+          visible: tileLayer.visible === false ? 0 : undefined,
+          locked: tileLayer.locked ? 1 : undefined,
+          offsety: tileLayer.offsety || undefined,
+        })}>`,
+        ...writeTmxProperties(tileLayer.properties, '  '),
+        '  <data encoding="csv">',
+        rows.join(',\n'),
+        '</data>',
+        ' </layer>'
+      );
+    } else if (layer.type === 'objectgroup') {
+      const group = layer as TiledObjectGroup;
+      lines.push(` <objectgroup ${xmlAttributes({ id: group.id, name: group.name })}>`);
+      for (const object of group.objects) {
+        const attributes = xmlAttributes({
+          id: object.id,
+          name: object.name,
+          type: object.type,
+          x: object.x,
+          y: object.y,
+          width: object.width,
+          height: object.height,
+        });
+        if (object.properties?.length) {
+          lines.push(`  <object ${attributes}>`, ...writeTmxProperties(object.properties, '   '), '  </object>');
+        } else {
+          lines.push(`  <object ${attributes}/>`);
+        }
+      }
+      lines.push(' </objectgroup>');
+    }
+  }
+
+  lines.push('</map>', '');
+  return lines.join('\n');
+}
+
+function writeTmxProperties(properties: TiledProperty[] | undefined, indent: string): string[] {
+  if (!properties?.length) return [];
+  return [
+    `${indent}<properties>`,
+    ...properties.map(
+      (property) =>
+        `${indent} <property ${xmlAttributes({
+          name: property.name,
+          type: property.type === 'string' ? undefined : property.type,
+          value: String(property.value),
+        })}/>`
+    ),
+    `${indent}</properties>`,
+  ];
+}
+
+function xmlAttributes(attributes: Record<string, string | number | undefined>): string {
+  return Object.entries(attributes)
+    .filter((entry): entry is [string, string | number] => entry[1] !== undefined)
+    .map(([name, value]) => `${name}="${escapeXml(String(value))}"`)
+    .join(' ');
+}
+
+function escapeXml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/\n/g, '&#10;');
+}
+
+// ============================================================================
+// Import
+// ============================================================================
+
+/**
+ * Convert a Tiled map to a level
+ * Anything the level format cannot hold is skipped and reported in `warnings`.
+ * @throws Error if the document is not a usable Tiled map
+ */
+export function tiledMapToLevel(map: TiledMap, options: TiledImportOptions = {}): TiledImportResult {
+  const warnings: string[] = [];
+  const width = toInteger(map.width);
+  const height = toInteger(map.height);
+  if (!width || !height) {
+    throw new Error('Tiled map has no width or height');
+  }
+
+  // Larger maps keep their top-left corner
+  const gridWidth = Math.min(width, MAX_GRID_SIZE);
+  const gridHeight = Math.min(height, MAX_GRID_SIZE);
+  if (gridWidth < width || gridHeight < height) {
+    warnings.push(
+      `Map size ${width}x${height} exceeds the ${MAX_GRID_SIZE}x${MAX_GRID_SIZE} limit; it was cropped to ${gridWidth}x${gridHeight}.`
+    );
+  }
+
+  if (map.orientation !== 'isometric') {
+    warnings.push(`Map orientation "${map.orientation}" is not isometric; tiles keep their grid positions.`);
+  }
+  if (map.infinite) {
+    warnings.push('Infinite maps are not supported; chunked layer data is skipped.');
+  }
+  if (map.tilewidth !== ISO_TILE_WIDTH || map.tileheight !== ISO_TILE_HEIGHT) {
+    warnings.push(
+      `Map tile size ${map.tilewidth}x${map.tileheight} differs from ${ISO_TILE_WIDTH}x${ISO_TILE_HEIGHT}; the editor grid size is used.`
+    );
+  }
+
+  const tileset = pickTileset(map.tilesets ?? [], warnings);
+  const properties = readProperties(map.properties);
+  const layers: LayerData[] = [];
+  const layerIds = new Set<string>();
+  const behaviors = new Map<string, TileBehaviorPlacement>();
+  const counts = { foreignTiles: 0, unknownTiles: 0, hexagonalTiles: 0, croppedTiles: 0 };
+
+  const importTileLayer = (layer: TiledTileLayer): void => {
+    const gids = readLayerData(layer, width, height, warnings);
+    if (!gids) return;
+
+    const layerProperties = readProperties(layer.properties);
+    const id = uniqueLayerId(String(layerProperties.get('layerId') ?? slugify(layer.name)), layerIds);
+    const layerType = layerProperties.get('layerType');
+    if (layer.offsetx) {
+      warnings.push(`Layer "${layer.name}": horizontal offset ${layer.offsetx} is not supported.`);
+    }
+    const heightOffset = clamp(-(layer.offsety ?? 0), -MAX_LAYER_HEIGHT_OFFSET, MAX_LAYER_HEIGHT_OFFSET);
+    if (heightOffset !== -(layer.offsety ?? 0)) {
+      warnings.push(
+        `Layer "${layer.name}": vertical offset ${layer.offsety} is beyond ±${MAX_LAYER_HEIGHT_OFFSET} and was clamped.`
+      );
+    }
+
+    const tiles: TilePlacement[] = [];
+    gids.forEach((raw, index) => {
+      const gid = (raw >>> 0) & GID_MASK;
+      if (gid === 0) return;
+
+      const flags = (raw >>> 0) - gid;
+      if (flags & ROTATED_HEXAGONAL_120_FLAG) counts.hexagonalTiles++;
+
+      const tileId = gid - tileset.firstgid;
+      if (gid < tileset.firstgid || (tileset.tilecount !== undefined && tileId >= tileset.tilecount)) {
+        counts.foreignTiles++;
+        return;
+      }
+      if (tileId >= TOTAL_TILES) {
+        counts.unknownTiles++;
+        return;
+      }
+
+      const position = { x: index % width, y: Math.floor(index / width) };
+      if (position.x >= gridWidth || position.y >= gridHeight) {
+        counts.croppedTiles++;
+        return;
+      }
+      tiles.push({ tileId, position, ...tiledFlagsToOrientation(flags) });
+    });
+
+    layers.push({
+      id,
+      name: layer.name || id,
+      ...(typeof layerType === 'string' && (LAYER_TYPES as readonly string[]).includes(layerType)
+        ? { type: layerType as LayerType }
+        : {}),
+      zIndex: layers.length * LAYER_Z_STEP,
+      visible: layer.visible !== false,
+      locked: layer.locked === true,
+      opacity: clamp(layer.opacity ?? 1, 0, 1),
+      heightOffset,
+      tiles,
+    });
+  };
+
+  const importBehaviorLayer = (group: TiledObjectGroup): void => {
+    // Isometric object coordinates are measured in tile heights along both axes
+    const cellWidth = map.orientation === 'isometric' ? map.tileheight : map.tilewidth;
+    const cellHeight = map.tileheight;
+
+    for (const object of group.objects ?? []) {
+      const label = `Behavior object ${object.id ?? object.name ?? ''}`.trim();
+      const objectProperties = readProperties(object.properties);
+      const type = object.type || object.class || objectProperties.get('behavior');
+      if (typeof type !== 'string' || !(BEHAVIOR_TYPES as readonly string[]).includes(type)) {
+        warnings.push(`${label}: unknown behavior "${String(type ?? '')}" skipped.`);
+        continue;
+      }
+
+      const position = {
+        x: Math.floor(object.x / cellWidth),
+        y: Math.floor(object.y / cellHeight),
+      };
+      if (position.x < 0 || position.y < 0 || position.x >= gridWidth || position.y >= gridHeight) {
+        warnings.push(`${label}: position (${position.x}, ${position.y}) is outside the map and was skipped.`);
+        continue;
+      }
+
+      const behavior = readBehavior(type as TileBehaviorType, objectProperties, label, warnings);
+      const key = `${position.x},${position.y}`;
+      if (behaviors.has(key)) {
+        warnings.push(`${label}: cell (${key}) already has a behavior; the later object wins.`);
+      }
+      behaviors.set(key, { ...behavior, position });
+    }
+  };
+
+  const visit = (layer: TiledLayer, path: string): void => {
+    const name = `${path}${layer.name}`;
+    switch (layer.type) {
+      case 'tilelayer':
+        importTileLayer({ ...(layer as TiledTileLayer), name });
+        break;
+      case 'objectgroup':
+        if (layer.name === TILED_BEHAVIOR_LAYER) {
+          importBehaviorLayer(layer as TiledObjectGroup);
+        } else {
+          const count = (layer as TiledObjectGroup).objects?.length ?? 0;
+          warnings.push(`Object layer "${name}" (${count} objects) is not supported and was skipped.`);
+        }
+        break;
+      case 'group':
+        warnings.push(`Group layer "${name}" was flattened into its child layers.`);
+        for (const child of (layer as TiledGroupLayer).layers ?? []) {
+          visit(child, `${name}/`);
+        }
+        break;
+      default:
+        warnings.push(`${layer.type} "${name}" is not supported and was skipped.`);
+    }
+  };
+
+  for (const layer of map.layers ?? []) {
+    visit(layer, '');
+  }
+
+  if (counts.foreignTiles > 0) {
+    warnings.push(`Skipped ${counts.foreignTiles} tile(s) from other tilesets.`);
+  }
+  if (counts.unknownTiles > 0) {
+    warnings.push(`Skipped ${counts.unknownTiles} tile(s) beyond the ${TOTAL_TILES}-tile spritesheet.`);
+  }
+  if (counts.croppedTiles > 0) {
+    warnings.push(`Skipped ${counts.croppedTiles} tile(s) outside the cropped map.`);
+  }
+  if (counts.hexagonalTiles > 0) {
+    warnings.push(`Ignored hexagonal 120° rotation on ${counts.hexagonalTiles} tile(s).`);
+  }
+  if (layers.length === 0) {
+    warnings.push('The map has no tile layers; an empty Terrain layer was added.');
+    layers.push({
+      id: 'terrain',
+      name: 'Terrain',
+      type: 'terrain',
+      zIndex: 0,
+      visible: true,
+      locked: false,
+      opacity: 1,
+      heightOffset: 0,
+      tiles: [],
+    });
+  }
+
+  const now = new Date().toISOString();
+  const levelName = properties.get('levelName');
+  const author = properties.get('author');
+  const data: LevelData = {
+    version: CURRENT_LEVEL_VERSION,
+    metadata: {
+      id: stringProperty(properties, 'levelId') ?? createId('level'),
+      name: typeof levelName === 'string' && levelName ? levelName : options.name ?? 'Imported Tiled Map',
+      ...(typeof author === 'string' && author ? { author } : {}),
+      created: stringProperty(properties, 'created') ?? now,
+      modified: stringProperty(properties, 'modified') ?? now,
+      version: 1,
+    },
+    grid: { width: gridWidth, height: gridHeight, tileWidth: TILE_WIDTH, tileHeight: TILE_HEIGHT },
+    layers,
+    tileBehaviors: Array.from(behaviors.values()),
+    elevations: readElevations(properties.get('elevations'), gridWidth, gridHeight, warnings),
+    ...readCliffTileId(properties.get('cliffTileId'), warnings),
+  };
+
+  return { level: Level.fromData(validateLevelData(data)), warnings };
+}
+
+/**
+ * Parse a Tiled JSON or XML document into a level
+ * The format is detected from the content when not given.
+ * @throws Error if the document cannot be parsed
+ */
+export function deserializeTiledMap(
+  text: string,
+  format?: TiledFormat,
+  options: TiledImportOptions = {}
+): TiledImportResult {
+  const isXml = format ? format === 'tmx' : text.trimStart().startsWith('<');
+  const map = isXml ? parseTmx(text) : parseTmj(text);
+  return tiledMapToLevel(map, options);
+}
+
+function parseTmj(text: string): TiledMap {
+  const data = JSON.parse(text) as Partial<TiledMap> | null;
+  if (!data || typeof data !== 'object' || !Array.isArray(data.layers)) {
+    throw new Error('Not a Tiled JSON map');
+  }
+  return data as TiledMap;
+}
+
+function parseTmx(text: string): TiledMap {
+  const doc = new DOMParser().parseFromString(text, 'application/xml');
+  const root = doc.documentElement;
+  if (doc.getElementsByTagName('parsererror').length > 0 || root.tagName !== 'map') {
+    throw new Error('Not a Tiled XML map');
+  }
+
+  return {
+    type: 'map',
+    version: root.getAttribute('version') ?? '',
+    tiledversion: root.getAttribute('tiledversion') ?? undefined,
+    orientation: root.getAttribute('orientation') ?? 'orthogonal',
+    renderorder: root.getAttribute('renderorder') ?? undefined,
+    width: numberAttribute(root, 'width') ?? 0,
+    height: numberAttribute(root, 'height') ?? 0,
+    tilewidth: numberAttribute(root, 'tilewidth') ?? 0,
+    tileheight: numberAttribute(root, 'tileheight') ?? 0,
+    infinite: root.getAttribute('infinite') === '1',
+    layers: parseTmxLayers(root),
+    tilesets: childElements(root, 'tileset').map((element) => {
+      const image = childElements(element, 'image')[0];
+      return {
+        firstgid: numberAttribute(element, 'firstgid') ?? FIRST_GID,
+        name: element.getAttribute('name') ?? undefined,
+        source: element.getAttribute('source') ?? undefined,
+        image: image?.getAttribute('source') ?? undefined,
+        tilecount: numberAttribute(element, 'tilecount'),
+        columns: numberAttribute(element, 'columns'),
+      };
+    }),
+    properties: parseTmxProperties(root),
+  };
+}
+
+function parseTmxLayers(parent: Element): TiledLayer[] {
+  const layers: TiledLayer[] = [];
+
+  for (const element of Array.from(parent.children)) {
+    const name = element.getAttribute('name') ?? '';
+    const id = numberAttribute(element, 'id');
+
+    switch (element.tagName) {
+      case 'layer': {
+        const dataElement = childElements(element, 'data')[0];
+        const encoding = dataElement?.getAttribute('encoding');
+        const layer: TiledTileLayer = {
+          type: 'tilelayer',
+          id,
+          name,
+          width: numberAttribute(element, 'width') ?? 0,
+          height: numberAttribute(element, 'height') ?? 0,
+          opacity: numberAttribute(element, 'opacity'),
+          visible: element.getAttribute('visible') !== '0',
+          locked: element.getAttribute('locked') === '1',
+          offsetx: numberAttribute(element, 'offsetx'),
+          offsety: numberAttribute(element, 'offsety'),
+          properties: parseTmxProperties(element),
+        };
+
+        if (dataElement && childElements(dataElement, 'chunk').length > 0) {
+          layer.chunks = childElements(dataElement, 'chunk');
+        } else if (encoding === 'csv') {
+          layer.data = (dataElement?.textContent ?? '')
+            .split(',')
+            .map((value) => value.trim())
+            .filter((value) => value !== '')
+            .map(Number);
+        } else if (encoding === 'base64') {
+          layer.encoding = 'base64';
+          layer.compression = dataElement?.getAttribute('compression') ?? undefined;
+          layer.data = dataElement?.textContent?.trim() ?? '';
+        } else if (dataElement) {
+          layer.data = childElements(dataElement, 'tile').map((tile) => numberAttribute(tile, 'gid') ?? 0);
+        }
+        layers.push(layer);
+        break;
+      }
+      case 'objectgroup':
+        layers.push({
+          type: 'objectgroup',
+          id,
+          name,
+          objects: childElements(element, 'object').map((object) => ({
+            id: numberAttribute(object, 'id'),
+            name: object.getAttribute('name') ?? undefined,
+            type: object.getAttribute('type') ?? undefined,
+            class: object.getAttribute('class') ?? undefined,
+            x: numberAttribute(object, 'x') ?? 0,
+            y: numberAttribute(object, 'y') ?? 0,
+            width: numberAttribute(object, 'width'),
+            height: numberAttribute(object, 'height'),
+            gid: numberAttribute(object, 'gid'),
+            properties: parseTmxProperties(object),
+          })),
+        });
+        break;
+      case 'group':
+        layers.push({ type: 'group', id, name, layers: parseTmxLayers(element) });
+        break;
+      case 'imagelayer':
+        layers.push({ type: 'imagelayer', id, name });
+        break;
+    }
+  }
+
+  return layers;
+}
+
+function parseTmxProperties(element: Element): TiledProperty[] {
+  const container = childElements(element, 'properties')[0];
+  if (!container) return [];
+
+  return childElements(container, 'property').map((property) => {
+    const type = (property.getAttribute('type') ?? 'string') as TiledPropertyType;
+    // Multi-line strings are stored as element text instead of the value attribute
+    const raw = property.getAttribute('value') ?? property.textContent ?? '';
+    let value: string | number | boolean = raw;
+    if (type === 'int' || type === 'float') value = Number(raw);
+    if (type === 'bool') value = raw === 'true';
+    return { name: property.getAttribute('name') ?? '', type, value };
+  });
+}
+
+function childElements(parent: Element, tagName: string): Element[] {
+  return Array.from(parent.children).filter((child) => child.tagName === tagName);
+}
+
+function numberAttribute(element: Element, name: string): number | undefined {
+  const value = element.getAttribute(name);
+  if (value === null || value === '') return undefined;
+  const number = Number(value);
+  return Number.isFinite(number) ? number : undefined;
+}
+
+/**
+ * Pick the tileset that stands for the editor spritesheet
+ */
+function pickTileset(tilesets: TiledTileset[], warnings: string[]): TiledTileset {
+  if (tilesets.length === 0) {
+    warnings.push('The map has no tileset; tile ids are read as spritesheet indices.');
+    return { firstgid: FIRST_GID };
+  }
+
+  const isSpritesheet = (tileset: TiledTileset): boolean =>
+    [tileset.name, tileset.image, tileset.source].some((value) => value?.includes(TILESET_NAME));
+  const tileset = tilesets.find(isSpritesheet) ?? tilesets[0]!;
+
+  if (!isSpritesheet(tileset)) {
+    warnings.push(`Tileset "${tileset.name ?? tileset.source}" is read as the editor spritesheet.`);
+  }
+  if (tileset.source && !tileset.image) {
+    warnings.push(`External tileset "${tileset.source}" is assumed to match the editor spritesheet.`);
+  }
+  if (tileset.columns !== undefined && tileset.columns !== SPRITESHEET_COLUMNS) {
+    warnings.push(
+      `Tileset "${tileset.name ?? tileset.source}" has ${tileset.columns} columns instead of ${SPRITESHEET_COLUMNS}; tile ids may not match.`
+    );
+  }
+  if (tilesets.length > 1) {
+    warnings.push(`Only one tileset is supported; ${tilesets.length - 1} other tileset(s) were ignored.`);
+  }
+  return tileset;
+}
+
+/**
+ * Read a tile layer's global tile ids, or null if they cannot be decoded
+ */
+function readLayerData(
+  layer: TiledTileLayer,
+  width: number,
+  height: number,
+  warnings: string[]
+): number[] | null {
+  if (layer.chunks) {
+    warnings.push(`Layer "${layer.name}" uses infinite-map chunks and was skipped.`);
+    return null;
+  }
+  if (layer.compression) {
+    warnings.push(`Layer "${layer.name}" uses ${layer.compression} compression, which is not supported; it was skipped.`);
+    return null;
+  }
+
+  let gids: number[];
+  if (typeof layer.data === 'string') {
+    const bytes = Uint8Array.from(atob(layer.data), (char) => char.charCodeAt(0));
+    const view = new DataView(bytes.buffer);
+    gids = [];
+    for (let offset = 0; offset + 4 <= bytes.length; offset += 4) {
+      gids.push(view.getUint32(offset, true));
+    }
+  } else if (Array.isArray(layer.data)) {
+    gids = layer.data;
+  } else {
+    warnings.push(`Layer "${layer.name}" has no tile data and was skipped.`);
+    return null;
+  }
+
+  if (layer.width !== width || layer.height !== height || (layer.x ?? 0) !== 0 || (layer.y ?? 0) !== 0) {
+    warnings.push(`Layer "${layer.name}" does not cover the map exactly and was skipped.`);
+    return null;
+  }
+  if (gids.length !== width * height) {
+    warnings.push(`Layer "${layer.name}" has ${gids.length} cells instead of ${width * height}; extra cells were ignored.`);
+  }
+  return gids.slice(0, width * height);
+}
+
+function readBehavior(
+  type: TileBehaviorType,
+  properties: Map<string, string | number | boolean>,
+  label: string,
+  warnings: string[]
+): TileBehavior {
+  const direction = properties.get('direction');
+  const doorId = properties.get('doorId');
+  const open = properties.get('open');
+  const damage = properties.get('damage');
+
+  for (const name of properties.keys()) {
+    if (!BEHAVIOR_PROPERTIES.has(name)) {
+      warnings.push(`${label}: property "${name}" is not supported and was dropped.`);
+    }
+  }
+  if (direction !== undefined && !(DIRECTIONS as readonly unknown[]).includes(direction)) {
+    warnings.push(`${label}: direction "${String(direction)}" is not supported and was dropped.`);
+  }
+  if (damage !== undefined && !(typeof damage === 'number' && Number.isInteger(damage) && damage >= 0)) {
+    warnings.push(`${label}: damage "${String(damage)}" is not a whole number and was dropped.`);
+  }
+
+  return {
+    type,
+    ...((DIRECTIONS as readonly unknown[]).includes(direction)
+      ? { direction: direction as CardinalDirection }
+      : {}),
+    ...(doorId !== undefined && doorId !== '' ? { doorId: String(doorId) } : {}),
+    ...(typeof open === 'boolean' ? { open } : {}),
+    ...(typeof damage === 'number' && Number.isInteger(damage) && damage >= 0 ? { damage } : {}),
+  };
+}
+
+function readElevations(
+  value: string | number | boolean | undefined,
+  width: number,
+  height: number,
+  warnings: string[]
+): ElevationPlacement[] {
+  if (value === undefined) return [];
+
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(String(value));
+  } catch {
+    parsed = undefined;
+  }
+  if (!Array.isArray(parsed)) {
+    warnings.push('Map property "elevations" could not be read; elevation was dropped.');
+    return [];
+  }
+
+  // Keep the first valid entry for each cell inside the map
+  const elevations = new Map<string, ElevationPlacement>();
+  let skipped = 0;
+  for (const entry of parsed) {
+    const result = schemas.Elevation.safeParse(entry);
+    const key = result.success ? `${result.data.position.x},${result.data.position.y}` : '';
+    if (
+      !result.success ||
+      result.data.position.x >= width ||
+      result.data.position.y >= height ||
+      elevations.has(key)
+    ) {
+      skipped++;
+      continue;
+    }
+    elevations.set(key, result.data);
+  }
+
+  if (skipped > 0) {
+    warnings.push(
+      `Skipped ${skipped} elevation entr${skipped === 1 ? 'y' : 'ies'} with a bad height, a position outside the map or a repeated cell.`
+    );
+  }
+  return Array.from(elevations.values());
+}
+
+function readCliffTileId(
+  value: string | number | boolean | undefined,
+  warnings: string[]
+): { cliffTileId?: number } {
+  if (value === undefined) return {};
+  if (typeof value === 'number' && Number.isInteger(value) && value >= 0 && value < TOTAL_TILES) {
+    return { cliffTileId: value };
+  }
+  warnings.push(`Map property "cliffTileId" (${String(value)}) is not a spritesheet tile and was dropped.`);
+  return {};
+}
+
+function readProperties(properties: TiledProperty[] | undefined): Map<string, string | number | boolean> {
+  return new Map((properties ?? []).map((property) => [property.name, property.value]));
+}
+
+function stringProperty(properties: Map<string, string | number | boolean>, name: string): string | undefined {
+  const value = properties.get(name);
+  return typeof value === 'string' && value ? value : undefined;
+}
+
+function uniqueLayerId(base: string, used: Set<string>): string {
+  const root = base || 'layer';
+  let id = root;
+  for (let i = 2; used.has(id); i++) {
+    id = `${root}-${i}`;
+  }
+  used.add(id);
+  return id;
+}
+
+function slugify(name: string): string {
+  return name.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '');
+}
+
+function toInteger(value: unknown): number {
+  return typeof value === 'number' && Number.isInteger(value) && value > 0 ? value : 0;
+}
+
+function clamp(value: number, min: number, max: number): number {
+  return Math.min(max, Math.max(min, value));
+}
+
+// ============================================================================
+// Files
+// ============================================================================
+
+/**
+ * Check if a file name looks like a Tiled map
+ */
+export function isTiledFile(name: string): boolean {
+  return /\.(tmj|tmx)$/i.test(name);
+}
+
+/**
+ * Save a level as a Tiled map file (triggers browser download)
+ */
+export function downloadTiledMap(level: Level, format: TiledFormat, filename?: string): void {
+  const content = serializeTiledMap(level, format);
+  const type = format === 'tmx' ? 'application/xml' : 'application/json';
+  const blob = new Blob([content], { type });
+  const url = URL.createObjectURL(blob);
+
+  const a = document.createElement('a');
+  a.href = url;
+  a.download = filename ?? `${level.metadata.name.replace(/[^a-z0-9]/gi, '_')}.${format}`;
+  document.body.appendChild(a);
+  a.click();
+  document.body.removeChild(a);
+  URL.revokeObjectURL(url);
+}
+
+/**
+ * Load a level from a Tiled map file (via file input)
+ */
+export function loadTiledMapFromFile(file: File): Promise<TiledImportResult> {
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader();
+
+    reader.onload = (event) => {
+      try {
+        const text = event.target?.result as string;
+        const format = /\.tmx$/i.test(file.name) ? 'tmx' : /\.tmj$/i.test(file.name) ? 'tmj' : undefined;
+        resolve(deserializeTiledMap(text, format, { name: file.name.replace(/\.[^.]+$/, '') }));
+      } catch (error) {
+        reject(error);
+      }
+    };
+
+    reader.onerror = () => {
+      reject(new Error('Failed to read file'));
+    };
+
+    reader.readAsText(file);
+  });
+}
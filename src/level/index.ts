@@ -5,4 +5,8 @@
 export * from './Layer';
 export * from './Level';
 export * from './LevelSerializer';
+export * from './LevelRepair';
+export * from './LevelDiff';
+export * from './TiledConverter';
+export * from './migrations';
 export * from './validation';
@@ -0,0 +1,175 @@
+/**
+ * Level format migrations
+ */
+
+import { CURRENT_LEVEL_VERSION, DEFAULT_LAYERS } from '../core/constants';
+
+/** Level data of any format version, before validation */
+export type RawLevelData = Readonly<Record<string, unknown>> & { readonly version: number };
+
+/** What a single migration step produced */
+export interface MigrationStepResult {
+  readonly data: RawLevelData;
+  /** Human-readable description of each change made */
+  readonly changes: string[];
+}
+
+/**
+ * A migration upgrades level data from one format version to the next
+ * Migrations must be pure: they return new data and never modify their input.
+ */
+export interface LevelMigration {
+  /** Version this migration upgrades from; it produces `from + 1` */
+  readonly from: number;
+  readonly description: string;
+  migrate(data: RawLevelData): MigrationStepResult;
+}
+
+/** A migration step that ran, with the changes it reported */
+export interface AppliedMigration {
+  readonly from: number;
+  readonly to: number;
+  readonly description: string;
+  readonly changes: string[];
+}
+
+/** Result of running the migration pipeline */
+export interface MigrationReport {
+  /** Upgraded data, still to be validated */
+  readonly data: unknown;
+  readonly fromVersion: number;
+  readonly toVersion: number;
+  readonly applied: AppliedMigration[];
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+/**
+ * MigrationRegistry upgrades level data step by step (v1 → v2 → …)
+ *
+ * Data without a usable version is passed through untouched so that
+ * validation can report the problem.
+ */
+export class MigrationRegistry {
+  private migrations = new Map<number, LevelMigration>();
+
+  constructor(readonly latestVersion: number = CURRENT_LEVEL_VERSION) {}
+
+  /**
+   * Register a migration for the version it upgrades from
+   */
+  register(migration: LevelMigration): void {
+    this.migrations.set(migration.from, migration);
+  }
+
+  /**
+   * Check if a migration from a version is registered
+   */
+  has(from: number): boolean {
+    return this.migrations.has(from);
+  }
+
+  /**
+   * Upgrade data to the latest version
+   * @throws Error if the data is newer than the latest version or a step is missing
+   */
+  migrate(data: unknown): MigrationReport {
+    if (!isRecord(data) || typeof data.version !== 'number' || !Number.isInteger(data.version)) {
+      return { data, fromVersion: NaN, toVersion: NaN, applied: [] };
+    }
+
+    const fromVersion = data.version;
+    if (fromVersion > this.latestVersion) {
+      throw new Error(
+        `Level format version ${fromVersion} is newer than the supported version ${this.latestVersion}`
+      );
+    }
+
+    let current = data as RawLevelData;
+    const applied: AppliedMigration[] = [];
+    for (let version = fromVersion; version < this.latestVersion; version++) {
+      const migration = this.migrations.get(version);
+      if (!migration) {
+        throw new Error(`No migration from level format version ${version}`);
+      }
+
+      const result = migration.migrate(current);
+      current = { ...result.data, version: version + 1 };
+      applied.push({
+        from: version,
+        to: version + 1,
+        description: migration.description,
+        changes: result.changes,
+      });
+    }
+
+    return { data: current, fromVersion, toVersion: current.version, applied };
+  }
+}
+
+// ============================================================================
+// Migrations
+// ============================================================================
+
+/**
+ * v1 → v2: every layer stores its lock, opacity and height offset
+ * v1 files written before these existed lifted the default props and
+ * decorations layers by a fixed offset.
+ */
+export const explicitLayerSettingsMigration: LevelMigration = {
+  from: 1,
+  description: 'Store lock, opacity and height offset on every layer',
+  migrate(data) {
+    const changes: string[] = [];
+    if (!Array.isArray(data.layers)) return { data, changes };
+
+    const layers = data.layers.map((layer: unknown) => {
+      if (!isRecord(layer)) return layer;
+
+      const next = { ...layer };
+      const filled: string[] = [];
+      if (next.locked === undefined) {
+        next.locked = false;
+        filled.push('locked = false');
+      }
+      if (next.opacity === undefined) {
+        next.opacity = 1;
+        filled.push('opacity = 1');
+      }
+      if (next.heightOffset === undefined) {
+        const typeOrId = next.type ?? next.id;
+        next.heightOffset = DEFAULT_LAYERS.find((preset) => preset.id === typeOrId)?.heightOffset ?? 0;
+        filled.push(`height offset = ${next.heightOffset}`);
+      }
+
+      if (filled.length > 0) {
+        const name = typeof next.name === 'string' ? next.name : String(next.id);
+        changes.push(`Layer "${name}": set ${filled.join(', ')}`);
+      }
+      return next;
+    });
+
+    return { data: { ...data, layers }, changes };
+  },
+};
+
+/**
+ * Create a registry with all built-in migrations
+ */
+export function createMigrationRegistry(): MigrationRegistry {
+  const registry = new MigrationRegistry();
+  registry.register(explicitLayerSettingsMigration);
+  return registry;
+}
+
+/** Shared registry used when loading levels */
+export const levelMigrations = createMigrationRegistry();
+
+/**
+ * Upgrade parsed level data to the latest format version
+ */
+export function migrateLevelData(data: unknown): MigrationReport {
+  return levelMigrations.migrate(data);
+}
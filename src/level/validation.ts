@@ -11,7 +11,15 @@ import {
   LevelMetadata,
   GridConfig,
   TileBehaviorPlacement,
+  ElevationPlacement,
 } from '../core/types';
+import {
+  CURRENT_LEVEL_VERSION,
+  MAX_GRID_SIZE,
+  MAX_LAYER_HEIGHT_OFFSET,
+  MAX_ELEVATION,
+  TOTAL_TILES,
+} from '../core/constants';
 
 // Grid coordinate schema
 const GridCoordSchema = z.object({
@@ -19,26 +27,39 @@ const GridCoordSchema = z.object({
   y: z.number().int().min(0),
 });
 
+// Tile id schema (must exist in the spritesheet)
+const TileIdSchema = z
+  .number()
+  .int()
+  .min(0)
+  .max(TOTAL_TILES - 1, `Tile id must be below ${TOTAL_TILES}`);
+
 // Tile placement schema
 const TilePlacementSchema = z.object({
-  tileId: z.number().int().min(0),
+  tileId: TileIdSchema,
   position: GridCoordSchema,
   rotation: z.union([z.literal(0), z.literal(90), z.literal(180), z.literal(270)]).optional(),
+  flipX: z.boolean().optional(),
+  flipY: z.boolean().optional(),
 });
 
 // Layer data schema
 const LayerDataSchema = z.object({
   id: z.string().min(1),
   name: z.string().min(1),
+  type: z.enum(['terrain', 'props', 'decorations', 'custom']).optional(),
   zIndex: z.number().int(),
   visible: z.boolean(),
+  locked: z.boolean(),
+  opacity: z.number().min(0).max(1),
+  heightOffset: z.number().min(-MAX_LAYER_HEIGHT_OFFSET).max(MAX_LAYER_HEIGHT_OFFSET),
   tiles: z.array(TilePlacementSchema),
 });
 
 // Grid config schema
 const GridConfigSchema = z.object({
-  width: z.number().int().min(1).max(256),
-  height: z.number().int().min(1).max(256),
+  width: z.number().int().min(1).max(MAX_GRID_SIZE),
+  height: z.number().int().min(1).max(MAX_GRID_SIZE),
   tileWidth: z.number().int().min(1),
   tileHeight: z.number().int().min(1),
 });
@@ -56,6 +77,7 @@ const TileBehaviorSchema: z.ZodType<TileBehaviorPlacement> = z.object({
     'door',
     'exit',
     'spawn',
+    'ramp',
   ]),
   direction: z.enum(['north', 'east', 'south', 'west']).optional(),
   doorId: z.string().optional(),
@@ -63,6 +85,12 @@ const TileBehaviorSchema: z.ZodType<TileBehaviorPlacement> = z.object({
   damage: z.number().int().min(0).optional(),
 });
 
+// Cell elevation schema
+const ElevationSchema: z.ZodType<ElevationPlacement> = z.object({
+  position: GridCoordSchema,
+  height: z.number().int().min(0).max(MAX_ELEVATION),
+});
+
 // Level metadata schema
 const LevelMetadataSchema = z.object({
   id: z.string(),
@@ -73,14 +101,74 @@ const LevelMetadataSchema = z.object({
   version: z.number().int().min(1),
 });
 
-// Complete level data schema
-const LevelDataSchema = z.object({
-  version: z.literal(1),
-  metadata: LevelMetadataSchema,
-  grid: GridConfigSchema,
-  layers: z.array(LayerDataSchema).min(1),
-  tileBehaviors: z.array(TileBehaviorSchema).optional(),
-});
+// Complete level data schema (latest format; older data is migrated first)
+// Cross-field checks: positions inside the grid, unique layer ids and one
+// entry per cell in each layer, behavior list and elevation list
+const LevelDataSchema = z
+  .object({
+    version: z.literal(CURRENT_LEVEL_VERSION),
+    metadata: LevelMetadataSchema,
+    grid: GridConfigSchema,
+    layers: z.array(LayerDataSchema).min(1),
+    tileBehaviors: z.array(TileBehaviorSchema).optional(),
+    elevations: z.array(ElevationSchema).optional(),
+    cliffTileId: TileIdSchema.optional(),
+  })
+  .superRefine((data, ctx) => {
+    const layerIds = new Map<string, number>();
+    data.layers.forEach((layer, index) => {
+      const previous = layerIds.get(layer.id);
+      if (previous !== undefined) {
+        ctx.addIssue({
+          code: z.ZodIssueCode.custom,
+          path: ['layers', index, 'id'],
+          message: `Duplicate layer id "${layer.id}" (also used by layers[${previous}])`,
+        });
+      } else {
+        layerIds.set(layer.id, index);
+      }
+      checkPlacements(layer.tiles, ['layers', index, 'tiles'], `Layer "${layer.name}" tile`, data.grid, ctx);
+    });
+
+    checkPlacements(data.tileBehaviors ?? [], ['tileBehaviors'], 'Behavior', data.grid, ctx);
+    checkPlacements(data.elevations ?? [], ['elevations'], 'Elevation', data.grid, ctx);
+  });
+
+/**
+ * Report placements outside the grid and cells placed more than once
+ */
+function checkPlacements(
+  placements: ReadonlyArray<{ position: GridCoord }>,
+  path: Array<string | number>,
+  label: string,
+  grid: GridConfig,
+  ctx: z.RefinementCtx
+): void {
+  const seen = new Map<string, number>();
+  placements.forEach(({ position }, index) => {
+    const { x, y } = position;
+    if (x >= grid.width || y >= grid.height) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        path: [...path, index, 'position'],
+        message: `${label} at (${x}, ${y}) is outside the ${grid.width}×${grid.height} grid`,
+      });
+      return;
+    }
+
+    const key = `${x},${y}`;
+    const previous = seen.get(key);
+    if (previous !== undefined) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        path: [...path, index, 'position'],
+        message: `${label} at (${x}, ${y}) duplicates ${String(path[path.length - 1])}[${previous}]`,
+      });
+    } else {
+      seen.set(key, index);
+    }
+  });
+}
 
 /**
  * Validate and parse level data
@@ -128,8 +216,70 @@ export function getValidationErrors(error: z.ZodError): string[] {
   });
 }
 
+/**
+ * Validate data against a schema, for files other than levels
+ * @throws Error listing every problem, e.g. `Invalid <label>: a.b: ...; c: ...`
+ */
+export function parseWithSchema<T extends z.ZodTypeAny>(
+  schema: T,
+  data: unknown,
+  label: string
+): z.output<T> {
+  const result = schema.safeParse(data);
+  if (!result.success) {
+    throw new Error(`Invalid ${label}: ${getValidationErrors(result.error).join('; ')}`);
+  }
+  return result.data;
+}
+
+/** Fatal issues block loading; recoverable ones are fixed by repair mode */
+export type ValidationSeverity = 'fatal' | 'recoverable';
+
+/** A problem found in level data */
+export interface ValidationIssue {
+  /** JSON path to the offending value, e.g. `layers[0].tiles[3].position` */
+  readonly path: string;
+  readonly message: string;
+  readonly severity: ValidationSeverity;
+}
+
+/**
+ * Format a path as `layers[0].tiles[3]`
+ * `sourceIndices` maps array paths to the original index of each entry, so
+ * paths into repaired data can point at the input before entries were removed.
+ */
+export function formatIssuePath(
+  path: ReadonlyArray<string | number>,
+  sourceIndices?: ReadonlyMap<string, readonly number[]>
+): string {
+  let formatted = '';
+  for (const segment of path) {
+    if (typeof segment === 'number') {
+      formatted += `[${sourceIndices?.get(formatted)?.[segment] ?? segment}]`;
+    } else {
+      formatted += formatted ? `.${segment}` : segment;
+    }
+  }
+  return formatted;
+}
+
+/**
+ * Convert a ZodError into fatal validation issues
+ */
+export function getValidationIssues(
+  error: z.ZodError,
+  sourceIndices?: ReadonlyMap<string, readonly number[]>
+): ValidationIssue[] {
+  return error.errors.map((err: z.ZodIssue) => ({
+    path: formatIssuePath(err.path, sourceIndices),
+    message: err.message,
+    severity: 'fatal',
+  }));
+}
+
 // Export schemas for external use
 export const schemas = {
+  TileId: TileIdSchema,
   GridCoord: GridCoordSchema,
   TilePlacement: TilePlacementSchema,
   LayerData: LayerDataSchema,
@@ -137,4 +287,5 @@ export const schemas = {
   LevelMetadata: LevelMetadataSchema,
   LevelData: LevelDataSchema,
   TileBehavior: TileBehaviorSchema,
+  Elevation: ElevationSchema,
 };
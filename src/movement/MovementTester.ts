@@ -17,7 +17,13 @@ import { TileRegistry } from '../assets/TileRegistry';
 import { AssetLoader } from '../assets/AssetLoader';
 import { Level } from '../level/Level';
 import { deserializeLevel, loadLevelFromFile, serializeLevel } from '../level/LevelSerializer';
-import { ISO_TILE_HEIGHT, ISO_TILE_WIDTH } from '../core/constants';
+import { LevelChange, applyLevelChanges } from '../level/LevelDiff';
+import {
+  BEHAVIOR_OVERLAY_COLORS,
+  ISO_TILE_HEIGHT,
+  ISO_TILE_WIDTH,
+  OPEN_DOOR_OVERLAY_COLOR,
+} from '../core/constants';
 import {
   CharacterAnimator,
   CharacterAnimationKey,
@@ -42,6 +48,8 @@ export interface MovementTesterEventMap {
   'selection:changed': { coord: GridCoord | null; behavior: TileBehavior };
   'mode:changed': { mode: ClickMode };
   'level:changed': { level: Level };
+  // Emitted when the tester edits its own level (behavior painting, door toggles)
+  'level:edited': { level: Level };
   'path:updated': { hasPath: boolean; path: GridCoord[] };
   'character:changed': { id: string; name: string; ready: boolean };
   'player:updated': {
@@ -69,18 +77,6 @@ type MovementTesterEvent = keyof MovementTesterEventMap;
 type MovementTesterHandler<T extends MovementTesterEvent> = (payload: MovementTesterEventMap[T]) => void;
 type MovementListener = (payload: unknown) => void;
 
-const OVERLAY_COLORS: Record<TileBehaviorType, string> = {
-  floor: 'rgba(74, 158, 255, 0.08)',
-  blocker: 'rgba(255, 74, 74, 0.45)',
-  slow: 'rgba(255, 199, 94, 0.35)',
-  hole: 'rgba(20, 20, 20, 0.6)',
-  conveyor: 'rgba(74, 158, 255, 0.22)',
-  'hazard-burn': 'rgba(255, 132, 74, 0.38)',
-  door: 'rgba(156, 132, 255, 0.4)',
-  exit: 'rgba(74, 255, 198, 0.35)',
-  spawn: 'rgba(138, 255, 74, 0.32)',
-};
-
 const SELECTION_COLOR = 'rgba(74, 255, 158, 0.5)';
 const PATH_COLOR = 'rgba(74, 158, 255, 0.65)';
 const PLAYER_COLOR = 'rgba(74, 255, 158, 0.9)';
@@ -383,6 +379,23 @@ export class MovementTester {
       this.rebuildPathToDestination();
     }
     this.emitSelection(coord);
+    this.emit('level:edited', { level: this.level });
+  }
+
+  applyLevelChanges(changes: readonly LevelChange[]): void {
+    // Edits synced from the editor can move the spawn or exit, or block the current path
+    if (changes.length === 0) return;
+    applyLevelChanges(this.level, changes);
+    this.player.spawn = this.findSpawnPoint();
+    this.exitTile = this.findExitTile();
+    if (this.player.destination && this.player.moving) {
+      this.rebuildPathToDestination();
+    } else {
+      this.planDefaultDestination();
+    }
+    if (this.selected) {
+      this.emitSelection(this.selected);
+    }
   }
 
   updateSelectedBehavior(updates: Partial<TileBehavior>): void {
@@ -553,6 +566,7 @@ export class MovementTester {
       case 'hole':
       case 'exit':
       case 'spawn':
+      case 'ramp':
         return { type: kind };
       case 'conveyor':
         return { type: 'conveyor', direction: this.defaultConveyorDirection };
@@ -693,7 +707,7 @@ export class MovementTester {
       { x: coord.x, y: coord.y + 1 },
       { x: coord.x, y: coord.y - 1 },
     ];
-    return neighbors.filter((n) => this.level.isInBounds(n));
+    return neighbors.filter((n) => this.level.isInBounds(n) && this.level.canStep(coord, n));
   }
 
   private isBlocked(coord: GridCoord): boolean {
@@ -705,6 +719,15 @@ export class MovementTester {
     return this.getTileBehavior(coord).type === 'hole';
   }
 
+  // Elevation under a (possibly mid-step) position, interpolated along the step
+  private getElevationAt(position: GridCoord): number {
+    const from = { x: Math.floor(position.x), y: Math.floor(position.y) };
+    const to = { x: Math.ceil(position.x), y: Math.ceil(position.y) };
+    const t = Math.max(position.x - from.x, position.y - from.y);
+    const start = this.level.getElevation(from);
+    return start + (this.level.getElevation(to) - start) * t;
+  }
+
   private stopMovement(): void {
     this.player.moving = false;
     this.player.isAnimating = false;
@@ -881,6 +904,7 @@ export class MovementTester {
       { x: coord.x + 1, y: coord.y };
 
     if (!this.level.isInBounds(target)) return null;
+    if (!this.level.canStep(coord, target)) return null;
     if (this.isBlocked(target)) return null;
     return target;
   }
@@ -1005,7 +1029,7 @@ export class MovementTester {
     for (let i = 0; i < this.player.path.length; i++) {
       const coord = this.player.path[i];
       if (!coord) continue;
-      const center = gridToScreen(coord.x, coord.y, offsetX, offsetY);
+      const center = gridToScreen(coord.x, coord.y, offsetX, offsetY, this.getElevationAt(coord));
       if (i === 0) {
         ctx.moveTo(center.x, center.y + ISO_TILE_HEIGHT / 2);
       } else {
@@ -1016,7 +1040,13 @@ export class MovementTester {
   }
 
   private renderPlayer(ctx: CanvasRenderingContext2D, offsetX: number, offsetY: number): void {
-    const pos = gridToScreen(this.player.position.x, this.player.position.y, offsetX, offsetY);
+    const pos = gridToScreen(
+      this.player.position.x,
+      this.player.position.y,
+      offsetX,
+      offsetY,
+      this.getElevationAt(this.player.position)
+    );
     const isHurtFlash = performance.now() - this.player.lastDamageAt < 400;
     const baseColor =
       this.player.state === 'hurt' ? PLAYER_HURT_COLOR :
@@ -1067,7 +1097,7 @@ export class MovementTester {
     offsetY: number,
     color: string
   ): void {
-    const center = gridToScreen(coord.x, coord.y, offsetX, offsetY);
+    const center = gridToScreen(coord.x, coord.y, offsetX, offsetY, this.getElevationAt(coord));
     ctx.fillStyle = color;
     ctx.beginPath();
     ctx.moveTo(center.x, center.y);
@@ -1085,7 +1115,7 @@ export class MovementTester {
     offsetX: number,
     offsetY: number
   ): void {
-    const center = gridToScreen(coord.x, coord.y, offsetX, offsetY);
+    const center = gridToScreen(coord.x, coord.y, offsetX, offsetY, this.getElevationAt(coord));
     const cx = center.x;
     const cy = center.y + ISO_TILE_HEIGHT / 2;
 
@@ -1193,9 +1223,9 @@ export class MovementTester {
 
   private getOverlayColor(behavior: TileBehavior): string {
     if (behavior.type === 'door' && behavior.open) {
-      return 'rgba(138, 255, 200, 0.3)';
+      return OPEN_DOOR_OVERLAY_COLOR;
     }
-    return OVERLAY_COLORS[behavior.type] ?? OVERLAY_COLORS.floor;
+    return BEHAVIOR_OVERLAY_COLORS[behavior.type] ?? BEHAVIOR_OVERLAY_COLORS.floor;
   }
 
   private findFirstWalkable(): GridCoord | null {
@@ -0,0 +1,113 @@
+/**
+ * Autotile panel UI component
+ */
+
+import { Editor } from '../editor/Editor';
+import { AutotileMode } from '../core/types';
+import { AUTOTILE_RULE_SETS } from '../assets/AutotileRules';
+
+const MODES: Array<{ mode: AutotileMode; label: string }> = [
+  { mode: 'paint', label: 'Paint' },
+  { mode: 'erase', label: 'Erase' },
+];
+
+/**
+ * AutotilePanel picks the terrain rule set and mode of the autotile brush
+ */
+export class AutotilePanel {
+  private container: HTMLElement;
+  private editor: Editor;
+  private ruleSetButtons = new Map<string, HTMLButtonElement>();
+  private modeButtons = new Map<AutotileMode, HTMLButtonElement>();
+  private descriptionEl: HTMLElement;
+
+  constructor(containerId: string, editor: Editor) {
+    const container = document.getElementById(containerId);
+    if (!container) {
+      throw new Error(`Container not found: ${containerId}`);
+    }
+
+    this.container = container;
+    this.editor = editor;
+    this.descriptionEl = document.createElement('div');
+
+    this.render();
+    this.editor.state.on('autotile:changed', () => this.refresh());
+    this.refresh();
+  }
+
+  /**
+   * Render the panel
+   */
+  private render(): void {
+    this.container.innerHTML = '';
+
+    const group = document.createElement('div');
+    group.className = 'control-group';
+
+    const label = document.createElement('div');
+    label.className = 'control-label';
+    label.textContent = 'Terrain (J)';
+
+    const ruleSets = document.createElement('div');
+    ruleSets.className = 'button-group';
+    for (const ruleSet of AUTOTILE_RULE_SETS) {
+      const btn = document.createElement('button');
+      btn.type = 'button';
+      btn.className = 'tool-btn small';
+      btn.textContent = ruleSet.name;
+      btn.title = `${ruleSet.neighborhood}-way rules`;
+      btn.addEventListener('click', () => {
+        this.editor.state.setAutotileRuleSet(ruleSet.id);
+        this.editor.setTool('autotile');
+      });
+      this.ruleSetButtons.set(ruleSet.id, btn);
+      ruleSets.appendChild(btn);
+    }
+
+    const modes = document.createElement('div');
+    modes.className = 'button-group';
+    for (const { mode, label: modeLabel } of MODES) {
+      const btn = document.createElement('button');
+      btn.type = 'button';
+      btn.className = 'tool-btn small';
+      btn.textContent = modeLabel;
+      btn.title = 'Toggle paint/erase (Shift+J)';
+      btn.addEventListener('click', () => {
+        this.editor.state.setAutotileMode(mode);
+        this.editor.setTool('autotile');
+      });
+      this.modeButtons.set(mode, btn);
+      modes.appendChild(btn);
+    }
+
+    this.descriptionEl.className = 'control-meta';
+
+    group.appendChild(label);
+    group.appendChild(ruleSets);
+    group.appendChild(modes);
+    group.appendChild(this.descriptionEl);
+    this.container.appendChild(group);
+  }
+
+  /**
+   * Sync buttons with the brush
+   */
+  private refresh(): void {
+    const { autotileRuleSetId, autotileMode } = this.editor.state;
+
+    this.ruleSetButtons.forEach((btn, id) => {
+      const isActive = id === autotileRuleSetId;
+      btn.classList.toggle('active', isActive);
+      btn.setAttribute('aria-pressed', String(isActive));
+    });
+    this.modeButtons.forEach((btn, mode) => {
+      const isActive = mode === autotileMode;
+      btn.classList.toggle('active', isActive);
+      btn.setAttribute('aria-pressed', String(isActive));
+    });
+
+    const ruleSet = AUTOTILE_RULE_SETS.find((candidate) => candidate.id === autotileRuleSetId);
+    this.descriptionEl.textContent = ruleSet?.description ?? '';
+  }
+}
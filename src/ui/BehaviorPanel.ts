@@ -0,0 +1,296 @@
+/**
+ * Behavior panel UI component
+ */
+
+import { Editor } from '../editor/Editor';
+import { SetTileBehaviorCommand } from '../editor/history/Command';
+import {
+  CardinalDirection,
+  TileBehavior,
+  TileBehaviorType,
+  createTileBehavior,
+  isSameBehavior,
+} from '../core/types';
+import { DEFAULT_CONVEYOR_DIRECTION, DEFAULT_HAZARD_DAMAGE } from '../core/constants';
+
+/** Behavior kinds offered by the brush, in display order */
+const BEHAVIOR_KINDS: Array<{ type: TileBehaviorType; label: string }> = [
+  { type: 'floor', label: 'Floor (clear)' },
+  { type: 'blocker', label: 'Blocker' },
+  { type: 'slow', label: 'Slow' },
+  { type: 'hole', label: 'Hole' },
+  { type: 'conveyor', label: 'Conveyor' },
+  { type: 'hazard-burn', label: 'Hazard (Burn)' },
+  { type: 'door', label: 'Door' },
+  { type: 'exit', label: 'Exit' },
+  { type: 'spawn', label: 'Spawn' },
+  { type: 'ramp', label: 'Ramp' },
+];
+
+const DIRECTIONS: CardinalDirection[] = ['north', 'east', 'south', 'west'];
+
+/**
+ * BehaviorPanel picks the behavior brush and edits behavior properties
+ *
+ * Property changes update the brush and, when the inspected cell (the first
+ * cell of the last behavior stroke) has the same kind, that cell as well.
+ */
+export class BehaviorPanel {
+  private container: HTMLElement;
+  private editor: Editor;
+  private kindButtons = new Map<TileBehaviorType, HTMLButtonElement>();
+  private overlayButton: HTMLButtonElement;
+  private cellLabel: HTMLElement;
+  private clearCellButton: HTMLButtonElement;
+  private directionSelect: HTMLSelectElement;
+  private doorIdInput: HTMLInputElement;
+  private doorOpenInput: HTMLInputElement;
+  private damageInput: HTMLInputElement;
+  private propertyRows: Record<'direction' | 'doorId' | 'doorOpen' | 'damage', HTMLElement>;
+
+  constructor(containerId: string, editor: Editor) {
+    const container = document.getElementById(containerId);
+    if (!container) {
+      throw new Error(`Container not found: ${containerId}`);
+    }
+
+    this.container = container;
+    this.editor = editor;
+    this.overlayButton = document.createElement('button');
+    this.cellLabel = document.createElement('div');
+    this.clearCellButton = document.createElement('button');
+    this.directionSelect = document.createElement('select');
+    this.doorIdInput = document.createElement('input');
+    this.doorOpenInput = document.createElement('input');
+    this.damageInput = document.createElement('input');
+    this.propertyRows = {
+      direction: document.createElement('div'),
+      doorId: document.createElement('div'),
+      doorOpen: document.createElement('div'),
+      damage: document.createElement('div'),
+    };
+
+    this.render();
+    this.setupEventListeners();
+    this.refresh();
+  }
+
+  /**
+   * Render the panel
+   */
+  private render(): void {
+    this.container.innerHTML = '';
+    this.container.appendChild(this.renderKindSection());
+    this.container.appendChild(this.renderPropertiesSection());
+    this.container.appendChild(this.renderCellSection());
+  }
+
+  private renderKindSection(): HTMLElement {
+    const group = document.createElement('div');
+    group.className = 'control-group';
+
+    const label = document.createElement('div');
+    label.className = 'control-label';
+    label.textContent = 'Behavior Brush (K)';
+
+    const buttons = document.createElement('div');
+    buttons.className = 'button-group';
+    for (const kind of BEHAVIOR_KINDS) {
+      const btn = document.createElement('button');
+      btn.type = 'button';
+      btn.className = 'tool-btn small';
+      btn.textContent = kind.label;
+      btn.addEventListener('click', () => this.selectKind(kind.type));
+      this.kindButtons.set(kind.type, btn);
+      buttons.appendChild(btn);
+    }
+
+    this.overlayButton.type = 'button';
+    this.overlayButton.className = 'tool-btn small';
+    this.overlayButton.title = 'Show or hide the behavior overlay (Shift+K)';
+    this.overlayButton.addEventListener('click', () => {
+      const { state } = this.editor;
+      state.setShowBehaviors(!state.showBehaviors);
+    });
+
+    group.appendChild(label);
+    group.appendChild(buttons);
+    group.appendChild(this.overlayButton);
+    return group;
+  }
+
+  private renderPropertiesSection(): HTMLElement {
+    const group = document.createElement('div');
+    group.className = 'control-group';
+
+    const label = document.createElement('div');
+    label.className = 'control-label';
+    label.textContent = 'Properties';
+
+    // Conveyor direction
+    for (const direction of DIRECTIONS) {
+      const option = document.createElement('option');
+      option.value = direction;
+      option.textContent = direction;
+      this.directionSelect.appendChild(option);
+    }
+    this.directionSelect.addEventListener('change', () => {
+      this.updateProperties({ direction: this.directionSelect.value as CardinalDirection });
+    });
+    this.fillPropertyRow(this.propertyRows.direction, 'Conveyor Direction', this.directionSelect);
+
+    // Door link ID
+    this.doorIdInput.type = 'text';
+    this.doorIdInput.placeholder = 'e.g., A1';
+    this.doorIdInput.addEventListener('change', () => {
+      this.updateProperties({ doorId: this.doorIdInput.value.trim() || undefined });
+    });
+    this.fillPropertyRow(this.propertyRows.doorId, 'Door Link ID', this.doorIdInput);
+
+    // Door state
+    this.doorOpenInput.type = 'checkbox';
+    this.doorOpenInput.addEventListener('change', () => {
+      this.updateProperties({ open: this.doorOpenInput.checked });
+    });
+    this.fillPropertyRow(this.propertyRows.doorOpen, 'Door Open', this.doorOpenInput);
+
+    // Hazard damage
+    this.damageInput.type = 'number';
+    this.damageInput.min = '1';
+    this.damageInput.step = '1';
+    this.damageInput.addEventListener('change', () => {
+      const damage = parseInt(this.damageInput.value, 10);
+      this.updateProperties({
+        damage: Number.isFinite(damage) ? Math.max(1, damage) : DEFAULT_HAZARD_DAMAGE,
+      });
+    });
+    this.fillPropertyRow(this.propertyRows.damage, 'Hazard Damage', this.damageInput);
+
+    group.appendChild(label);
+    group.appendChild(this.propertyRows.direction);
+    group.appendChild(this.propertyRows.doorId);
+    group.appendChild(this.propertyRows.doorOpen);
+    group.appendChild(this.propertyRows.damage);
+    return group;
+  }
+
+  private renderCellSection(): HTMLElement {
+    const group = document.createElement('div');
+    group.className = 'control-group';
+
+    const label = document.createElement('div');
+    label.className = 'control-label';
+    label.textContent = 'Inspected Cell';
+
+    this.cellLabel.className = 'control-meta';
+
+    this.clearCellButton.type = 'button';
+    this.clearCellButton.className = 'tool-btn small';
+    this.clearCellButton.textContent = 'Clear Behavior';
+    this.clearCellButton.addEventListener('click', () => this.applyToInspectedCell(null));
+
+    group.appendChild(label);
+    group.appendChild(this.cellLabel);
+    group.appendChild(this.clearCellButton);
+    return group;
+  }
+
+  private fillPropertyRow(row: HTMLElement, text: string, input: HTMLElement): void {
+    row.className = 'control-row';
+    const label = document.createElement('span');
+    label.className = 'control-meta';
+    label.textContent = text;
+    row.appendChild(label);
+    row.appendChild(input);
+  }
+
+  // =========================================================================
+  // Actions
+  // =========================================================================
+
+  private selectKind(type: TileBehaviorType): void {
+    const { state } = this.editor;
+    state.setBehaviorBrush({ ...state.behaviorBrush, type });
+    this.editor.setTool('behavior');
+  }
+
+  /**
+   * Apply property changes to the brush and to a matching inspected cell
+   */
+  private updateProperties(updates: Partial<Omit<TileBehavior, 'type'>>): void {
+    const { state } = this.editor;
+    const brush = { ...state.behaviorBrush, ...updates };
+    state.setBehaviorBrush(brush);
+
+    const cellBehavior = this.getInspectedBehavior();
+    if (cellBehavior && cellBehavior.type === brush.type) {
+      this.applyToInspectedCell(createTileBehavior(cellBehavior.type, { ...cellBehavior, ...updates }));
+    }
+  }
+
+  private applyToInspectedCell(behavior: TileBehavior | null): void {
+    const { level, state, history } = this.editor;
+    const coord = state.inspectedCoord;
+    if (!coord || !level.isInBounds(coord)) return;
+
+    const previousBehavior = level.getTileBehavior(coord);
+    if (isSameBehavior(previousBehavior, behavior)) return;
+
+    history.execute(new SetTileBehaviorCommand(level, coord, behavior, previousBehavior));
+    state.markDirty();
+  }
+
+  private getInspectedBehavior(): TileBehavior | null {
+    const coord = this.editor.state.inspectedCoord;
+    return coord ? this.editor.level.getTileBehavior(coord) : null;
+  }
+
+  // =========================================================================
+  // Display
+  // =========================================================================
+
+  private setupEventListeners(): void {
+    const { state, history } = this.editor;
+    state.on('behavior:changed', () => this.refresh());
+    state.on('inspect:changed', () => this.refresh());
+    state.on('overlay:changed', () => this.refresh());
+    state.on('level:loaded', () => this.refresh());
+    history.on('change', () => this.refresh());
+  }
+
+  /**
+   * Sync buttons and fields with the brush and the inspected cell
+   */
+  private refresh(): void {
+    const { state } = this.editor;
+    const brush = state.behaviorBrush;
+
+    this.kindButtons.forEach((btn, type) => {
+      const isActive = type === brush.type;
+      btn.classList.toggle('active', isActive);
+      btn.setAttribute('aria-pressed', String(isActive));
+    });
+
+    this.overlayButton.textContent = state.showBehaviors ? '👁 Overlay on' : '○ Overlay off';
+    this.overlayButton.classList.toggle('active', state.showBehaviors);
+
+    // Show the inspected cell's values when it matches the brush kind
+    const cellBehavior = this.getInspectedBehavior();
+    const shown = cellBehavior && cellBehavior.type === brush.type ? cellBehavior : brush;
+    this.directionSelect.value = shown.direction ?? DEFAULT_CONVEYOR_DIRECTION;
+    this.doorIdInput.value = shown.doorId ?? '';
+    this.doorOpenInput.checked = shown.open ?? false;
+    this.damageInput.value = String(shown.damage ?? DEFAULT_HAZARD_DAMAGE);
+
+    this.propertyRows.direction.style.display = brush.type === 'conveyor' ? 'flex' : 'none';
+    this.propertyRows.doorId.style.display = brush.type === 'door' ? 'flex' : 'none';
+    this.propertyRows.doorOpen.style.display = brush.type === 'door' ? 'flex' : 'none';
+    this.propertyRows.damage.style.display = brush.type === 'hazard-burn' ? 'flex' : 'none';
+
+    const coord = state.inspectedCoord;
+    this.cellLabel.textContent = coord
+      ? `(${coord.x}, ${coord.y}): ${cellBehavior?.type ?? 'floor'}`
+      : 'Click a cell with the behavior tool';
+    this.clearCellButton.disabled = !cellBehavior;
+  }
+}
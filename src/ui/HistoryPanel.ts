@@ -0,0 +1,221 @@
+/**
+ * History panel UI component
+ */
+
+import { Editor } from '../editor/Editor';
+import { HistoryCheckpoint, HistoryEntry } from '../editor/history/HistoryManager';
+
+/**
+ * HistoryPanel lists every recorded command, lets the user jump to any of them
+ * and pins named checkpoints. The panel can be undocked to float over the canvas.
+ */
+export class HistoryPanel {
+  private container: HTMLElement;
+  private editor: Editor;
+  private panelEl: HTMLElement | null;
+  private dockAnchor: Comment | null = null;
+  private dockBtn: HTMLButtonElement | null = null;
+  private checkpointInput: HTMLInputElement;
+  private checkpointListEl: HTMLElement;
+  private entryListEl: HTMLElement;
+
+  constructor(containerId: string, editor: Editor) {
+    const container = document.getElementById(containerId);
+    if (!container) {
+      throw new Error(`Container not found: ${containerId}`);
+    }
+
+    this.container = container;
+    this.editor = editor;
+    this.panelEl = container.closest<HTMLElement>('.panel');
+    this.checkpointInput = document.createElement('input');
+    this.checkpointListEl = document.createElement('div');
+    this.entryListEl = document.createElement('div');
+
+    this.renderShell();
+    this.render();
+    this.setupEventListeners();
+  }
+
+  /**
+   * Render the static parts of the panel (dock toggle and checkpoint form)
+   */
+  private renderShell(): void {
+    this.container.innerHTML = '';
+
+    const header = this.panelEl?.querySelector<HTMLElement>('.panel-header');
+    if (header) {
+      this.dockBtn = document.createElement('button');
+      this.dockBtn.type = 'button';
+      this.dockBtn.className = 'history-dock-btn';
+      this.dockBtn.addEventListener('click', () => this.toggleDocked());
+      header.appendChild(this.dockBtn);
+      this.updateDockButton();
+    }
+
+    const form = document.createElement('div');
+    form.className = 'history-checkpoint-form';
+
+    this.checkpointInput.type = 'text';
+    this.checkpointInput.placeholder = 'Checkpoint name';
+    this.checkpointInput.setAttribute('aria-label', 'Checkpoint name');
+    this.checkpointInput.addEventListener('keydown', (e) => {
+      if (e.key === 'Enter') {
+        this.addCheckpoint();
+      }
+    });
+
+    const addBtn = document.createElement('button');
+    addBtn.type = 'button';
+    addBtn.className = 'tool-btn small';
+    addBtn.textContent = '📌 Pin';
+    addBtn.title = 'Pin the current state as a named checkpoint';
+    addBtn.addEventListener('click', () => this.addCheckpoint());
+
+    form.appendChild(this.checkpointInput);
+    form.appendChild(addBtn);
+
+    this.checkpointListEl.className = 'history-checkpoints';
+    this.entryListEl.className = 'history-entries';
+
+    this.container.appendChild(form);
+    this.container.appendChild(this.checkpointListEl);
+    this.container.appendChild(this.entryListEl);
+  }
+
+  /**
+   * Render checkpoints and history entries
+   */
+  render(): void {
+    const { history } = this.editor;
+    const checkpoints = history.getCheckpoints();
+
+    this.checkpointListEl.innerHTML = '';
+    for (const checkpoint of checkpoints) {
+      this.checkpointListEl.appendChild(this.createCheckpointItem(checkpoint));
+    }
+
+    this.entryListEl.innerHTML = '';
+    const initial: HistoryEntry = { position: 0, description: 'Initial state', applied: true };
+    for (const entry of [initial, ...history.getEntries()]) {
+      const names = checkpoints.filter((c) => c.position === entry.position).map((c) => c.name);
+      this.entryListEl.appendChild(this.createEntryItem(entry, names));
+    }
+
+    this.entryListEl
+      .querySelector<HTMLElement>('.history-entry.current')
+      ?.scrollIntoView({ block: 'nearest' });
+  }
+
+  /**
+   * Create a row for a pinned checkpoint
+   */
+  private createCheckpointItem(checkpoint: HistoryCheckpoint): HTMLElement {
+    const item = document.createElement('div');
+    item.className = 'history-checkpoint';
+    if (checkpoint.position === this.editor.history.position) {
+      item.classList.add('current');
+    }
+    item.title = `Jump to "${checkpoint.name}"`;
+    item.addEventListener('click', () => this.editor.history.jumpToCheckpoint(checkpoint.id));
+
+    const name = document.createElement('span');
+    name.className = 'history-label';
+    name.textContent = `📌 ${checkpoint.name}`;
+
+    const removeBtn = document.createElement('button');
+    removeBtn.type = 'button';
+    removeBtn.className = 'history-remove';
+    removeBtn.textContent = '✕';
+    removeBtn.title = 'Remove checkpoint';
+    removeBtn.addEventListener('click', (e) => {
+      e.stopPropagation();
+      this.editor.history.removeCheckpoint(checkpoint.id);
+    });
+
+    item.appendChild(name);
+    item.appendChild(removeBtn);
+    return item;
+  }
+
+  /**
+   * Create a row for a history entry
+   */
+  private createEntryItem(entry: HistoryEntry, checkpointNames: string[]): HTMLElement {
+    const { history } = this.editor;
+    const item = document.createElement('div');
+    item.className = 'history-entry';
+    if (!entry.applied) item.classList.add('undone');
+    if (entry.position === history.position) item.classList.add('current');
+    item.title = entry.applied ? 'Undo to this point' : 'Redo to this point';
+    item.addEventListener('click', () => history.jumpTo(entry.position));
+
+    const label = document.createElement('span');
+    label.className = 'history-label';
+    label.textContent = entry.description;
+    item.appendChild(label);
+
+    if (entry.position === history.savePosition) {
+      item.appendChild(this.createBadge('💾', 'Saved state'));
+    }
+    if (checkpointNames.length > 0) {
+      item.appendChild(this.createBadge('📌', checkpointNames.join(', ')));
+    }
+
+    return item;
+  }
+
+  private createBadge(icon: string, title: string): HTMLElement {
+    const badge = document.createElement('span');
+    badge.className = 'history-badge';
+    badge.textContent = icon;
+    badge.title = title;
+    return badge;
+  }
+
+  // =========================================================================
+  // Actions
+  // =========================================================================
+
+  private addCheckpoint(): void {
+    const history = this.editor.history;
+    const name =
+      this.checkpointInput.value.trim() || `Checkpoint ${history.getCheckpoints().length + 1}`;
+    history.addCheckpoint(name);
+    this.checkpointInput.value = '';
+  }
+
+  /**
+   * Move the panel between the sidebar and a floating spot over the canvas
+   */
+  private toggleDocked(): void {
+    const panel = this.panelEl;
+    const canvasContainer = document.getElementById('canvas-container');
+    if (!panel || !canvasContainer) return;
+
+    if (this.dockAnchor) {
+      this.dockAnchor.replaceWith(panel);
+      this.dockAnchor = null;
+      panel.classList.remove('floating');
+    } else {
+      this.dockAnchor = document.createComment('history-panel');
+      panel.replaceWith(this.dockAnchor);
+      panel.classList.add('floating');
+      canvasContainer.appendChild(panel);
+    }
+
+    this.updateDockButton();
+  }
+
+  private updateDockButton(): void {
+    if (!this.dockBtn) return;
+    const floating = this.dockAnchor !== null;
+    this.dockBtn.textContent = floating ? '⇤' : '⇱';
+    this.dockBtn.title = floating ? 'Dock to sidebar' : 'Float over canvas';
+  }
+
+  private setupEventListeners(): void {
+    this.editor.history.on('change', () => this.render());
+    this.editor.history.on('save', () => this.render());
+  }
+}
@@ -4,6 +4,14 @@
 
 import { Editor } from '../editor/Editor';
 import { Layer } from '../level/Layer';
+import { BatchTileCommand } from '../editor/history/Command';
+import {
+  AddLayerCommand,
+  RemoveLayerCommand,
+  RenameLayerCommand,
+  ReorderLayersCommand,
+} from '../editor/history/LayerCommands';
+import { MAX_LAYER_HEIGHT_OFFSET } from '../core/constants';
 
 /**
  * LayerPanel displays and manages layers
@@ -12,6 +20,14 @@ export class LayerPanel {
   private container: HTMLElement;
   private editor: Editor;
   private layerElements = new Map<string, HTMLElement>();
+  private listEl: HTMLElement;
+  private propertiesEl: HTMLElement;
+  private opacityInput: HTMLInputElement;
+  private opacityValue: HTMLElement;
+  private heightInput: HTMLInputElement;
+  private behaviorItem: HTMLElement | null = null;
+  private draggedLayerId: string | null = null;
+  private structureSignature = '';
 
   constructor(containerId: string, editor: Editor) {
     const container = document.getElementById(containerId);
@@ -21,29 +37,118 @@ export class LayerPanel {
 
     this.container = container;
     this.editor = editor;
+    this.listEl = document.createElement('div');
+    this.propertiesEl = document.createElement('div');
+    this.opacityInput = document.createElement('input');
+    this.opacityValue = document.createElement('span');
+    this.heightInput = document.createElement('input');
 
+    this.renderShell();
     this.render();
     this.setupEventListeners();
   }
 
   /**
-   * Render the layer panel
+   * Render the static parts of the panel (actions and layer properties)
    */
-  render(): void {
+  private renderShell(): void {
     this.container.innerHTML = '';
+
+    const actions = document.createElement('div');
+    actions.className = 'button-group layer-actions';
+    actions.appendChild(this.createActionButton('➕', 'Add layer', () => this.addLayer()));
+    actions.appendChild(
+      this.createActionButton('⧉', 'Duplicate active layer', () => this.duplicateActiveLayer())
+    );
+    actions.appendChild(
+      this.createActionButton('✏️', 'Rename active layer', () => this.promptRenameActiveLayer())
+    );
+    actions.appendChild(
+      this.createActionButton('🗑', 'Delete active layer', () => this.deleteActiveLayer())
+    );
+
+    this.listEl.className = 'layer-items';
+
+    this.propertiesEl.className = 'control-group layer-properties';
+    const opacityLabel = document.createElement('div');
+    opacityLabel.className = 'control-label';
+    opacityLabel.textContent = 'Opacity';
+
+    const opacityRow = document.createElement('div');
+    opacityRow.className = 'control-row';
+    this.opacityInput.type = 'range';
+    this.opacityInput.className = 'control-range';
+    this.opacityInput.min = '0';
+    this.opacityInput.max = '1';
+    this.opacityInput.step = '0.05';
+    this.opacityInput.setAttribute('aria-label', 'Layer opacity');
+    this.opacityValue.className = 'control-value';
+    opacityRow.appendChild(this.opacityInput);
+    opacityRow.appendChild(this.opacityValue);
+
+    const heightLabel = document.createElement('div');
+    heightLabel.className = 'control-label';
+    heightLabel.textContent = 'Height offset (px)';
+
+    const heightRow = document.createElement('div');
+    heightRow.className = 'control-row';
+    this.heightInput.type = 'number';
+    this.heightInput.className = 'input number';
+    this.heightInput.min = String(-MAX_LAYER_HEIGHT_OFFSET);
+    this.heightInput.max = String(MAX_LAYER_HEIGHT_OFFSET);
+    this.heightInput.step = '1';
+    this.heightInput.title = 'Raise (positive) or lower (negative) the layer on screen';
+    this.heightInput.setAttribute('aria-label', 'Layer height offset');
+    heightRow.appendChild(this.heightInput);
+
+    this.propertiesEl.appendChild(opacityLabel);
+    this.propertiesEl.appendChild(opacityRow);
+    this.propertiesEl.appendChild(heightLabel);
+    this.propertiesEl.appendChild(heightRow);
+
+    this.container.appendChild(actions);
+    this.container.appendChild(this.listEl);
+    this.container.appendChild(this.propertiesEl);
+  }
+
+  /**
+   * Render the layer list
+   */
+  render(): void {
+    this.listEl.innerHTML = '';
     this.layerElements.clear();
 
     const layers = this.editor.level.getLayers();
     const activeLayerId = this.editor.state.activeLayerId;
 
+    // Behaviors pseudo-layer sits above the real layers
+    this.behaviorItem = this.createBehaviorItem();
+    this.listEl.appendChild(this.behaviorItem);
+
     // Render in reverse order (top layer first in UI)
     const reversedLayers = [...layers].reverse();
 
     for (const layer of reversedLayers) {
       const item = this.createLayerItem(layer, layer.config.id === activeLayerId);
       this.layerElements.set(layer.config.id, item);
-      this.container.appendChild(item);
+      this.listEl.appendChild(item);
     }
+
+    this.structureSignature = this.getStructureSignature();
+    this.updateProperties();
+  }
+
+  /**
+   * Create a small action button
+   */
+  private createActionButton(icon: string, title: string, onClick: () => void): HTMLElement {
+    const btn = document.createElement('button');
+    btn.type = 'button';
+    btn.className = 'tool-btn small';
+    btn.title = title;
+    btn.textContent = icon;
+    btn.addEventListener('click', onClick);
+    return btn;
   }
 
   /**
@@ -51,8 +156,9 @@ export class LayerPanel {
    */
   private createLayerItem(layer: Layer, isActive: boolean): HTMLElement {
     const item = document.createElement('div');
-    item.className = `layer-item${isActive ? ' active' : ''}`;
+    item.className = `layer-item${isActive ? ' active' : ''}${layer.config.locked ? ' locked' : ''}`;
     item.dataset.layerId = layer.config.id;
+    item.draggable = true;
 
     // Visibility toggle
     const visibilityBtn = document.createElement('button');
@@ -64,10 +170,25 @@ export class LayerPanel {
       this.toggleLayerVisibility(layer.config.id);
     });
 
-    // Layer name
+    // Lock toggle
+    const lockBtn = document.createElement('button');
+    lockBtn.className = 'layer-lock';
+    lockBtn.textContent = layer.config.locked ? '🔒' : '🔓';
+    lockBtn.title = layer.config.locked ? 'Unlock layer' : 'Lock layer';
+    lockBtn.addEventListener('click', (e) => {
+      e.stopPropagation();
+      this.toggleLayerLock(layer.config.id);
+    });
+
+    // Layer name (double-click to rename)
     const nameSpan = document.createElement('span');
     nameSpan.className = 'layer-name';
     nameSpan.textContent = layer.config.name;
+    nameSpan.title = 'Double-click to rename';
+    nameSpan.addEventListener('dblclick', (e) => {
+      e.stopPropagation();
+      this.startInlineRename(layer.config.id, nameSpan);
+    });
 
     // Tile count badge
     const countBadge = document.createElement('span');
@@ -76,6 +197,49 @@ export class LayerPanel {
     countBadge.style.cssText = 'font-size: 11px; color: #666; margin-left: auto;';
 
     item.appendChild(visibilityBtn);
+    item.appendChild(lockBtn);
+    item.appendChild(nameSpan);
+    item.appendChild(countBadge);
+
+    return item;
+  }
+
+  /**
+   * Create the Behaviors pseudo-layer item
+   * Its eye toggles the behavior overlay and selecting it picks the behavior tool
+   */
+  private createBehaviorItem(): HTMLElement {
+    const { state, level } = this.editor;
+    const item = document.createElement('div');
+    item.className = 'layer-item behavior-layer';
+    item.classList.toggle('active', state.activeTool === 'behavior');
+    item.title = 'Tile behaviors (K to paint)';
+    item.addEventListener('click', () => this.editor.setTool('behavior'));
+
+    const visibilityBtn = document.createElement('button');
+    visibilityBtn.className = 'layer-visibility';
+    visibilityBtn.textContent = state.showBehaviors ? '👁' : '○';
+    visibilityBtn.title = state.showBehaviors ? 'Hide behavior overlay' : 'Show behavior overlay';
+    visibilityBtn.addEventListener('click', (e) => {
+      e.stopPropagation();
+      state.setShowBehaviors(!state.showBehaviors);
+    });
+
+    const icon = document.createElement('span');
+    icon.className = 'layer-lock';
+    icon.textContent = '🚦';
+
+    const nameSpan = document.createElement('span');
+    nameSpan.className = 'layer-name';
+    nameSpan.textContent = 'Behaviors';
+
+    const countBadge = document.createElement('span');
+    countBadge.className = 'layer-count';
+    countBadge.textContent = String(level.tileBehaviorCount);
+    countBadge.style.cssText = 'font-size: 11px; color: #666; margin-left: auto;';
+
+    item.appendChild(visibilityBtn);
+    item.appendChild(icon);
     item.appendChild(nameSpan);
     item.appendChild(countBadge);
 
@@ -87,7 +251,7 @@ export class LayerPanel {
    */
   private setupEventListeners(): void {
     // Click to select layer
-    this.container.addEventListener('click', (e) => {
+    this.listEl.addEventListener('click', (e) => {
       const target = e.target as HTMLElement;
       const layerItem = target.closest('.layer-item') as HTMLElement | null;
 
@@ -96,19 +260,68 @@ export class LayerPanel {
       }
     });
 
+    // Drag to reorder
+    this.listEl.addEventListener('dragstart', (e) => {
+      const layerItem = (e.target as HTMLElement).closest('.layer-item') as HTMLElement | null;
+      this.draggedLayerId = layerItem?.dataset.layerId ?? null;
+      e.dataTransfer?.setData('text/plain', this.draggedLayerId ?? '');
+    });
+
+    this.listEl.addEventListener('dragover', (e) => {
+      if (!this.draggedLayerId) return;
+      e.preventDefault();
+      this.updateDropIndicator(e);
+    });
+
+    this.listEl.addEventListener('dragleave', () => {
+      this.clearDropIndicator();
+    });
+
+    this.listEl.addEventListener('drop', (e) => {
+      e.preventDefault();
+      this.handleDrop(e);
+    });
+
+    this.listEl.addEventListener('dragend', () => {
+      this.draggedLayerId = null;
+      this.clearDropIndicator();
+    });
+
+    // Opacity slider
+    this.opacityInput.addEventListener('input', () => {
+      this.setActiveLayerOpacity(Number(this.opacityInput.value));
+    });
+
+    // Height offset input
+    this.heightInput.addEventListener('change', () => {
+      this.setActiveLayerHeightOffset(Number(this.heightInput.value));
+    });
+
     // Listen for editor state changes
     this.editor.state.on('layer:changed', () => {
       this.updateActiveLayer();
     });
 
-    // Re-render when history changes (tile counts may have changed)
+    // Re-render when layers change, otherwise just refresh tile counts
     this.editor.history.on('change', () => {
-      this.updateTileCounts();
+      if (this.getStructureSignature() !== this.structureSignature) {
+        this.render();
+      } else {
+        this.updateTileCounts();
+      }
     });
 
     this.editor.state.on('level:loaded', () => {
       this.render();
     });
+
+    // Keep the Behaviors item in step with the tool and overlay
+    this.editor.state.on('tool:changed', () => {
+      this.behaviorItem?.classList.toggle('active', this.editor.state.activeTool === 'behavior');
+    });
+    this.editor.state.on('overlay:changed', () => {
+      this.render();
+    });
   }
 
   /**
@@ -130,6 +343,267 @@ export class LayerPanel {
     }
   }
 
+  /**
+   * Toggle layer lock
+   */
+  toggleLayerLock(layerId: string): void {
+    const layer = this.editor.level.getLayer(layerId);
+    if (layer) {
+      layer.setLocked(!layer.config.locked);
+      this.editor.state.markDirty();
+      this.render(); // Re-render to update lock icon
+    }
+  }
+
+  /**
+   * Add a new custom layer above all other layers
+   */
+  addLayer(): void {
+    const { level } = this.editor;
+    const name = `Layer ${level.getLayers().length + 1}`;
+    const layer = new Layer({
+      id: level.createUniqueLayerId(name),
+      name,
+      type: 'custom',
+      zIndex: level.getNextZIndex(),
+    });
+
+    this.editor.history.execute(new AddLayerCommand(level, layer));
+    this.editor.state.setActiveLayer(layer.config.id);
+    this.editor.state.markDirty();
+  }
+
+  /**
+   * Duplicate the active layer directly above itself
+   */
+  duplicateActiveLayer(): void {
+    const { level } = this.editor;
+    const source = this.getActiveLayer();
+    if (!source) return;
+
+    const name = `${source.config.name} copy`;
+    const copy = source.clone({
+      id: level.createUniqueLayerId(name),
+      name,
+      type: 'custom',
+      zIndex: level.getNextZIndex(),
+      locked: false,
+    });
+
+    // Place the copy directly above the source layer
+    const orderedIds = level.getLayers().map((layer) => layer.config.id);
+    orderedIds.splice(orderedIds.indexOf(source.config.id) + 1, 0, copy.config.id);
+
+    const command = new BatchTileCommand(
+      [new AddLayerCommand(level, copy), new ReorderLayersCommand(level, orderedIds)],
+      `Duplicate layer "${source.config.name}"`
+    );
+    this.editor.history.execute(command);
+    this.editor.state.setActiveLayer(copy.config.id);
+    this.editor.state.markDirty();
+  }
+
+  /**
+   * Delete the active layer (the last remaining layer cannot be deleted)
+   */
+  deleteActiveLayer(): void {
+    const { level } = this.editor;
+    const layer = this.getActiveLayer();
+    if (!layer) return;
+
+    if (level.getLayers().length <= 1) {
+      window.alert('A level needs at least one layer.');
+      return;
+    }
+
+    if (layer.tileCount > 0) {
+      const confirmed = window.confirm(
+        `Delete layer "${layer.config.name}" and its ${layer.tileCount} tiles?`
+      );
+      if (!confirmed) {
+        return;
+      }
+    }
+
+    this.editor.history.execute(new RemoveLayerCommand(level, layer.config.id));
+    this.editor.state.markDirty();
+  }
+
+  /**
+   * Rename a layer
+   */
+  renameLayer(layerId: string, name: string): void {
+    const layer = this.editor.level.getLayer(layerId);
+    const trimmed = name.trim();
+    if (!layer || !trimmed || trimmed === layer.config.name) return;
+
+    this.editor.history.execute(new RenameLayerCommand(this.editor.level, layerId, trimmed));
+    this.editor.state.markDirty();
+  }
+
+  /**
+   * Move a layer to a new position in the bottom-to-top order
+   */
+  moveLayer(layerId: string, targetIndex: number): void {
+    const { level } = this.editor;
+    const orderedIds = level.getLayers().map((layer) => layer.config.id);
+    const currentIndex = orderedIds.indexOf(layerId);
+    if (currentIndex === -1) return;
+
+    orderedIds.splice(currentIndex, 1);
+    const clampedIndex = Math.max(0, Math.min(orderedIds.length, targetIndex));
+    orderedIds.splice(clampedIndex, 0, layerId);
+    if (clampedIndex === currentIndex) return;
+
+    const name = level.getLayer(layerId)?.config.name ?? layerId;
+    this.editor.history.execute(
+      new ReorderLayersCommand(level, orderedIds, `Move layer "${name}"`)
+    );
+    this.editor.state.markDirty();
+  }
+
+  /**
+   * Prompt for a new name for the active layer
+   */
+  private promptRenameActiveLayer(): void {
+    const layer = this.getActiveLayer();
+    if (!layer) return;
+
+    const name = window.prompt('Layer name', layer.config.name);
+    if (name !== null) {
+      this.renameLayer(layer.config.id, name);
+    }
+  }
+
+  /**
+   * Replace a layer name with an inline text input
+   */
+  private startInlineRename(layerId: string, nameSpan: HTMLElement): void {
+    const layer = this.editor.level.getLayer(layerId);
+    if (!layer) return;
+
+    const input = document.createElement('input');
+    input.type = 'text';
+    input.className = 'layer-name-input';
+    input.value = layer.config.name;
+
+    let finished = false;
+    const finish = (commit: boolean): void => {
+      if (finished) return;
+      finished = true;
+      if (commit) {
+        this.renameLayer(layerId, input.value);
+      }
+      this.render();
+    };
+
+    input.addEventListener('keydown', (e) => {
+      if (e.key === 'Enter') finish(true);
+      if (e.key === 'Escape') finish(false);
+    });
+    input.addEventListener('blur', () => finish(true));
+    input.addEventListener('click', (e) => e.stopPropagation());
+
+    nameSpan.replaceWith(input);
+    input.focus();
+    input.select();
+  }
+
+  /**
+   * Set the active layer opacity from the slider
+   */
+  private setActiveLayerOpacity(opacity: number): void {
+    const layer = this.getActiveLayer();
+    if (!layer) return;
+
+    layer.setOpacity(opacity);
+    this.opacityValue.textContent = `${Math.round(layer.config.opacity * 100)}%`;
+    this.editor.state.markDirty();
+  }
+
+  /**
+   * Set the active layer height offset from the input
+   */
+  private setActiveLayerHeightOffset(heightOffset: number): void {
+    const layer = this.getActiveLayer();
+    if (!layer) return;
+
+    if (Number.isFinite(heightOffset)) {
+      layer.setHeightOffset(heightOffset);
+      this.editor.state.markDirty();
+    }
+    this.heightInput.value = String(layer.config.heightOffset);
+  }
+
+  /**
+   * Handle a layer drop in the list
+   */
+  private handleDrop(e: DragEvent): void {
+    const draggedId = this.draggedLayerId;
+    this.draggedLayerId = null;
+    this.clearDropIndicator();
+    if (!draggedId) return;
+
+    const target = this.getDropTarget(e);
+    if (!target) return;
+
+    // The list is displayed top-to-bottom, layer order is bottom-to-top
+    const orderedIds = this.editor.level.getLayers().map((layer) => layer.config.id);
+    const targetIndex = orderedIds.indexOf(target.layerId);
+    const insertIndex = target.above ? targetIndex + 1 : targetIndex;
+    const currentIndex = orderedIds.indexOf(draggedId);
+
+    // Account for the dragged layer being removed before insertion
+    this.moveLayer(draggedId, currentIndex < insertIndex ? insertIndex - 1 : insertIndex);
+  }
+
+  /**
+   * Find the layer item under a drag event and whether the drop is above it
+   */
+  private getDropTarget(e: DragEvent): { layerId: string; above: boolean } | null {
+    const layerItem = (e.target as HTMLElement).closest('.layer-item') as HTMLElement | null;
+    if (!layerItem?.dataset.layerId) return null;
+
+    const rect = layerItem.getBoundingClientRect();
+    return {
+      layerId: layerItem.dataset.layerId,
+      above: e.clientY < rect.top + rect.height / 2,
+    };
+  }
+
+  private updateDropIndicator(e: DragEvent): void {
+    this.clearDropIndicator();
+    const target = this.getDropTarget(e);
+    if (!target) return;
+
+    const el = this.layerElements.get(target.layerId);
+    el?.classList.add(target.above ? 'drop-above' : 'drop-below');
+  }
+
+  private clearDropIndicator(): void {
+    this.layerElements.forEach((el) => {
+      el.classList.remove('drop-above', 'drop-below');
+    });
+  }
+
+  /**
+   * Get the active layer instance
+   */
+  private getActiveLayer(): Layer | undefined {
+    const activeLayerId = this.editor.state.activeLayerId;
+    return activeLayerId ? this.editor.level.getLayer(activeLayerId) : undefined;
+  }
+
+  /**
+   * Signature of the layer list used to detect structural changes
+   */
+  private getStructureSignature(): string {
+    return this.editor.level
+      .getLayers()
+      .map((layer) => `${layer.config.id}:${layer.config.name}:${layer.config.zIndex}`)
+      .join('|');
+  }
+
   /**
    * Update active layer visual state
    */
@@ -143,6 +617,21 @@ export class LayerPanel {
         el.classList.remove('active');
       }
     });
+
+    this.updateProperties();
+  }
+
+  /**
+   * Update the active layer property controls
+   */
+  private updateProperties(): void {
+    const layer = this.getActiveLayer();
+    this.opacityInput.disabled = !layer;
+    const opacity = layer?.config.opacity ?? 1;
+    this.opacityInput.value = String(opacity);
+    this.opacityValue.textContent = `${Math.round(opacity * 100)}%`;
+    this.heightInput.disabled = !layer;
+    this.heightInput.value = String(layer?.config.heightOffset ?? 0);
   }
 
   /**
@@ -151,6 +640,11 @@ export class LayerPanel {
   private updateTileCounts(): void {
     const layers = this.editor.level.getLayers();
 
+    const behaviorCount = this.behaviorItem?.querySelector('.layer-count');
+    if (behaviorCount) {
+      behaviorCount.textContent = String(this.editor.level.tileBehaviorCount);
+    }
+
     for (const layer of layers) {
       const el = this.layerElements.get(layer.config.id);
       if (el) {
@@ -0,0 +1,138 @@
+/**
+ * Level import report dialog
+ */
+
+import { LevelValidationReport } from '../level/LevelSerializer';
+import { ValidationIssue } from '../level/validation';
+
+/** Most issues listed at once */
+const MAX_LISTED_ISSUES = 200;
+
+const SEVERITY_LABELS: Record<ValidationIssue['severity'], string> = {
+  fatal: 'Error',
+  recoverable: 'Fixable',
+};
+
+/**
+ * LevelImportDialog shows what is wrong with a level file and lets the user
+ * import a repaired copy when every problem can be fixed
+ */
+export class LevelImportDialog {
+  private dialog: HTMLDialogElement;
+  private titleEl: HTMLElement;
+  private summaryEl: HTMLElement;
+  private issueListEl: HTMLElement;
+  private repairBtn: HTMLButtonElement;
+
+  constructor(containerId: string) {
+    const dialog = document.getElementById(containerId);
+    if (!(dialog instanceof HTMLDialogElement)) {
+      throw new Error(`Dialog not found: ${containerId}`);
+    }
+
+    this.dialog = dialog;
+    this.titleEl = document.createElement('div');
+    this.summaryEl = document.createElement('div');
+    this.issueListEl = document.createElement('div');
+    this.repairBtn = document.createElement('button');
+
+    this.render();
+  }
+
+  /**
+   * Render the static parts of the dialog
+   */
+  private render(): void {
+    this.dialog.innerHTML = '';
+
+    const form = document.createElement('form');
+    form.method = 'dialog';
+
+    this.titleEl.className = 'control-label';
+    this.summaryEl.className = 'control-meta';
+    this.issueListEl.className = 'report-issues';
+
+    const actions = document.createElement('div');
+    actions.className = 'control-row report-actions';
+
+    this.repairBtn.className = 'tool-btn';
+    this.repairBtn.value = 'repair';
+    this.repairBtn.textContent = 'Repair and Import';
+    this.repairBtn.title = 'Apply the listed fixes and import the level';
+
+    const cancelBtn = document.createElement('button');
+    cancelBtn.className = 'tool-btn';
+    cancelBtn.value = 'cancel';
+    cancelBtn.textContent = 'Cancel';
+
+    actions.appendChild(this.repairBtn);
+    actions.appendChild(cancelBtn);
+    form.appendChild(this.titleEl);
+    form.appendChild(this.summaryEl);
+    form.appendChild(this.issueListEl);
+    form.appendChild(actions);
+    this.dialog.appendChild(form);
+  }
+
+  /**
+   * Show a report for a file
+   * Resolves true if the user chose to import the repaired level
+   */
+  show(fileName: string, report: LevelValidationReport): Promise<boolean> {
+    const fatalCount = report.issues.filter((issue) => issue.severity === 'fatal').length;
+    const fixableCount = report.issues.length - fatalCount;
+
+    this.titleEl.textContent = `Problems in ${fileName}`;
+    this.summaryEl.textContent = report.canRepair
+      ? `${fixableCount} problem${fixableCount === 1 ? '' : 's'} can be repaired automatically.`
+      : `${fatalCount} problem${fatalCount === 1 ? '' : 's'} must be fixed in the file first.`;
+
+    for (const migration of report.migrations) {
+      this.summaryEl.textContent += ` Upgraded from format v${migration.from} to v${migration.to}.`;
+    }
+
+    this.renderIssues(report.issues);
+    this.repairBtn.style.display = report.canRepair ? '' : 'none';
+    this.dialog.returnValue = '';
+    this.dialog.showModal();
+
+    return new Promise((resolve) => {
+      this.dialog.addEventListener('close', () => resolve(this.dialog.returnValue === 'repair'), {
+        once: true,
+      });
+    });
+  }
+
+  private renderIssues(issues: readonly ValidationIssue[]): void {
+    this.issueListEl.innerHTML = '';
+
+    for (const issue of issues.slice(0, MAX_LISTED_ISSUES)) {
+      const row = document.createElement('div');
+      row.className = `report-issue ${issue.severity}`;
+
+      const severity = document.createElement('span');
+      severity.className = 'report-issue-severity';
+      severity.textContent = SEVERITY_LABELS[issue.severity];
+
+      const path = document.createElement('code');
+      path.className = 'report-issue-path';
+      path.textContent = issue.path || '(file)';
+
+      const message = document.createElement('span');
+      message.textContent = issue.message;
+
+      row.appendChild(severity);
+      row.appendChild(path);
+      row.appendChild(message);
+      this.issueListEl.appendChild(row);
+    }
+
+    const hidden = issues.length - MAX_LISTED_ISSUES;
+    if (hidden > 0) {
+      const more = document.createElement('div');
+      more.className = 'control-meta';
+      more.textContent = `…and ${hidden} more`;
+      this.issueListEl.appendChild(more);
+    }
+  }
+}
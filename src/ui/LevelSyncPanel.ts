@@ -0,0 +1,255 @@
+/**
+ * Level sync panel UI component
+ */
+
+import { Editor } from '../editor/Editor';
+import { LevelSync } from '../editor/LevelSync';
+import { LevelChange, getLevelChangeKey } from '../level/LevelDiff';
+
+/** Most changes listed at once; the rest are applied with the listed ones */
+const MAX_LISTED_CHANGES = 200;
+
+const CHANGE_SIGNS: Record<LevelChange['type'], string> = {
+  added: '+',
+  removed: '−',
+  changed: '~',
+};
+
+/**
+ * LevelSyncPanel reviews how a tester's level differs from the editor's,
+ * applies the selected changes back to the editor and toggles the live link.
+ */
+export class LevelSyncPanel {
+  private container: HTMLElement;
+  private editor: Editor;
+  private sync: LevelSync;
+  private statusEl: HTMLElement;
+  private linkInput: HTMLInputElement;
+  private changeListEl: HTMLElement;
+  private applyBtn: HTMLButtonElement;
+  private selectAllBtn: HTMLButtonElement;
+  private selectNoneBtn: HTMLButtonElement;
+  private changes: LevelChange[] = [];
+  /** Keys of changes the user unticked */
+  private excluded = new Set<string>();
+
+  constructor(containerId: string, editor: Editor, sync: LevelSync) {
+    const container = document.getElementById(containerId);
+    if (!container) {
+      throw new Error(`Container not found: ${containerId}`);
+    }
+
+    this.container = container;
+    this.editor = editor;
+    this.sync = sync;
+    this.statusEl = document.createElement('div');
+    this.linkInput = document.createElement('input');
+    this.changeListEl = document.createElement('div');
+    this.applyBtn = document.createElement('button');
+    this.selectAllBtn = document.createElement('button');
+    this.selectNoneBtn = document.createElement('button');
+
+    this.render();
+    sync.on('change', () => this.refresh());
+    this.refresh();
+  }
+
+  /**
+   * Render the static parts of the panel
+   */
+  private render(): void {
+    this.container.innerHTML = '';
+
+    const group = document.createElement('div');
+    group.className = 'control-group';
+
+    const label = document.createElement('div');
+    label.className = 'control-label';
+    label.textContent = 'Changes vs Editor';
+
+    this.statusEl.className = 'control-meta';
+    this.changeListEl.className = 'sync-changes';
+
+    const selectRow = document.createElement('div');
+    selectRow.className = 'control-row';
+
+    this.selectAllBtn.type = 'button';
+    this.selectAllBtn.className = 'tool-btn small';
+    this.selectAllBtn.textContent = 'Select All';
+    this.selectAllBtn.addEventListener('click', () => {
+      this.excluded.clear();
+      this.refresh();
+    });
+
+    this.selectNoneBtn.type = 'button';
+    this.selectNoneBtn.className = 'tool-btn small';
+    this.selectNoneBtn.textContent = 'Select None';
+    this.selectNoneBtn.addEventListener('click', () => {
+      this.changes.forEach((change) => this.excluded.add(getLevelChangeKey(change)));
+      this.refresh();
+    });
+
+    selectRow.appendChild(this.selectAllBtn);
+    selectRow.appendChild(this.selectNoneBtn);
+
+    this.applyBtn.type = 'button';
+    this.applyBtn.className = 'tool-btn full-width';
+    this.applyBtn.title = 'Apply the selected changes to the editor as one undo step';
+    this.applyBtn.addEventListener('click', () => this.applySelected());
+
+    group.appendChild(label);
+    group.appendChild(this.statusEl);
+    group.appendChild(this.changeListEl);
+    group.appendChild(selectRow);
+    group.appendChild(this.applyBtn);
+    this.container.appendChild(group);
+    this.container.appendChild(this.renderLinkSection());
+  }
+
+  private renderLinkSection(): HTMLElement {
+    const group = document.createElement('div');
+    group.className = 'control-group';
+
+    const row = document.createElement('label');
+    row.className = 'control-row control-toggle';
+    row.title = 'Propagate edits between the editor and this tester while both show the same map';
+
+    this.linkInput.type = 'checkbox';
+    this.linkInput.addEventListener('change', () => this.toggleLink());
+
+    const text = document.createElement('span');
+    text.textContent = 'Live link with editor';
+
+    row.appendChild(this.linkInput);
+    row.appendChild(text);
+    group.appendChild(row);
+    return group;
+  }
+
+  // =========================================================================
+  // Actions
+  // =========================================================================
+
+  private applySelected(): void {
+    const selected = this.changes.filter((change) => !this.excluded.has(getLevelChangeKey(change)));
+    if (this.sync.applyToEditor(selected)) {
+      this.excluded.clear();
+    }
+  }
+
+  private toggleLink(): void {
+    const linked = this.linkInput.checked;
+    if (linked && this.changes.length > 0) {
+      const count = this.changes.length;
+      const confirmed = window.confirm(
+        `Linking replaces ${count} unapplied tester change${count === 1 ? '' : 's'} with the editor map. Continue?`
+      );
+      if (!confirmed) {
+        this.linkInput.checked = false;
+        return;
+      }
+    }
+    this.sync.setLinked(linked);
+    this.refresh();
+  }
+
+  // =========================================================================
+  // Display
+  // =========================================================================
+
+  /**
+   * Recompute the pending changes and update the list and controls
+   */
+  private refresh(): void {
+    const sameLevel = this.sync.isSameLevel();
+    this.changes = sameLevel ? this.sync.getPendingChanges() : [];
+
+    if (!sameLevel) {
+      this.statusEl.textContent = 'The tester is not showing the editor map. Use "Use Current Editor Map" to test it.';
+    } else if (this.changes.length === 0) {
+      this.statusEl.textContent = this.sync.isLinked
+        ? 'Linked: edits sync both ways.'
+        : 'Tester map matches the editor.';
+    } else {
+      const count = this.changes.length;
+      this.statusEl.textContent = `${count} change${count === 1 ? '' : 's'} not in the editor.`;
+    }
+
+    this.renderChangeList();
+
+    this.linkInput.checked = this.sync.isLinked;
+    this.linkInput.disabled = !sameLevel;
+    this.selectAllBtn.disabled = this.changes.length === 0;
+    this.selectNoneBtn.disabled = this.changes.length === 0;
+    this.updateApplyButton();
+  }
+
+  private updateApplyButton(): void {
+    const selectedCount = this.changes.filter(
+      (change) => !this.excluded.has(getLevelChangeKey(change))
+    ).length;
+    this.applyBtn.disabled = selectedCount === 0;
+    this.applyBtn.textContent = `Apply to Editor (${selectedCount})`;
+  }
+
+  private renderChangeList(): void {
+    this.changeListEl.innerHTML = '';
+    this.changeListEl.style.display = this.changes.length > 0 ? 'block' : 'none';
+
+    for (const change of this.changes.slice(0, MAX_LISTED_CHANGES)) {
+      const key = getLevelChangeKey(change);
+
+      const row = document.createElement('label');
+      row.className = `sync-change ${change.type}`;
+
+      const checkbox = document.createElement('input');
+      checkbox.type = 'checkbox';
+      checkbox.checked = !this.excluded.has(key);
+      checkbox.addEventListener('change', () => {
+        if (checkbox.checked) {
+          this.excluded.delete(key);
+        } else {
+          this.excluded.add(key);
+        }
+        this.updateApplyButton();
+      });
+
+      const sign = document.createElement('span');
+      sign.className = 'sync-change-sign';
+      sign.textContent = CHANGE_SIGNS[change.type];
+
+      const text = document.createElement('span');
+      text.className = 'sync-change-label';
+      text.textContent = this.describeChange(change);
+
+      row.appendChild(checkbox);
+      row.appendChild(sign);
+      row.appendChild(text);
+      this.changeListEl.appendChild(row);
+    }
+
+    const hidden = this.changes.length - MAX_LISTED_CHANGES;
+    if (hidden > 0) {
+      const more = document.createElement('div');
+      more.className = 'control-meta';
+      more.textContent = `…and ${hidden} more`;
+      this.changeListEl.appendChild(more);
+    }
+  }
+
+  private describeChange(change: LevelChange): string {
+    const at = `(${change.position.x}, ${change.position.y})`;
+
+    if (change.target === 'behavior') {
+      const before = change.before?.type ?? 'floor';
+      const after = change.after?.type ?? 'floor';
+      return before === after ? `${after} settings ${at}` : `${before} → ${after} ${at}`;
+    }
+
+    const layerName = this.editor.level.getLayer(change.layerId)?.config.name ?? change.layerId;
+    const before = change.before ? `#${change.before.tileId}` : 'empty';
+    const after = change.after ? `#${change.after.tileId}` : 'empty';
+    const tiles = before === after ? `${after} orientation` : `${before} → ${after}`;
+    return `${layerName}: ${tiles} ${at}`;
+  }
+}
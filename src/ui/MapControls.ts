@@ -4,17 +4,31 @@
 
 import { Editor } from '../editor/Editor';
 import { BatchTileCommand, ClearLayerCommand } from '../editor/history/Command';
+import { ResizeMapDialog } from './ResizeMapDialog';
 
 const MAP_SIZES = [8, 16, 32, 64, 128];
+const MAX_IMAGE_SCALE = 8;
+const DEFAULT_IMAGE_BACKGROUND = '#0f0f23';
 
 export class MapControls {
   private container: HTMLElement;
   private editor: Editor;
+  private resizeDialog: ResizeMapDialog;
   private sizeButtons = new Map<number, HTMLButtonElement>();
   private sizeMeta: HTMLElement;
+  private resizeButton: HTMLButtonElement;
   private clearButton: HTMLButtonElement;
+  private cliffMeta: HTMLElement;
+  private cliffButton: HTMLButtonElement;
+  private imageScaleInput: HTMLInputElement;
+  private imageGridInput: HTMLInputElement;
+  private imageBehaviorsInput: HTMLInputElement;
+  private imageHiddenInput: HTMLInputElement;
+  private imageTransparentInput: HTMLInputElement;
+  private imageBackgroundInput: HTMLInputElement;
+  private imageButton: HTMLButtonElement;
 
-  constructor(containerId: string, editor: Editor) {
+  constructor(containerId: string, editor: Editor, resizeDialog: ResizeMapDialog) {
     const container = document.getElementById(containerId);
     if (!container) {
       throw new Error(`Container not found: ${containerId}`);
@@ -22,12 +36,24 @@ export class MapControls {
 
     this.container = container;
     this.editor = editor;
+    this.resizeDialog = resizeDialog;
     this.sizeMeta = document.createElement('div');
+    this.resizeButton = document.createElement('button');
     this.clearButton = document.createElement('button');
+    this.cliffMeta = document.createElement('div');
+    this.cliffButton = document.createElement('button');
+    this.imageScaleInput = document.createElement('input');
+    this.imageGridInput = document.createElement('input');
+    this.imageBehaviorsInput = document.createElement('input');
+    this.imageHiddenInput = document.createElement('input');
+    this.imageTransparentInput = document.createElement('input');
+    this.imageBackgroundInput = document.createElement('input');
+    this.imageButton = document.createElement('button');
 
     this.render();
     this.setupEventListeners();
     this.updateSizeDisplay();
+    this.updateCliffDisplay();
   }
 
   /**
@@ -60,19 +86,101 @@ export class MapControls {
       buttons.appendChild(btn);
     }
 
+    this.resizeButton.type = 'button';
+    this.resizeButton.className = 'tool-btn full-width';
+    this.resizeButton.textContent = 'Resize / Crop…';
+    this.resizeButton.title = 'Set a custom size and anchor, or crop to the content';
+
     group.appendChild(label);
     group.appendChild(this.sizeMeta);
     group.appendChild(buttons);
+    group.appendChild(this.resizeButton);
+
+    const cliffGroup = document.createElement('div');
+    cliffGroup.className = 'control-group';
+
+    const cliffLabel = document.createElement('div');
+    cliffLabel.className = 'control-label';
+    cliffLabel.textContent = 'Cliff Tile';
+
+    this.cliffMeta.className = 'control-meta';
+
+    this.cliffButton.type = 'button';
+    this.cliffButton.className = 'tool-btn full-width';
+    this.cliffButton.textContent = 'Use Selected Tile';
+    this.cliffButton.title = 'Fill the sides of raised cells with the selected tile';
+
+    cliffGroup.appendChild(cliffLabel);
+    cliffGroup.appendChild(this.cliffMeta);
+    cliffGroup.appendChild(this.cliffButton);
 
     this.clearButton.type = 'button';
     this.clearButton.className = 'tool-btn danger full-width';
     this.clearButton.textContent = 'Clear All';
-    this.clearButton.title = 'Clear all tiles from all layers';
+    this.clearButton.title = 'Clear all tiles from all unlocked layers';
 
     this.container.appendChild(group);
+    this.container.appendChild(cliffGroup);
+    this.container.appendChild(this.renderImageSection());
     this.container.appendChild(this.clearButton);
   }
 
+  /**
+   * Render the PNG export options
+   */
+  private renderImageSection(): HTMLElement {
+    const group = document.createElement('div');
+    group.className = 'control-group';
+
+    const label = document.createElement('div');
+    label.className = 'control-label';
+    label.textContent = 'Export Image';
+
+    const scaleRow = document.createElement('label');
+    scaleRow.className = 'control-row control-toggle';
+    this.imageScaleInput.type = 'number';
+    this.imageScaleInput.min = '1';
+    this.imageScaleInput.max = String(MAX_IMAGE_SCALE);
+    this.imageScaleInput.step = '1';
+    this.imageScaleInput.value = '2';
+    scaleRow.appendChild(document.createTextNode('Scale'));
+    scaleRow.appendChild(this.imageScaleInput);
+    scaleRow.appendChild(document.createTextNode('×'));
+
+    this.imageBackgroundInput.type = 'color';
+    this.imageBackgroundInput.value = DEFAULT_IMAGE_BACKGROUND;
+    this.imageBackgroundInput.disabled = true;
+    this.imageTransparentInput.addEventListener('change', () => {
+      this.imageBackgroundInput.disabled = this.imageTransparentInput.checked;
+    });
+    const backgroundRow = this.createCheckboxRow(this.imageTransparentInput, 'Transparent background', true);
+    backgroundRow.appendChild(this.imageBackgroundInput);
+
+    this.imageButton.type = 'button';
+    this.imageButton.className = 'tool-btn full-width';
+    this.imageButton.textContent = '🖼️ Download PNG';
+    this.imageButton.title = 'Render the whole level to a PNG, independent of the current view';
+
+    group.appendChild(label);
+    group.appendChild(scaleRow);
+    group.appendChild(this.createCheckboxRow(this.imageGridInput, 'Grid', false));
+    group.appendChild(this.createCheckboxRow(this.imageBehaviorsInput, 'Behavior overlay', false));
+    group.appendChild(this.createCheckboxRow(this.imageHiddenInput, 'Hidden layers', false));
+    group.appendChild(backgroundRow);
+    group.appendChild(this.imageButton);
+    return group;
+  }
+
+  private createCheckboxRow(input: HTMLInputElement, text: string, checked: boolean): HTMLElement {
+    const row = document.createElement('label');
+    row.className = 'control-row control-toggle';
+    input.type = 'checkbox';
+    input.checked = checked;
+    row.appendChild(input);
+    row.appendChild(document.createTextNode(text));
+    return row;
+  }
+
   /**
    * Setup event listeners
    */
@@ -82,52 +190,49 @@ export class MapControls {
       const sizeBtn = target.closest('button[data-size]') as HTMLButtonElement | null;
       if (sizeBtn?.dataset.size) {
         const size = Number(sizeBtn.dataset.size);
-        this.confirmResize(size);
+        this.resizeDialog.show(size, size);
         return;
       }
     });
 
+    this.resizeButton.addEventListener('click', () => {
+      this.resizeDialog.show();
+    });
+
     this.clearButton.addEventListener('click', () => {
       this.clearAllTiles();
     });
 
-    this.editor.state.on('level:loaded', () => {
-      this.updateSizeDisplay();
+    this.cliffButton.addEventListener('click', () => {
+      this.useSelectedTileForCliffs();
     });
-  }
 
-  /**
-   * Confirm and resize the map
-   */
-  private confirmResize(size: number): void {
-    const { gridWidth, gridHeight } = this.editor.level;
-    if (gridWidth === size && gridHeight === size) {
-      return;
-    }
+    this.imageButton.addEventListener('click', async () => {
+      await this.exportImage();
+    });
 
-    const confirmed = window.confirm(
-      `Resize map to ${size}x${size}? This will clear all tiles and start a new level.`
-    );
-    if (!confirmed) {
-      return;
-    }
+    this.editor.state.on('level:loaded', () => {
+      this.updateSizeDisplay();
+      this.updateCliffDisplay();
+    });
 
-    const name = this.editor.level.metadata.name;
-    this.editor.newLevel(name, { width: size, height: size });
-    this.updateSizeDisplay();
+    // Resizes are undoable, so the size can change with any history step
+    this.editor.history.on('change', () => {
+      this.updateSizeDisplay();
+    });
   }
 
   /**
-   * Clear all tiles from all layers
+   * Clear all tiles from all unlocked layers
    */
   private clearAllTiles(): void {
     const layers = this.editor.level.getLayers();
-    const layersWithTiles = layers.filter((layer) => layer.tileCount > 0);
+    const layersWithTiles = layers.filter((layer) => layer.tileCount > 0 && !layer.config.locked);
     if (layersWithTiles.length === 0) {
       return;
     }
 
-    const confirmed = window.confirm('Clear all tiles from every layer?');
+    const confirmed = window.confirm('Clear all tiles from every unlocked layer?');
     if (!confirmed) {
       return;
     }
@@ -140,6 +245,46 @@ export class MapControls {
     this.editor.state.markDirty();
   }
 
+  /**
+   * Download the level as a PNG with the chosen options
+   */
+  private async exportImage(): Promise<void> {
+    const scale = parseInt(this.imageScaleInput.value, 10);
+    try {
+      await this.editor.downloadLevelImage({
+        scale: Number.isFinite(scale) ? Math.min(MAX_IMAGE_SCALE, Math.max(1, scale)) : 1,
+        showGrid: this.imageGridInput.checked,
+        showBehaviors: this.imageBehaviorsInput.checked,
+        includeHiddenLayers: this.imageHiddenInput.checked,
+        background: this.imageTransparentInput.checked ? null : this.imageBackgroundInput.value,
+      });
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Unknown error';
+      window.alert(`Failed to export image: ${message}`);
+    }
+  }
+
+  /**
+   * Use the selected palette tile for cliff faces
+   */
+  private useSelectedTileForCliffs(): void {
+    const tileId = this.editor.state.selectedTileId;
+    if (tileId === null || tileId === this.editor.level.cliffTileId) {
+      return;
+    }
+
+    this.editor.level.setCliffTileId(tileId);
+    this.editor.state.markDirty();
+    this.updateCliffDisplay();
+  }
+
+  /**
+   * Update cliff tile display
+   */
+  private updateCliffDisplay(): void {
+    this.cliffMeta.textContent = `Current: tile ${this.editor.level.cliffTileId}`;
+  }
+
   /**
    * Update map size display and active button state
    */
@@ -337,6 +337,7 @@ export class MovementControls {
     this.addKindButton(buttons, 'door', 'Door');
     this.addKindButton(buttons, 'exit', 'Exit');
     this.addKindButton(buttons, 'spawn', 'Spawn');
+    this.addKindButton(buttons, 'ramp', 'Ramp');
 
     group.appendChild(label);
     group.appendChild(buttons);
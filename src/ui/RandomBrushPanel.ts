@@ -0,0 +1,337 @@
+/**
+ * Random brush and scatter panel UI component
+ */
+
+import { Editor } from '../editor/Editor';
+import { TileRegistry, TILE_CATEGORIES } from '../assets/TileRegistry';
+import { BrushMode, ScatterArea, WeightedTile } from '../core/types';
+import { createRandomSeed } from '../core/random';
+import { MAX_SCATTER_RADIUS } from '../core/constants';
+
+/** Categories offered as one-click weighted sets */
+const PRESET_CATEGORY_IDS = ['dirt', 'grass-transition', 'vegetation', 'props', 'rocks-gray'];
+
+const BRUSH_MODES: Array<{ mode: BrushMode; label: string }> = [
+  { mode: 'single', label: 'Selected Tile' },
+  { mode: 'random', label: 'Random Set' },
+];
+
+const SCATTER_AREAS: Array<{ area: ScatterArea; label: string }> = [
+  { area: 'radius', label: 'Radius' },
+  { area: 'selection', label: 'Selection' },
+];
+
+/**
+ * RandomBrushPanel edits the weighted tile set shared by the random brush and
+ * the scatter tool, the random seed, and the scatter options
+ */
+export class RandomBrushPanel {
+  private container: HTMLElement;
+  private editor: Editor;
+  private tileRegistry: TileRegistry;
+  private modeButtons = new Map<BrushMode, HTMLButtonElement>();
+  private areaButtons = new Map<ScatterArea, HTMLButtonElement>();
+  private tileListEl: HTMLElement;
+  private seedInput: HTMLInputElement;
+  private densityInput: HTMLInputElement;
+  private densityValue: HTMLElement;
+  private radiusInput: HTMLInputElement;
+  private rotationInput: HTMLInputElement;
+
+  constructor(containerId: string, editor: Editor, tileRegistry: TileRegistry) {
+    const container = document.getElementById(containerId);
+    if (!container) {
+      throw new Error(`Container not found: ${containerId}`);
+    }
+
+    this.container = container;
+    this.editor = editor;
+    this.tileRegistry = tileRegistry;
+    this.tileListEl = document.createElement('div');
+    this.seedInput = document.createElement('input');
+    this.densityInput = document.createElement('input');
+    this.densityValue = document.createElement('span');
+    this.radiusInput = document.createElement('input');
+    this.rotationInput = document.createElement('input');
+
+    this.render();
+    this.setupEventListeners();
+    this.refresh();
+  }
+
+  /**
+   * Render the panel
+   */
+  private render(): void {
+    this.container.innerHTML = '';
+    this.container.appendChild(this.renderTileSetSection());
+    this.container.appendChild(this.renderScatterSection());
+  }
+
+  private renderTileSetSection(): HTMLElement {
+    const group = document.createElement('div');
+    group.className = 'control-group';
+
+    const label = document.createElement('div');
+    label.className = 'control-label';
+    label.textContent = 'Brush Tiles (B)';
+
+    const modes = document.createElement('div');
+    modes.className = 'button-group';
+    for (const { mode, label: modeLabel } of BRUSH_MODES) {
+      const btn = this.createButton(modeLabel, () => {
+        this.editor.state.setBrushMode(mode);
+        this.editor.setTool('brush');
+      });
+      this.modeButtons.set(mode, btn);
+      modes.appendChild(btn);
+    }
+
+    this.tileListEl.className = 'weighted-tiles';
+
+    const actions = document.createElement('div');
+    actions.className = 'button-group';
+    const addBtn = this.createButton('+ Selected Tile', () => this.addSelectedTile());
+    addBtn.title = 'Add the palette tile to the random set';
+    actions.appendChild(addBtn);
+    actions.appendChild(this.createButton('Clear', () => this.editor.state.setWeightedTiles([])));
+
+    const presets = document.createElement('div');
+    presets.className = 'button-group';
+    for (const category of TILE_CATEGORIES.filter((c) => PRESET_CATEGORY_IDS.includes(c.id))) {
+      const btn = this.createButton(category.name, () => {
+        const tiles: WeightedTile[] = [];
+        for (let tileId = category.startId; tileId <= category.endId; tileId++) {
+          tiles.push({ tileId, weight: 1 });
+        }
+        this.editor.state.setWeightedTiles(tiles);
+      });
+      btn.title = `Use every ${category.name} tile with weight 1`;
+      presets.appendChild(btn);
+    }
+
+    const seedRow = document.createElement('label');
+    seedRow.className = 'control-row control-toggle';
+    this.seedInput.type = 'number';
+    this.seedInput.min = '0';
+    this.seedInput.step = '1';
+    this.seedInput.title = 'The same seed places the same tiles on the same cells';
+    seedRow.appendChild(document.createTextNode('Seed'));
+    seedRow.appendChild(this.seedInput);
+    const rerollBtn = this.createButton('🎲', () => {
+      this.editor.state.setRandomSeed(createRandomSeed());
+    });
+    rerollBtn.title = 'New random seed';
+    seedRow.appendChild(rerollBtn);
+
+    group.appendChild(label);
+    group.appendChild(modes);
+    group.appendChild(this.tileListEl);
+    group.appendChild(actions);
+    group.appendChild(presets);
+    group.appendChild(seedRow);
+    return group;
+  }
+
+  private renderScatterSection(): HTMLElement {
+    const group = document.createElement('div');
+    group.className = 'control-group';
+
+    const label = document.createElement('div');
+    label.className = 'control-label';
+    label.textContent = 'Scatter (P)';
+
+    const areas = document.createElement('div');
+    areas.className = 'button-group';
+    for (const { area, label: areaLabel } of SCATTER_AREAS) {
+      const btn = this.createButton(areaLabel, () => {
+        this.editor.state.setScatterOptions({ area });
+        this.editor.setTool('scatter');
+      });
+      btn.title = 'Scatter around the cursor or inside a dragged selection (Shift+P)';
+      this.areaButtons.set(area, btn);
+      areas.appendChild(btn);
+    }
+
+    const densityRow = document.createElement('div');
+    densityRow.className = 'control-row';
+    this.densityInput.type = 'range';
+    this.densityInput.className = 'control-range';
+    this.densityInput.min = '1';
+    this.densityInput.max = '100';
+    this.densityInput.step = '1';
+    this.densityValue.className = 'control-value';
+    densityRow.appendChild(document.createTextNode('Density'));
+    densityRow.appendChild(this.densityInput);
+    densityRow.appendChild(this.densityValue);
+
+    const radiusRow = document.createElement('label');
+    radiusRow.className = 'control-row control-toggle';
+    this.radiusInput.type = 'number';
+    this.radiusInput.min = '0';
+    this.radiusInput.max = String(MAX_SCATTER_RADIUS);
+    this.radiusInput.step = '1';
+    radiusRow.appendChild(document.createTextNode('Radius'));
+    radiusRow.appendChild(this.radiusInput);
+    radiusRow.appendChild(document.createTextNode('cells'));
+
+    const rotationRow = document.createElement('label');
+    rotationRow.className = 'control-row control-toggle';
+    this.rotationInput.type = 'checkbox';
+    rotationRow.appendChild(this.rotationInput);
+    rotationRow.appendChild(document.createTextNode('Random rotation'));
+
+    const hint = document.createElement('div');
+    hint.className = 'control-meta';
+    hint.textContent = 'Only empty cells of the active layer get tiles.';
+
+    group.appendChild(label);
+    group.appendChild(areas);
+    group.appendChild(densityRow);
+    group.appendChild(radiusRow);
+    group.appendChild(rotationRow);
+    group.appendChild(hint);
+    return group;
+  }
+
+  private createButton(text: string, onClick: () => void): HTMLButtonElement {
+    const btn = document.createElement('button');
+    btn.type = 'button';
+    btn.className = 'tool-btn small';
+    btn.textContent = text;
+    btn.addEventListener('click', onClick);
+    return btn;
+  }
+
+  // =========================================================================
+  // Actions
+  // =========================================================================
+
+  private addSelectedTile(): void {
+    const { state } = this.editor;
+    const tileId = state.selectedTileId;
+    if (tileId === null) return;
+    state.setWeightedTiles([...state.weightedTiles, { tileId, weight: 1 }]);
+  }
+
+  private setWeight(index: number, weight: number): void {
+    const { state } = this.editor;
+    state.setWeightedTiles(
+      state.weightedTiles.map((entry, i) => (i === index ? { ...entry, weight } : entry))
+    );
+  }
+
+  private removeTile(index: number): void {
+    const { state } = this.editor;
+    state.setWeightedTiles(state.weightedTiles.filter((_, i) => i !== index));
+  }
+
+  // =========================================================================
+  // Display
+  // =========================================================================
+
+  private setupEventListeners(): void {
+    const { state } = this.editor;
+    state.on('random:changed', () => this.refresh());
+    state.on('scatter:changed', () => this.refresh());
+
+    this.seedInput.addEventListener('change', () => {
+      const seed = Number(this.seedInput.value);
+      if (Number.isInteger(seed) && seed >= 0) {
+        state.setRandomSeed(seed);
+      }
+      this.refresh();
+    });
+    this.densityInput.addEventListener('input', () => {
+      state.setScatterOptions({ density: Number(this.densityInput.value) / 100 });
+    });
+    this.radiusInput.addEventListener('change', () => {
+      const radius = Number(this.radiusInput.value);
+      if (Number.isFinite(radius)) {
+        state.setScatterOptions({ radius });
+      }
+      this.refresh();
+    });
+    this.rotationInput.addEventListener('change', () => {
+      state.setScatterOptions({ randomRotation: this.rotationInput.checked });
+    });
+  }
+
+  /**
+   * Sync buttons, fields and the tile list with the editor state
+   */
+  private refresh(): void {
+    const { state } = this.editor;
+    const options = state.scatterOptions;
+
+    this.modeButtons.forEach((btn, mode) => {
+      const isActive = mode === state.brushMode;
+      btn.classList.toggle('active', isActive);
+      btn.setAttribute('aria-pressed', String(isActive));
+    });
+    this.areaButtons.forEach((btn, area) => {
+      const isActive = area === options.area;
+      btn.classList.toggle('active', isActive);
+      btn.setAttribute('aria-pressed', String(isActive));
+    });
+
+    this.seedInput.value = String(state.randomSeed);
+    this.densityInput.value = String(Math.round(options.density * 100));
+    this.densityValue.textContent = `${Math.round(options.density * 100)}%`;
+    this.radiusInput.value = String(options.radius);
+    this.rotationInput.checked = options.randomRotation;
+
+    this.renderTileList();
+  }
+
+  private renderTileList(): void {
+    const tiles = this.editor.state.weightedTiles;
+    const total = tiles.reduce((sum, entry) => sum + entry.weight, 0);
+    this.tileListEl.innerHTML = '';
+
+    if (tiles.length === 0) {
+      const empty = document.createElement('div');
+      empty.className = 'control-meta';
+      empty.textContent = 'No tiles yet; the brush and scatter use the selected tile.';
+      this.tileListEl.appendChild(empty);
+      return;
+    }
+
+    tiles.forEach((entry, index) => {
+      const row = document.createElement('div');
+      row.className = 'weighted-tile';
+
+      const preview = this.tileRegistry.createTilePreview(entry.tileId, 0.75);
+      preview.title = `Tile #${entry.tileId}`;
+
+      const weightInput = document.createElement('input');
+      weightInput.type = 'number';
+      weightInput.min = '0';
+      weightInput.step = '1';
+      weightInput.value = String(entry.weight);
+      weightInput.title = 'Weight';
+      weightInput.addEventListener('change', () => {
+        const weight = Number(weightInput.value);
+        if (Number.isFinite(weight) && weight >= 0) {
+          this.setWeight(index, weight);
+        } else {
+          weightInput.value = String(entry.weight);
+        }
+      });
+
+      const share = document.createElement('span');
+      share.className = 'control-value';
+      share.textContent = total > 0 ? `${Math.round((entry.weight / total) * 100)}%` : '–';
+
+      const removeBtn = this.createButton('✕', () => this.removeTile(index));
+      removeBtn.title = 'Remove from the set';
+
+      row.appendChild(preview);
+      row.appendChild(document.createTextNode(`#${entry.tileId}`));
+      row.appendChild(weightInput);
+      row.appendChild(share);
+      row.appendChild(removeBtn);
+      this.tileListEl.appendChild(row);
+    });
+  }
+}
@@ -0,0 +1,255 @@
+/**
+ * Resize map dialog
+ */
+
+import { Editor } from '../editor/Editor';
+import { ResizeLevelCommand } from '../editor/history/LevelCommands';
+import { GridCoord } from '../core/types';
+import { MAX_GRID_SIZE } from '../core/constants';
+
+/** Where existing content stays when the grid grows or shrinks (0 = start, 1 = end) */
+interface ResizeAnchor {
+  x: 0 | 0.5 | 1;
+  y: 0 | 0.5 | 1;
+}
+
+const ANCHOR_STEPS = [0, 0.5, 1] as const;
+
+const ANCHOR_ARROWS = ['↖', '↑', '↗', '←', '•', '→', '↙', '↓', '↘'];
+
+/**
+ * Offset that keeps content at the anchor when resizing along one axis
+ */
+function getAnchorOffset(from: number, to: number, anchor: number): number {
+  return Math.trunc((to - from) * anchor);
+}
+
+/**
+ * ResizeMapDialog changes the grid size without losing content: a custom
+ * size with a 9-way anchor, or a crop to the bounds of tiles and behaviors
+ */
+export class ResizeMapDialog {
+  private dialog: HTMLDialogElement;
+  private editor: Editor;
+  private widthInput: HTMLInputElement;
+  private heightInput: HTMLInputElement;
+  private anchorButtons: HTMLButtonElement[] = [];
+  private warningEl: HTMLElement;
+  private resizeBtn: HTMLButtonElement;
+  private anchor: ResizeAnchor = { x: 0.5, y: 0.5 };
+  /** Offset to the content bounds while "Crop to Content" is in effect */
+  private cropOffset: GridCoord | null = null;
+
+  constructor(containerId: string, editor: Editor) {
+    const dialog = document.getElementById(containerId);
+    if (!(dialog instanceof HTMLDialogElement)) {
+      throw new Error(`Dialog not found: ${containerId}`);
+    }
+
+    this.dialog = dialog;
+    this.editor = editor;
+    this.widthInput = document.createElement('input');
+    this.heightInput = document.createElement('input');
+    this.warningEl = document.createElement('div');
+    this.resizeBtn = document.createElement('button');
+
+    this.render();
+    this.dialog.addEventListener('close', () => {
+      if (this.dialog.returnValue === 'resize') {
+        this.applyResize();
+      }
+    });
+  }
+
+  /**
+   * Render the dialog
+   */
+  private render(): void {
+    this.dialog.innerHTML = '';
+
+    const form = document.createElement('form');
+    form.method = 'dialog';
+
+    const title = document.createElement('div');
+    title.className = 'control-label';
+    title.textContent = 'Resize Map';
+
+    const sizeRow = document.createElement('div');
+    sizeRow.className = 'control-row';
+    for (const input of [this.widthInput, this.heightInput]) {
+      input.type = 'number';
+      input.min = '1';
+      input.max = String(MAX_GRID_SIZE);
+      input.step = '1';
+      input.required = true;
+      input.addEventListener('input', () => {
+        this.cropOffset = null;
+        this.refresh();
+      });
+    }
+    sizeRow.appendChild(document.createTextNode('Width'));
+    sizeRow.appendChild(this.widthInput);
+    sizeRow.appendChild(document.createTextNode('Height'));
+    sizeRow.appendChild(this.heightInput);
+
+    const anchorLabel = document.createElement('div');
+    anchorLabel.className = 'control-meta';
+    anchorLabel.textContent = 'Anchor';
+
+    const anchorGrid = document.createElement('div');
+    anchorGrid.className = 'anchor-grid';
+    ANCHOR_STEPS.forEach((y, row) => {
+      ANCHOR_STEPS.forEach((x, column) => {
+        const btn = document.createElement('button');
+        btn.type = 'button';
+        btn.className = 'tool-btn small';
+        btn.textContent = ANCHOR_ARROWS[row * 3 + column] ?? '';
+        btn.addEventListener('click', () => {
+          this.anchor = { x, y };
+          this.cropOffset = null;
+          this.refresh();
+        });
+        this.anchorButtons.push(btn);
+        anchorGrid.appendChild(btn);
+      });
+    });
+
+    const cropBtn = document.createElement('button');
+    cropBtn.type = 'button';
+    cropBtn.className = 'tool-btn full-width';
+    cropBtn.textContent = 'Crop to Content';
+    cropBtn.title = 'Shrink the map to the bounds of all tiles and behaviors';
+    cropBtn.addEventListener('click', () => this.cropToContent());
+
+    this.warningEl.className = 'control-meta resize-warning';
+
+    const actions = document.createElement('div');
+    actions.className = 'control-row report-actions';
+
+    this.resizeBtn.className = 'tool-btn';
+    this.resizeBtn.value = 'resize';
+    this.resizeBtn.textContent = 'Resize';
+
+    const cancelBtn = document.createElement('button');
+    cancelBtn.className = 'tool-btn';
+    cancelBtn.value = 'cancel';
+    cancelBtn.formNoValidate = true;
+    cancelBtn.textContent = 'Cancel';
+
+    actions.appendChild(this.resizeBtn);
+    actions.appendChild(cancelBtn);
+    form.appendChild(title);
+    form.appendChild(sizeRow);
+    form.appendChild(anchorLabel);
+    form.appendChild(anchorGrid);
+    form.appendChild(cropBtn);
+    form.appendChild(this.warningEl);
+    form.appendChild(actions);
+    this.dialog.appendChild(form);
+  }
+
+  /**
+   * Open the dialog, starting from the given size (defaults to the current size)
+   */
+  show(width?: number, height?: number): void {
+    const level = this.editor.level;
+    this.widthInput.value = String(width ?? level.gridWidth);
+    this.heightInput.value = String(height ?? level.gridHeight);
+    this.cropOffset = null;
+    this.dialog.returnValue = '';
+    this.refresh();
+    this.dialog.showModal();
+  }
+
+  // =========================================================================
+  // Actions
+  // =========================================================================
+
+  private cropToContent(): void {
+    const bounds = this.editor.level.getContentBounds();
+    if (!bounds) {
+      this.warningEl.textContent = 'The map is empty; there is nothing to crop to.';
+      return;
+    }
+
+    this.widthInput.value = String(bounds.maxX - bounds.minX + 1);
+    this.heightInput.value = String(bounds.maxY - bounds.minY + 1);
+    this.cropOffset = { x: -bounds.minX, y: -bounds.minY };
+    this.refresh();
+  }
+
+  private applyResize(): void {
+    const size = this.readSize();
+    if (!size) return;
+
+    const { level, history, state } = this.editor;
+    const offset = this.getOffset(size.width, size.height);
+    const unchanged = size.width === level.gridWidth && size.height === level.gridHeight;
+    if (unchanged && offset.x === 0 && offset.y === 0) return;
+
+    const description = this.cropOffset
+      ? `Crop map to ${size.width}x${size.height}`
+      : `Resize map to ${size.width}x${size.height}`;
+    history.execute(new ResizeLevelCommand(level, size.width, size.height, offset, description));
+    state.markDirty();
+  }
+
+  // =========================================================================
+  // Display
+  // =========================================================================
+
+  private readSize(): { width: number; height: number } | null {
+    const width = Number(this.widthInput.value);
+    const height = Number(this.heightInput.value);
+    const isValid = (value: number) => Number.isInteger(value) && value >= 1 && value <= MAX_GRID_SIZE;
+    return isValid(width) && isValid(height) ? { width, height } : null;
+  }
+
+  private getOffset(width: number, height: number): GridCoord {
+    if (this.cropOffset) return this.cropOffset;
+
+    const level = this.editor.level;
+    return {
+      x: getAnchorOffset(level.gridWidth, width, this.anchor.x),
+      y: getAnchorOffset(level.gridHeight, height, this.anchor.y),
+    };
+  }
+
+  /**
+   * Update the anchor buttons and the clipping warning
+   */
+  private refresh(): void {
+    this.anchorButtons.forEach((btn, index) => {
+      const isActive =
+        !this.cropOffset &&
+        ANCHOR_STEPS[index % 3] === this.anchor.x &&
+        ANCHOR_STEPS[Math.floor(index / 3)] === this.anchor.y;
+      btn.classList.toggle('active', isActive);
+      btn.setAttribute('aria-pressed', String(isActive));
+    });
+
+    const size = this.readSize();
+    this.resizeBtn.disabled = !size;
+    if (!size) {
+      this.warningEl.textContent = `Width and height must be between 1 and ${MAX_GRID_SIZE}.`;
+      return;
+    }
+
+    const offset = this.getOffset(size.width, size.height);
+    const clipped = this.editor.level.getClippedContent(size.width, size.height, offset);
+    const parts = [
+      [clipped.tiles.length, 'tile'],
+      [clipped.tileBehaviors.length, 'behavior'],
+      [clipped.elevations.length, 'elevation'],
+    ] as const;
+    const lost = parts
+      .filter(([count]) => count > 0)
+      .map(([count, noun]) => `${count} ${noun}${count === 1 ? '' : 's'}`);
+
+    this.warningEl.classList.toggle('danger', lost.length > 0);
+    this.warningEl.textContent =
+      lost.length > 0
+        ? `⚠ ${lost.join(', ')} will be clipped (undo restores them).`
+        : 'No content will be clipped.';
+  }
+}
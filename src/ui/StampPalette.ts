@@ -0,0 +1,247 @@
+/**
+ * Stamp palette UI component
+ */
+
+import { Editor } from '../editor/Editor';
+import { Stamp, transformClipboardData } from '../editor/Stamps';
+import { ClipboardData } from '../editor/Clipboard';
+import { TileRegistry } from '../assets/TileRegistry';
+import { getGridScreenSize, getTileRenderPosition } from '../core/isometric';
+import { ISO_TILE_WIDTH, TILE_HEIGHT, ISO_TILE_HEIGHT } from '../core/constants';
+
+/** Thumbnail scale; CSS caps the displayed size for large stamps */
+const THUMBNAIL_SCALE = 1;
+
+/**
+ * StampPalette lists the saved stamps, saves the current selection as a new
+ * stamp and imports or exports the library
+ */
+export class StampPalette {
+  private container: HTMLElement;
+  private editor: Editor;
+  private tileRegistry: TileRegistry;
+  private listEl: HTMLElement;
+  private transformLabel: HTMLElement;
+  private fileInput: HTMLInputElement;
+
+  constructor(containerId: string, editor: Editor, tileRegistry: TileRegistry) {
+    const container = document.getElementById(containerId);
+    if (!container) {
+      throw new Error(`Container not found: ${containerId}`);
+    }
+
+    this.container = container;
+    this.editor = editor;
+    this.tileRegistry = tileRegistry;
+    this.listEl = document.createElement('div');
+    this.transformLabel = document.createElement('span');
+    this.fileInput = document.createElement('input');
+
+    this.render();
+    this.setupEventListeners();
+    this.refresh();
+  }
+
+  /**
+   * Render the palette
+   */
+  private render(): void {
+    this.container.innerHTML = '';
+
+    const actions = document.createElement('div');
+    actions.className = 'button-group';
+    const saveBtn = this.createButton('+ Save Selection', () => this.saveSelection());
+    saveBtn.title = 'Save the selected region (every layer and behaviors) as a stamp';
+    actions.appendChild(saveBtn);
+    const exportBtn = this.createButton('Export', () => this.editor.stamps.download());
+    exportBtn.title = 'Download the stamp library as JSON';
+    actions.appendChild(exportBtn);
+    const importBtn = this.createButton('Import', () => this.fileInput.click());
+    importBtn.title = 'Add stamps from an exported JSON file';
+    actions.appendChild(importBtn);
+
+    const transform = document.createElement('div');
+    transform.className = 'control-row';
+    const rotateBtn = this.createButton('⟳', () => this.editor.state.rotateStamp());
+    rotateBtn.title = 'Rotate 90° (R, Shift+R for counterclockwise)';
+    const mirrorBtn = this.createButton('⇋', () => this.editor.state.mirrorStamp());
+    mirrorBtn.title = 'Mirror (F)';
+    this.transformLabel.className = 'control-meta';
+    transform.appendChild(rotateBtn);
+    transform.appendChild(mirrorBtn);
+    transform.appendChild(this.transformLabel);
+
+    this.fileInput.type = 'file';
+    this.fileInput.accept = '.json,application/json';
+    this.fileInput.style.display = 'none';
+
+    this.listEl.className = 'stamp-list';
+
+    this.container.appendChild(actions);
+    this.container.appendChild(transform);
+    this.container.appendChild(this.fileInput);
+    this.container.appendChild(this.listEl);
+  }
+
+  private createButton(text: string, onClick: () => void): HTMLButtonElement {
+    const btn = document.createElement('button');
+    btn.type = 'button';
+    btn.className = 'tool-btn small';
+    btn.textContent = text;
+    btn.addEventListener('click', onClick);
+    return btn;
+  }
+
+  // =========================================================================
+  // Actions
+  // =========================================================================
+
+  private saveSelection(): void {
+    const name = window.prompt('Stamp name', 'New stamp');
+    if (name === null) return;
+
+    const stamp = this.editor.saveSelectionAsStamp(name);
+    if (!stamp) {
+      window.alert('Select a region with tiles or behaviors first (Select tool, M).');
+      return;
+    }
+    this.editor.setTool('stamp');
+  }
+
+  private selectStamp(stamp: Stamp): void {
+    this.editor.state.setActiveStamp(stamp.id);
+    this.editor.setTool('stamp');
+  }
+
+  private renameStamp(stamp: Stamp): void {
+    const name = window.prompt('Rename stamp', stamp.name);
+    if (name !== null) {
+      this.editor.stamps.rename(stamp.id, name);
+    }
+  }
+
+  private deleteStamp(stamp: Stamp): void {
+    if (!window.confirm(`Delete stamp "${stamp.name}"?`)) return;
+
+    this.editor.stamps.remove(stamp.id);
+    if (this.editor.state.activeStampId === stamp.id) {
+      this.editor.state.setActiveStamp(null);
+    }
+  }
+
+  private async importFile(file: File): Promise<void> {
+    try {
+      const count = this.editor.stamps.importJSON(await file.text());
+      console.log(`Imported ${count} stamps`);
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      window.alert(`Failed to import stamps: ${message}`);
+    }
+  }
+
+  // =========================================================================
+  // Display
+  // =========================================================================
+
+  private setupEventListeners(): void {
+    this.editor.stamps.on('change', () => this.refresh());
+    this.editor.stamps.on('error', (data) => {
+      const { error } = data as { error: unknown };
+      const message = error instanceof Error ? error.message : String(error);
+      window.alert(`Failed to save stamps: ${message}. Changes last until the page is closed.`);
+    });
+    this.editor.state.on('stamp:changed', () => this.refresh());
+
+    this.fileInput.addEventListener('change', () => {
+      const file = this.fileInput.files?.[0];
+      this.fileInput.value = '';
+      if (file) {
+        void this.importFile(file);
+      }
+    });
+  }
+
+  /**
+   * Sync the transform label and the stamp list with the editor
+   */
+  private refresh(): void {
+    const { rotation, mirrored } = this.editor.state.stampTransform;
+    this.transformLabel.textContent = `${rotation}°${mirrored ? ', mirrored' : ''}`;
+    this.renderStampList();
+  }
+
+  private renderStampList(): void {
+    const stamps = this.editor.stamps.getStamps();
+    const activeStampId = this.editor.state.activeStampId;
+    const transform = this.editor.state.stampTransform;
+    this.listEl.innerHTML = '';
+
+    if (stamps.length === 0) {
+      const empty = document.createElement('div');
+      empty.className = 'control-meta';
+      empty.textContent = 'No stamps yet; select a region and save it.';
+      this.listEl.appendChild(empty);
+      return;
+    }
+
+    for (const stamp of stamps) {
+      const item = document.createElement('div');
+      item.className = 'stamp-item';
+      item.classList.toggle('selected', stamp.id === activeStampId);
+      item.title = `${stamp.name} (${stamp.width}×${stamp.height})`;
+      item.addEventListener('click', () => this.selectStamp(stamp));
+
+      // The active stamp's thumbnail follows the brush transform
+      const data = stamp.id === activeStampId ? transformClipboardData(stamp, transform) : stamp;
+      item.appendChild(this.createThumbnail(data));
+
+      const info = document.createElement('div');
+      info.className = 'stamp-info';
+      info.textContent = `${stamp.name} · ${stamp.width}×${stamp.height}`;
+      item.appendChild(info);
+
+      const renameBtn = this.createButton('✎', () => this.renameStamp(stamp));
+      renameBtn.title = 'Rename';
+      const deleteBtn = this.createButton('✕', () => this.deleteStamp(stamp));
+      deleteBtn.title = 'Delete';
+      for (const btn of [renameBtn, deleteBtn]) {
+        btn.addEventListener('click', (e) => e.stopPropagation());
+        item.appendChild(btn);
+      }
+
+      this.listEl.appendChild(item);
+    }
+  }
+
+  /**
+   * Draw a stamp as a small isometric picture from tile previews
+   */
+  private createThumbnail(data: ClipboardData): HTMLCanvasElement {
+    const size = getGridScreenSize(data.width, data.height);
+    const canvas = document.createElement('canvas');
+    canvas.width = size.width * THUMBNAIL_SCALE;
+    canvas.height = size.height * THUMBNAIL_SCALE;
+
+    const ctx = canvas.getContext('2d');
+    if (!ctx) return canvas;
+    ctx.imageSmoothingEnabled = false;
+
+    // Offsets that put the left-most and top-most sprites at the canvas edge
+    const offsetX = data.height * (ISO_TILE_WIDTH / 2);
+    const offsetY = TILE_HEIGHT - ISO_TILE_HEIGHT;
+
+    for (const layer of data.layers) {
+      // Back to front, like the renderer
+      const tiles = [...layer.tiles].sort(
+        (a, b) => a.offset.x + a.offset.y - (b.offset.x + b.offset.y)
+      );
+      for (const { offset, tile } of tiles) {
+        const position = getTileRenderPosition(offset.x, offset.y, offsetX, offsetY);
+        const preview = this.tileRegistry.createTilePreview(tile.tileId, THUMBNAIL_SCALE, tile);
+        ctx.drawImage(preview, position.x * THUMBNAIL_SCALE, position.y * THUMBNAIL_SCALE);
+      }
+    }
+
+    return canvas;
+  }
+}
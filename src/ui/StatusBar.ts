@@ -11,6 +11,7 @@ export class StatusBar {
   private positionEl: HTMLElement;
   private tileEl: HTMLElement;
   private layerEl: HTMLElement;
+  private brushEl: HTMLElement;
   private editor: Editor;
 
   constructor(editor: Editor) {
@@ -20,6 +21,7 @@ export class StatusBar {
     this.positionEl = document.getElementById('status-position')!;
     this.tileEl = document.getElementById('status-tile')!;
     this.layerEl = document.getElementById('status-layer')!;
+    this.brushEl = document.getElementById('status-brush')!;
 
     this.setupEventListeners();
     this.update();
@@ -34,15 +36,30 @@ export class StatusBar {
       this.updatePosition();
     });
 
+    // Elevation edits change the hovered height
+    this.editor.history.on('change', () => {
+      this.updatePosition();
+    });
+
     // Update on tile selection
     this.editor.state.on('tile:selected', () => {
       this.updateTile();
     });
 
+    // Update on orientation changes
+    this.editor.state.on('orientation:changed', () => {
+      this.updateTile();
+    });
+
     // Update on layer changes
     this.editor.state.on('layer:changed', () => {
       this.updateLayer();
     });
+
+    // Update on brush size and shape changes
+    this.editor.state.on('brush:changed', () => {
+      this.updateBrush();
+    });
   }
 
   /**
@@ -52,6 +69,7 @@ export class StatusBar {
     this.updatePosition();
     this.updateTile();
     this.updateLayer();
+    this.updateBrush();
   }
 
   /**
@@ -60,7 +78,9 @@ export class StatusBar {
   private updatePosition(): void {
     const coord = this.editor.state.hoveredCoord;
     if (coord) {
-      this.positionEl.textContent = `Position: ${coord.x}, ${coord.y}`;
+      const elevation = this.editor.level.getElevation(coord);
+      const suffix = elevation > 0 ? ` (height ${elevation})` : '';
+      this.positionEl.textContent = `Position: ${coord.x}, ${coord.y}${suffix}`;
     } else {
       this.positionEl.textContent = 'Position: --';
     }
@@ -72,7 +92,14 @@ export class StatusBar {
   private updateTile(): void {
     const tileId = this.editor.state.selectedTileId;
     if (tileId !== null) {
-      this.tileEl.textContent = `Tile: ${tileId}`;
+      const { rotation, flipX, flipY } = this.editor.state.tileOrientation;
+      const details = [
+        rotation ? `${rotation}°` : null,
+        flipX ? 'flip X' : null,
+        flipY ? 'flip Y' : null,
+      ].filter((detail): detail is string => detail !== null);
+      const suffix = details.length > 0 ? ` (${details.join(', ')})` : '';
+      this.tileEl.textContent = `Tile: ${tileId}${suffix}`;
     } else {
       this.tileEl.textContent = 'Tile: --';
     }
@@ -90,4 +117,12 @@ export class StatusBar {
       this.layerEl.textContent = 'Layer: --';
     }
   }
+
+  /**
+   * Update brush footprint display
+   */
+  private updateBrush(): void {
+    const { brushSize, brushShape } = this.editor.state;
+    this.brushEl.textContent = `Brush: ${brushSize}×${brushSize} ${brushShape}`;
+  }
 }
@@ -2,12 +2,25 @@
  * Tile palette UI component
  */
 
-import { TileId } from '../core/types';
-import { TileRegistry, TILE_CATEGORIES } from '../assets/TileRegistry';
+import { TileId, TileData } from '../core/types';
+import { TileRegistry } from '../assets/TileRegistry';
 import { Editor } from '../editor/Editor';
 
+const STORAGE_KEY = 'isometric_palette';
+
+/** Favorites and recent tiles as kept in localStorage */
+interface StoredPalette {
+  favorites: TileId[];
+  recent: TileId[];
+}
+
 /**
  * TilePalette displays available tiles for selection
+ *
+ * - The search box filters by tag, category or id
+ * - Right-click a tile to add it to or remove it from the favorites
+ * - Number keys 1–9 select the favorites (handled by the editor)
+ * - The recent strip follows every tile selection, from the palette or the map
  */
 export class TilePalette {
   private container: HTMLElement;
@@ -15,6 +28,11 @@ export class TilePalette {
   private tileRegistry: TileRegistry;
   private selectedTileId: TileId | null = null;
   private tileElements = new Map<TileId, HTMLElement>();
+  private searchInput: HTMLInputElement;
+  private favoritesEl: HTMLElement;
+  private recentEl: HTMLElement;
+  private favoriteButton: HTMLButtonElement;
+  private emptyEl: HTMLElement;
 
   constructor(containerId: string, editor: Editor, tileRegistry: TileRegistry) {
     const container = document.getElementById(containerId);
@@ -25,9 +43,16 @@ export class TilePalette {
     this.container = container;
     this.editor = editor;
     this.tileRegistry = tileRegistry;
+    this.searchInput = document.createElement('input');
+    this.favoritesEl = document.createElement('div');
+    this.recentEl = document.createElement('div');
+    this.favoriteButton = document.createElement('button');
+    this.emptyEl = document.createElement('div');
 
+    this.loadStoredPalette();
     this.render();
     this.setupEventListeners();
+    this.renderStrips();
   }
 
   /**
@@ -36,6 +61,19 @@ export class TilePalette {
   private render(): void {
     this.container.innerHTML = '';
 
+    this.searchInput.type = 'search';
+    this.searchInput.className = 'palette-search';
+    this.searchInput.placeholder = 'Search tag, category or #id';
+    this.container.appendChild(this.searchInput);
+
+    this.favoriteButton.type = 'button';
+    this.favoriteButton.className = 'tool-btn small';
+    this.favoriteButton.title = 'Add or remove the selected tile (or right-click any tile)';
+    this.container.appendChild(
+      this.createSection('Favorites (1–9)', this.favoritesEl, this.favoriteButton)
+    );
+    this.container.appendChild(this.createSection('Recent', this.recentEl));
+
     // Get all tile IDs
     const tileIds = this.tileRegistry.getAllTileIds();
 
@@ -44,49 +82,115 @@ export class TilePalette {
     grid.id = 'tile-grid';
 
     for (const tileId of tileIds) {
-      const item = this.createTileItem(tileId);
+      const item = this.createTileItem(tileId, 1.5);
       this.tileElements.set(tileId, item);
       grid.appendChild(item);
     }
 
+    this.emptyEl.className = 'control-meta';
+    this.emptyEl.textContent = 'No tiles match the search.';
+    this.emptyEl.hidden = true;
+
     this.container.appendChild(grid);
+    this.container.appendChild(this.emptyEl);
+  }
+
+  private createSection(title: string, strip: HTMLElement, action?: HTMLElement): HTMLElement {
+    const section = document.createElement('div');
+    section.className = 'palette-section';
+
+    const header = document.createElement('div');
+    header.className = 'control-row';
+    const label = document.createElement('div');
+    label.className = 'control-label';
+    label.textContent = title;
+    header.appendChild(label);
+    if (action) {
+      header.appendChild(action);
+    }
+
+    strip.className = 'tile-strip';
+    section.appendChild(header);
+    section.appendChild(strip);
+    return section;
   }
 
   /**
    * Create a tile item element
    */
-  private createTileItem(tileId: TileId): HTMLElement {
+  private createTileItem(tileId: TileId, scale: number): HTMLElement {
     const item = document.createElement('div');
     item.className = 'tile-item';
     item.dataset.tileId = String(tileId);
+    item.title = this.getTileTitle(tileId);
 
     // Create canvas preview
-    const canvas = this.tileRegistry.createTilePreview(tileId, 1.5);
+    const canvas = this.tileRegistry.createTilePreview(tileId, scale);
     canvas.style.imageRendering = 'pixelated';
     item.appendChild(canvas);
 
     return item;
   }
 
+  private getTileTitle(tileId: TileId): string {
+    const category = this.tileRegistry.getCategoryForTile(tileId);
+    const tags = this.tileRegistry.getTileTags(tileId);
+    return [`#${tileId}`, category?.name, tags.join(', ')].filter(Boolean).join(' · ');
+  }
+
   /**
    * Setup event listeners
    */
   private setupEventListeners(): void {
     this.container.addEventListener('click', (e) => {
-      const target = e.target as HTMLElement;
-      const tileItem = target.closest('.tile-item') as HTMLElement | null;
-
-      if (tileItem && tileItem.dataset.tileId) {
-        const tileId = parseInt(tileItem.dataset.tileId, 10);
+      const tileId = this.getTileIdFromEvent(e);
+      if (tileId !== null) {
         this.selectTile(tileId);
       }
     });
 
+    this.container.addEventListener('contextmenu', (e) => {
+      const tileId = this.getTileIdFromEvent(e);
+      if (tileId !== null) {
+        e.preventDefault();
+        this.toggleFavorite(tileId);
+      }
+    });
+
+    this.searchInput.addEventListener('input', () => {
+      this.applySearch();
+    });
+
+    this.favoriteButton.addEventListener('click', () => {
+      if (this.selectedTileId !== null) {
+        this.toggleFavorite(this.selectedTileId);
+      }
+    });
+
     // Listen for editor state changes
     this.editor.state.on('tile:selected', (data) => {
       const { tileId } = data as { tileId: TileId | null };
       this.updateSelection(tileId);
     });
+
+    // Reveal tiles picked from the map
+    this.editor.state.on('tile:picked', (data) => {
+      const { tile } = data as { tile: TileData };
+      this.revealTile(tile.tileId);
+    });
+
+    // Favorites and recent tiles
+    this.editor.state.on('palette:changed', () => {
+      this.renderStrips();
+      this.saveStoredPalette();
+    });
+  }
+
+  private getTileIdFromEvent(e: MouseEvent): TileId | null {
+    const target = e.target as HTMLElement;
+    const tileItem = target.closest('.tile-item') as HTMLElement | null;
+    if (!tileItem?.dataset.tileId) return null;
+    return parseInt(tileItem.dataset.tileId, 10);
   }
 
   /**
@@ -98,22 +202,107 @@ export class TilePalette {
     this.updateSelection(tileId);
   }
 
+  /**
+   * Add a tile to the favorites, or remove it
+   */
+  private toggleFavorite(tileId: TileId): void {
+    if (!this.editor.state.toggleFavoriteTile(tileId)) {
+      window.alert('Favorites are full. Right-click a favorite to remove it first.');
+    }
+  }
+
   /**
    * Update visual selection
    */
   private updateSelection(tileId: TileId | null): void {
-    // Remove previous selection
-    this.tileElements.forEach((el) => {
-      el.classList.remove('selected');
+    // Grid items plus the copies in the favorites and recent strips
+    this.container.querySelectorAll<HTMLElement>('.tile-item').forEach((el) => {
+      el.classList.toggle('selected', tileId !== null && el.dataset.tileId === String(tileId));
     });
 
-    // Add new selection
-    if (tileId !== null) {
-      const el = this.tileElements.get(tileId);
-      el?.classList.add('selected');
+    this.selectedTileId = tileId;
+    this.updateFavoriteButton();
+  }
+
+  private updateFavoriteButton(): void {
+    const isFavorite =
+      this.selectedTileId !== null &&
+      this.editor.state.favoriteTiles.includes(this.selectedTileId);
+    this.favoriteButton.textContent = isFavorite ? '★ Selected' : '☆ Selected';
+    this.favoriteButton.setAttribute('aria-pressed', String(isFavorite));
+  }
+
+  /**
+   * Rebuild the favorites and recent strips and mark favorites in the grid
+   */
+  private renderStrips(): void {
+    const { favoriteTiles, recentTiles } = this.editor.state;
+
+    this.favoritesEl.innerHTML = '';
+    favoriteTiles.forEach((tileId, index) => {
+      const item = this.createTileItem(tileId, 1);
+      item.title = `${this.getTileTitle(tileId)} (key ${index + 1})`;
+      const hotkey = document.createElement('span');
+      hotkey.className = 'tile-hotkey';
+      hotkey.textContent = String(index + 1);
+      item.appendChild(hotkey);
+      this.favoritesEl.appendChild(item);
+    });
+    if (favoriteTiles.length === 0) {
+      this.favoritesEl.appendChild(this.createHint('Right-click a tile to add it.'));
     }
 
-    this.selectedTileId = tileId;
+    this.recentEl.innerHTML = '';
+    for (const tileId of recentTiles) {
+      this.recentEl.appendChild(this.createTileItem(tileId, 1));
+    }
+    if (recentTiles.length === 0) {
+      this.recentEl.appendChild(this.createHint('Tiles you pick show up here.'));
+    }
+
+    this.tileElements.forEach((el, tileId) => {
+      el.classList.toggle('favorite', favoriteTiles.includes(tileId));
+    });
+    this.updateSelection(this.selectedTileId);
+  }
+
+  private createHint(text: string): HTMLElement {
+    const hint = document.createElement('div');
+    hint.className = 'control-meta';
+    hint.textContent = text;
+    return hint;
+  }
+
+  /**
+   * Show only the grid tiles matching the search box
+   */
+  private applySearch(): void {
+    const matches = new Set(this.tileRegistry.searchTiles(this.searchInput.value));
+    this.tileElements.forEach((el, tileId) => {
+      el.classList.toggle('hidden', !matches.has(tileId));
+    });
+    this.emptyEl.hidden = matches.size > 0;
+  }
+
+  /**
+   * Scroll a tile into view and briefly highlight it
+   */
+  revealTile(tileId: TileId): void {
+    const el = this.tileElements.get(tileId);
+    if (!el) return;
+
+    // A search that hides the tile is cleared
+    if (el.classList.contains('hidden')) {
+      this.searchInput.value = '';
+      this.applySearch();
+    }
+
+    el.scrollIntoView({ block: 'nearest', behavior: 'smooth' });
+
+    // Restart the highlight animation
+    el.classList.remove('picked');
+    void el.offsetWidth;
+    el.classList.add('picked');
   }
 
   /**
@@ -122,4 +311,34 @@ export class TilePalette {
   getSelectedTileId(): TileId | null {
     return this.selectedTileId;
   }
+
+  // =========================================================================
+  // Persistence
+  // =========================================================================
+
+  /**
+   * Restore favorites and recent tiles saved by an earlier session
+   */
+  private loadStoredPalette(): void {
+    const json = localStorage.getItem(STORAGE_KEY);
+    if (!json) return;
+
+    try {
+      const stored = JSON.parse(json) as Partial<StoredPalette>;
+      const isTileId = (value: unknown): value is TileId =>
+        typeof value === 'number' && this.tileRegistry.isValidTileId(value);
+      const toTileIds = (values: unknown): TileId[] =>
+        Array.isArray(values) ? values.filter(isTileId) : [];
+      this.editor.state.setFavoriteTiles(toTileIds(stored.favorites));
+      this.editor.state.setRecentTiles(toTileIds(stored.recent));
+    } catch (error) {
+      console.warn('Ignoring stored palette favorites:', error);
+    }
+  }
+
+  private saveStoredPalette(): void {
+    const { favoriteTiles, recentTiles } = this.editor.state;
+    const stored: StoredPalette = { favorites: [...favoriteTiles], recent: [...recentTiles] };
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(stored));
+  }
 }
@@ -4,6 +4,9 @@
 
 import { ToolType } from '../core/types';
 import { Editor } from '../editor/Editor';
+import { isTiledFile } from '../level/TiledConverter';
+import { LevelValidationError } from '../level/LevelSerializer';
+import { LevelImportDialog } from './LevelImportDialog';
 
 interface ToolButton {
   type: ToolType;
@@ -12,9 +15,24 @@ interface ToolButton {
   shortcut: string;
 }
 
+/** Import warnings listed in the alert; the full list goes to the console */
+const MAX_ALERT_WARNINGS = 15;
+
 const TOOL_BUTTONS: ToolButton[] = [
   { type: 'brush', name: 'Brush', icon: '🖌️', shortcut: 'B' },
   { type: 'eraser', name: 'Eraser', icon: '🧹', shortcut: 'E' },
+  { type: 'fill', name: 'Fill', icon: '🪣', shortcut: 'G' },
+  { type: 'rectangle', name: 'Rectangle', icon: '▭', shortcut: 'U' },
+  { type: 'line', name: 'Line', icon: '╱', shortcut: 'L' },
+  { type: 'ellipse', name: 'Ellipse', icon: '◯', shortcut: 'O' },
+  { type: 'select', name: 'Select', icon: '⬚', shortcut: 'M' },
+  { type: 'pan', name: 'Pan', icon: '✋', shortcut: 'H' },
+  { type: 'picker', name: 'Picker', icon: '💧', shortcut: 'I' },
+  { type: 'elevation', name: 'Elevation', icon: '⛰️', shortcut: 'T' },
+  { type: 'behavior', name: 'Behavior', icon: '🚦', shortcut: 'K' },
+  { type: 'autotile', name: 'Autotile', icon: '🌱', shortcut: 'J' },
+  { type: 'scatter', name: 'Scatter', icon: '🎲', shortcut: 'P' },
+  { type: 'stamp', name: 'Stamp', icon: '🧩', shortcut: 'N' },
 ];
 
 /**
@@ -23,10 +41,19 @@ const TOOL_BUTTONS: ToolButton[] = [
 export class Toolbar {
   private container: HTMLElement;
   private editor: Editor;
+  private importDialog: LevelImportDialog;
   private buttonElements = new Map<ToolType, HTMLElement>();
   private fileInput: HTMLInputElement;
+  private brushShapeButton: HTMLButtonElement | null = null;
+  private shapeModeButton: HTMLButtonElement | null = null;
+  private selectionScopeButton: HTMLButtonElement | null = null;
+  private pickerSourceButton: HTMLButtonElement | null = null;
+  private pickerLayerButton: HTMLButtonElement | null = null;
+  private elevationModeButton: HTMLButtonElement | null = null;
+  private autotileModeButton: HTMLButtonElement | null = null;
+  private scatterAreaButton: HTMLButtonElement | null = null;
 
-  constructor(containerId: string, editor: Editor) {
+  constructor(containerId: string, editor: Editor, importDialog: LevelImportDialog) {
     const container = document.getElementById(containerId);
     if (!container) {
       throw new Error(`Container not found: ${containerId}`);
@@ -34,6 +61,7 @@ export class Toolbar {
 
     this.container = container;
     this.editor = editor;
+    this.importDialog = importDialog;
     this.fileInput = this.createFileInput();
 
     this.render();
@@ -53,6 +81,65 @@ export class Toolbar {
       this.container.appendChild(btn);
     }
 
+    // Brush footprint shape toggle
+    this.brushShapeButton = this.addActionButton(
+      '',
+      'Toggle brush and eraser shape ([ / ] change the size)',
+      () => {
+        const { state } = this.editor;
+        state.setBrushShape(state.brushShape === 'square' ? 'diamond' : 'square');
+      }
+    );
+    this.updateBrushShapeButton();
+
+    // Shape fill mode toggle
+    this.shapeModeButton = this.addActionButton('', 'Toggle shape fill mode (Shift+U)', () => {
+      this.toggleShapeFillMode();
+    });
+    this.updateShapeModeButton();
+
+    // Selection scope toggle
+    this.selectionScopeButton = this.addActionButton('', 'Toggle selection scope (Shift+M)', () => {
+      this.toggleSelectionScope();
+    });
+    this.updateSelectionScopeButton();
+
+    // Picker options
+    this.pickerSourceButton = this.addActionButton(
+      '',
+      'Pick from the top tile or the active layer',
+      () => {
+        const { source } = this.editor.state.pickerOptions;
+        this.editor.state.setPickerOptions({ source: source === 'top' ? 'active' : 'top' });
+      }
+    );
+    this.pickerLayerButton = this.addActionButton('', 'Switch to the picked tile\'s layer', () => {
+      const { switchLayer } = this.editor.state.pickerOptions;
+      this.editor.state.setPickerOptions({ switchLayer: !switchLayer });
+    });
+    this.updatePickerButtons();
+
+    // Elevation raise/lower toggle
+    this.elevationModeButton = this.addActionButton('', 'Toggle raise/lower (Shift+T)', () => {
+      const { state } = this.editor;
+      state.setElevationMode(state.elevationMode === 'raise' ? 'lower' : 'raise');
+    });
+    this.updateElevationModeButton();
+
+    // Autotile paint/erase toggle
+    this.autotileModeButton = this.addActionButton('', 'Toggle terrain paint/erase (Shift+J)', () => {
+      const { state } = this.editor;
+      state.setAutotileMode(state.autotileMode === 'paint' ? 'erase' : 'paint');
+    });
+    this.updateAutotileModeButton();
+
+    // Scatter radius/selection toggle
+    this.scatterAreaButton = this.addActionButton('', 'Toggle scatter area (Shift+P)', () => {
+      const { area } = this.editor.state.scatterOptions;
+      this.editor.state.setScatterOptions({ area: area === 'radius' ? 'selection' : 'radius' });
+    });
+    this.updateScatterAreaButton();
+
     // Add separator
     const separator = document.createElement('div');
     separator.style.cssText = 'width: 1px; height: 24px; background: #0f3460; margin: 0 8px;';
@@ -63,7 +150,7 @@ export class Toolbar {
       this.editor.saveToStorage();
     });
 
-    this.addActionButton('📂', 'Import JSON', () => {
+    this.addActionButton('📂', 'Import JSON or Tiled map (.tmj/.tmx)', () => {
       this.fileInput.click();
     });
 
@@ -71,6 +158,14 @@ export class Toolbar {
       this.editor.downloadLevel();
     });
 
+    this.addActionButton('⬇️ TMJ', 'Export Tiled JSON map (.tmj)', () => {
+      this.editor.downloadTiledMap('tmj');
+    });
+
+    this.addActionButton('⬇️ TMX', 'Export Tiled XML map (.tmx)', () => {
+      this.editor.downloadTiledMap('tmx');
+    });
+
     this.addActionButton('↩️', 'Undo (Ctrl+Z)', () => {
       this.editor.history.undo();
     });
@@ -99,22 +194,39 @@ export class Toolbar {
   /**
    * Add an action button
    */
-  private addActionButton(icon: string, title: string, onClick: () => void): void {
+  private addActionButton(icon: string, title: string, onClick: () => void): HTMLButtonElement {
     const btn = document.createElement('button');
     btn.className = 'tool-btn';
     btn.title = title;
     btn.textContent = icon;
     btn.addEventListener('click', onClick);
     this.container.appendChild(btn);
+    return btn;
   }
 
   /**
-   * Create a hidden file input for JSON import
+   * Toggle between outline and filled shapes
+   */
+  private toggleShapeFillMode(): void {
+    const { state } = this.editor;
+    state.setShapeFillMode(state.shapeFillMode === 'filled' ? 'outline' : 'filled');
+  }
+
+  /**
+   * Toggle between selecting the active layer and all layers
+   */
+  private toggleSelectionScope(): void {
+    const { state } = this.editor;
+    state.setSelectionScope(state.selectionScope === 'all' ? 'layer' : 'all');
+  }
+
+  /**
+   * Create a hidden file input for JSON and Tiled map import
    */
   private createFileInput(): HTMLInputElement {
     const input = document.createElement('input');
     input.type = 'file';
-    input.accept = 'application/json';
+    input.accept = 'application/json,.json,.tmj,.tmx';
     input.style.display = 'none';
     input.addEventListener('change', this.handleFileInputChange);
     return input;
@@ -138,17 +250,65 @@ export class Toolbar {
     this.editor.state.on('tool:changed', () => {
       this.updateActiveButton();
     });
+
+    // Listen for brush footprint changes
+    this.editor.state.on('brush:changed', () => {
+      this.updateBrushShapeButton();
+    });
+
+    // Listen for shape fill mode changes
+    this.editor.state.on('shape:changed', () => {
+      this.updateShapeModeButton();
+    });
+
+    // Listen for selection scope changes
+    this.editor.state.on('scope:changed', () => {
+      this.updateSelectionScopeButton();
+    });
+
+    // Listen for picker option changes
+    this.editor.state.on('picker:changed', () => {
+      this.updatePickerButtons();
+    });
+
+    // Listen for elevation mode changes
+    this.editor.state.on('elevation:changed', () => {
+      this.updateElevationModeButton();
+    });
+
+    // Listen for autotile mode changes
+    this.editor.state.on('autotile:changed', () => {
+      this.updateAutotileModeButton();
+    });
+
+    // Listen for scatter option changes
+    this.editor.state.on('scatter:changed', () => {
+      this.updateScatterAreaButton();
+    });
   }
 
   /**
-   * Handle file input changes for importing JSON
+   * Handle file input changes for importing JSON or Tiled maps
    */
   private handleFileInputChange = async (): Promise<void> => {
     const file = this.fileInput.files?.[0];
     if (!file) return;
 
     try {
-      await this.editor.loadLevelFromFile(file);
+      if (isTiledFile(file.name)) {
+        const warnings = await this.editor.loadTiledMapFromFile(file);
+        if (warnings.length > 0) {
+          warnings.forEach((warning) => console.warn(`Tiled import: ${warning}`));
+          const shown = warnings.slice(0, MAX_ALERT_WARNINGS);
+          const more = warnings.length - shown.length;
+          window.alert(
+            `Imported with ${warnings.length} warning(s):\n\n- ${shown.join('\n- ')}` +
+              (more > 0 ? `\n\n…and ${more} more (see the console).` : '')
+          );
+        }
+      } else {
+        await this.importLevelFile(file);
+      }
     } catch (error) {
       const message = error instanceof Error ? error.message : 'Unknown error';
       window.alert(`Failed to import level: ${message}`);
@@ -158,6 +318,22 @@ export class Toolbar {
     }
   };
 
+  /**
+   * Import a level JSON file, offering a repaired import when it has problems
+   */
+  private async importLevelFile(file: File): Promise<void> {
+    try {
+      await this.editor.loadLevelFromFile(file);
+    } catch (error) {
+      if (!(error instanceof LevelValidationError)) throw error;
+
+      const repair = await this.importDialog.show(file.name, error.report);
+      if (repair) {
+        await this.editor.loadLevelFromFile(file, { repair: true });
+      }
+    }
+  }
+
   /**
    * Update active button state
    */
@@ -172,4 +348,79 @@ export class Toolbar {
       }
     });
   }
+
+  /**
+   * Update the brush shape button label
+   */
+  private updateBrushShapeButton(): void {
+    if (!this.brushShapeButton) return;
+    const { brushShape, brushSize } = this.editor.state;
+    const square = brushShape === 'square';
+    this.brushShapeButton.textContent = `${square ? '■ Square' : '◆ Diamond'} ${brushSize}`;
+    this.brushShapeButton.setAttribute('aria-pressed', String(square));
+  }
+
+  /**
+   * Update the shape fill mode button label
+   */
+  private updateShapeModeButton(): void {
+    if (!this.shapeModeButton) return;
+    const filled = this.editor.state.shapeFillMode === 'filled';
+    this.shapeModeButton.textContent = filled ? '◼ Filled' : '◻ Outline';
+    this.shapeModeButton.setAttribute('aria-pressed', String(filled));
+  }
+
+  /**
+   * Update the selection scope button label
+   */
+  private updateSelectionScopeButton(): void {
+    if (!this.selectionScopeButton) return;
+    const all = this.editor.state.selectionScope === 'all';
+    this.selectionScopeButton.textContent = all ? '⧉ All layers' : '▤ Active layer';
+    this.selectionScopeButton.setAttribute('aria-pressed', String(all));
+  }
+
+  /**
+   * Update the picker option button labels
+   */
+  private updatePickerButtons(): void {
+    const { source, switchLayer } = this.editor.state.pickerOptions;
+    if (this.pickerSourceButton) {
+      this.pickerSourceButton.textContent = source === 'top' ? '💧 Top tile' : '💧 Active layer';
+    }
+    if (this.pickerLayerButton) {
+      this.pickerLayerButton.textContent = switchLayer ? '⇄ Follow layer' : '⇄ Keep layer';
+      this.pickerLayerButton.setAttribute('aria-pressed', String(switchLayer));
+    }
+  }
+
+  /**
+   * Update the elevation mode button label
+   */
+  private updateElevationModeButton(): void {
+    if (!this.elevationModeButton) return;
+    const raise = this.editor.state.elevationMode === 'raise';
+    this.elevationModeButton.textContent = raise ? '▲ Raise' : '▼ Lower';
+    this.elevationModeButton.setAttribute('aria-pressed', String(raise));
+  }
+
+  /**
+   * Update the autotile mode button label
+   */
+  private updateAutotileModeButton(): void {
+    if (!this.autotileModeButton) return;
+    const paint = this.editor.state.autotileMode === 'paint';
+    this.autotileModeButton.textContent = paint ? '🌱 Paint' : '🌱 Erase';
+    this.autotileModeButton.setAttribute('aria-pressed', String(paint));
+  }
+
+  /**
+   * Update the scatter area button label
+   */
+  private updateScatterAreaButton(): void {
+    if (!this.scatterAreaButton) return;
+    const radius = this.editor.state.scatterOptions.area === 'radius';
+    this.scatterAreaButton.textContent = radius ? '◌ Radius' : '⬚ Selection';
+    this.scatterAreaButton.setAttribute('aria-pressed', String(radius));
+  }
 }
@@ -9,6 +9,7 @@ export class ViewControls {
   private editor: Editor;
   private zoomInput: HTMLInputElement;
   private zoomValue: HTMLElement;
+  private fitButton: HTMLButtonElement;
 
   constructor(containerId: string, editor: Editor) {
     const container = document.getElementById(containerId);
@@ -21,6 +22,7 @@ export class ViewControls {
 
     this.zoomInput = document.createElement('input');
     this.zoomValue = document.createElement('span');
+    this.fitButton = document.createElement('button');
 
     this.render();
     this.setupEventListeners();
@@ -56,8 +58,14 @@ export class ViewControls {
     row.appendChild(this.zoomInput);
     row.appendChild(this.zoomValue);
 
+    this.fitButton.type = 'button';
+    this.fitButton.className = 'tool-btn full-width';
+    this.fitButton.textContent = 'Fit Level';
+    this.fitButton.title = 'Fit the whole level in the view (Home)';
+
     group.appendChild(label);
     group.appendChild(row);
+    group.appendChild(this.fitButton);
     this.container.appendChild(group);
   }
 
@@ -73,6 +81,10 @@ export class ViewControls {
       this.editor.camera.setZoom(zoom, centerX, centerY);
     });
 
+    this.fitButton.addEventListener('click', () => {
+      this.editor.fitLevelToViewport();
+    });
+
     this.editor.camera.onZoomChange((zoom) => {
       this.updateZoomDisplay(zoom);
     });
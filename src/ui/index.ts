@@ -3,9 +3,17 @@
  */
 
 export * from './TilePalette';
+export * from './StampPalette';
 export * from './LayerPanel';
+export * from './HistoryPanel';
+export * from './BehaviorPanel';
+export * from './AutotilePanel';
+export * from './RandomBrushPanel';
+export * from './LevelSyncPanel';
 export * from './Toolbar';
+export * from './LevelImportDialog';
 export * from './StatusBar';
 export * from './ViewControls';
 export * from './MapControls';
+export * from './ResizeMapDialog';
 export * from './PixelAssetGenerator';